@@ -0,0 +1,101 @@
+/*
+  一括評価の CLI（/api/evaluate と同じ処理）
+    npm run evaluate -- scenario.json [--format csv] [--table candidates] [--thetas=-90:90:5 | --thetas=0,15,30] [--no-candidates] [--out file]
+  入力ファイルを - にすると標準入力から読む。オプションは JSON 内の同名の指定より優先
+*/
+
+import { readFileSync, writeFileSync } from "node:fs";
+import { parseArgs } from "node:util";
+import { evaluateScenario, formatEvaluateResult, parseEvaluateRequest } from "@/lib/batch-evaluate";
+
+const USAGE = `Usage: npm run evaluate -- <scenario.json | -> [options]
+
+Options:
+  --format json|csv          output format (default json)
+  --table theta|candidates   table written as CSV (default theta)
+  --thetas=FROM:TO:STEP      θ grid in degrees, or a comma-separated list (default: scenario thetaStep over [-90, 90])
+  --no-candidates            skip the per-candidate classification
+  --out FILE                 write to FILE instead of stdout
+  -h, --help                 show this help
+`;
+
+function fail(messages: string[]): never {
+  for (const m of messages) process.stderr.write(`error: ${m}\n`);
+  process.exit(1);
+}
+
+// "-90:90:5" → { from, to, step }、"0,15,30" → [0, 15, 30]
+function parseThetasOption(s: string): unknown {
+  const parts = s.split(":");
+  if (parts.length === 3) {
+    const [from, to, step] = parts.map(Number);
+    return { from, to, step };
+  }
+  return s.split(",").map((t) => (t.trim() === "" ? NaN : Number(t)));
+}
+
+// head などで出力が途中で閉じられても例外で終わらない
+process.stdout.on("error", (e: NodeJS.ErrnoException) => {
+  if (e.code === "EPIPE") process.exit(0);
+  throw e;
+});
+
+function main() {
+  let args: ReturnType<typeof parseCommandLine>;
+  try {
+    args = parseCommandLine();
+  } catch (e) {
+    fail([(e as Error).message, "run with --help for usage"]);
+  }
+  const { values, positionals } = args;
+  if (values.help) {
+    process.stdout.write(USAGE);
+    return;
+  }
+  if (positionals.length !== 1) fail(["expected exactly one input file (use - for stdin)", "run with --help for usage"]);
+
+  const path = positionals[0];
+  let text: string;
+  try {
+    text = readFileSync(path === "-" ? 0 : path, "utf8");
+  } catch (e) {
+    fail([`could not read ${path}: ${(e as Error).message}`]);
+  }
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch (e) {
+    fail([`${path} is not valid JSON: ${(e as Error).message}`]);
+  }
+  if (typeof raw === "object" && raw !== null && !Array.isArray(raw)) {
+    raw = {
+      ...raw,
+      ...(values.format !== undefined && { format: values.format }),
+      ...(values.table !== undefined && { table: values.table }),
+      ...(values.thetas !== undefined && { thetas: parseThetasOption(values.thetas) }),
+      ...(values["no-candidates"] && { candidates: false }),
+    };
+  }
+
+  const parsed = parseEvaluateRequest(raw);
+  if (!parsed.ok) fail(parsed.errors);
+  const { body } = formatEvaluateResult(parsed.value, evaluateScenario(parsed.value));
+  if (values.out) writeFileSync(values.out, body);
+  else process.stdout.write(body);
+}
+
+function parseCommandLine() {
+  return parseArgs({
+    allowPositionals: true,
+    options: {
+      format: { type: "string" },
+      table: { type: "string" },
+      thetas: { type: "string" },
+      "no-candidates": { type: "boolean" },
+      out: { type: "string" },
+      help: { type: "boolean", short: "h" },
+    },
+  });
+}
+
+main();
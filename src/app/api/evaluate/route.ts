@@ -0,0 +1,45 @@
+/*
+  POST /api/evaluate: 本文は一括評価の要求（src/lib/batch-evaluate.ts）
+  GET  /api/evaluate?<共有リンクと同じクエリ>&format=csv&table=candidates&candidates=false
+  不正な入力は 400 と { errors: string[] }
+*/
+
+import {
+  evaluateScenario,
+  formatEvaluateResult,
+  parseEvaluateRequest,
+} from "@/lib/batch-evaluate";
+import { DEFAULT_SCENARIO, scenarioFromQuery } from "@/lib/scenario-state";
+
+const badRequest = (errors: string[]) => Response.json({ errors }, { status: 400 });
+
+function respond(raw: unknown) {
+  const parsed = parseEvaluateRequest(raw);
+  if (!parsed.ok) return badRequest(parsed.errors);
+  const { body, contentType } = formatEvaluateResult(parsed.value, evaluateScenario(parsed.value));
+  return new Response(body, { headers: { "Content-Type": contentType } });
+}
+
+export async function POST(request: Request) {
+  let raw: unknown;
+  try {
+    raw = await request.json();
+  } catch (e) {
+    return badRequest([`body is not valid JSON: ${(e as Error).message}`]);
+  }
+  return respond(raw);
+}
+
+// クエリに無いシナリオのキーは既定値
+export function GET(request: Request) {
+  const { searchParams, search } = new URL(request.url);
+  const scenario = scenarioFromQuery(search, DEFAULT_SCENARIO) ?? { ok: true as const, value: DEFAULT_SCENARIO };
+  if (!scenario.ok) return badRequest(scenario.errors.map((e) => `scenario.${e}`));
+  const candidates = searchParams.get("candidates");
+  return respond({
+    scenario: scenario.value,
+    format: searchParams.get("format") ?? undefined,
+    table: searchParams.get("table") ?? undefined,
+    candidates: candidates === null ? undefined : candidates !== "false",
+  });
+}
@@ -1,25 +1,75 @@
 "use client";
 
-import React, { useMemo, useState } from "react";
+import React, { useEffect, useMemo, useRef, useState } from "react";
 import { Card, CardContent } from "@/components/ui/card";
-import { Slider } from "@/components/ui/slider";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Button } from "@/components/ui/button";
-import {
-  LineChart,
-  Line,
-  XAxis,
-  YAxis,
-  Tooltip,
-  Legend,
-  ResponsiveContainer,
-  ReferenceLine,
-  ScatterChart,
-  Scatter,
-  CartesianGrid,
-} from "recharts";
 import { motion } from "framer-motion";
+import { Download, Link, Pin, Plus, Upload, X } from "lucide-react";
+import {
+  EMOTIONS,
+  clampWeights,
+  countCandX,
+  dot,
+  defaultMappingParams,
+  defaultSatisfactionParams,
+  getSatisfactionModel,
+  type EmotionMappingId,
+  type EmotionObservation,
+  type EmotionProbs,
+  type SatisfactionModelId,
+  type ThetaPrior,
+} from "@/lib/emotion-model";
+import {
+  DEFAULT_SCENARIO,
+  Q_MAX,
+  itemLabel,
+  parseScenarioFile,
+  scenarioFromQuery,
+  scenarioModelInputs,
+  scenarioToQuery,
+  serializeScenarioFile,
+  type ScenarioState,
+} from "@/lib/scenario-state";
+import { downloadText } from "@/lib/download";
+import { candidateTable as candidateCsvTable, thetaScanTable } from "@/lib/batch-evaluate";
+import { trialLogLikelihood, type Trial } from "@/lib/trial-data";
+import type { FitValues } from "@/lib/model-fit";
+import { useModelJob } from "@/hooks/use-model-job";
+import { useI18n } from "@/hooks/use-i18n";
+import { fitsQuantities } from "@/components/explorer/shared";
+import { ThetaPosteriorCard } from "@/components/explorer/theta-posterior-card";
+import { WeightPosteriorCard } from "@/components/explorer/weight-posterior-card";
+import { OfferRecommenderCard } from "@/components/explorer/offer-recommender-card";
+import { PresetBar } from "@/components/explorer/preset-bar";
+import { type ExportTable } from "@/components/explorer/chart-export-buttons";
+import { ThetaScanCard } from "@/components/explorer/theta-scan-card";
+import { CandidateScatterCard, type TrialPoint } from "@/components/explorer/candidate-scatter-card";
+import { TrialDataCard } from "@/components/explorer/trial-data-card";
+import { ModelFitCard } from "@/components/explorer/model-fit-card";
+import { MappingControls, type MappingParamsById } from "@/components/explorer/mapping-controls";
+import { NegotiationSimulatorCard } from "@/components/explorer/negotiation-simulator-card";
+import { SweepCard } from "@/components/explorer/sweep-card";
+import { ScenarioComparisonCard } from "@/components/explorer/scenario-comparison-card";
+import { StochasticOpponentCard } from "@/components/explorer/stochastic-opponent-card";
+import { SatisfactionControls, type SatisfactionParamsById } from "@/components/explorer/satisfaction-controls";
+import { SliderInput } from "@/components/explorer/slider-input";
+import { LocaleToggle } from "@/components/explorer/locale-toggle";
+
+// モデルごとのパラメータ（切り替えても値を保持）
+const initialMappingParams = (): MappingParamsById => ({
+  piecewise: defaultMappingParams("piecewise"),
+  softmax: defaultMappingParams("softmax"),
+  sigmoid: defaultMappingParams("sigmoid"),
+});
+
+const initialSatisfactionParams = (): SatisfactionParamsById => ({
+  exponential: defaultSatisfactionParams("exponential"),
+  inequity: defaultSatisfactionParams("inequity"),
+  reference: defaultSatisfactionParams("reference"),
+  rank: defaultSatisfactionParams("rank"),
+});
 
 /*
   Emotion Belt Scatter Explorer (self/other, probability-normalized)
@@ -33,113 +83,77 @@ import { motion } from "framer-motion";
   - 上部には従来の θ→感情尤度のラインチャートも残して比較可能に
 */
 
-const deg2rad = (d: number) => (Math.PI / 180) * d;
-
-function enumerateCandX(q: number[]): number[][] {
-  const xs: number[][] = [];
-  for (let x1 = 0; x1 <= q[0]; x1++)
-    for (let x2 = 0; x2 <= q[1]; x2++)
-      for (let x3 = 0; x3 <= q[2]; x3++)
-        for (let x4 = 0; x4 <= q[3]; x4++) xs.push([x1, x2, x3, x4]);
-  return xs;
-}
-
-function dot(a: number[], b: number[]) {
-  let s = 0;
-  for (let i = 0; i < a.length; i++) s += a[i] * b[i];
-  return s;
-}
-
-function add(a: number[], b: number[], sign = 1) {
-  return a.map((ai, i) => ai + sign * b[i]);
-}
+const isValidQuantity = (s: string) => /^\d+$/.test(s) && Number(s) <= Q_MAX;
 
-function clamp(v: number, lo: number, hi: number) {
-  return Math.max(lo, Math.min(hi, v));
-}
-
-function clampWeights(w: number[], wmax: number) {
-  return w.map((wi) => Math.round(clamp(wi, -wmax, wmax))); // ← 1刻み想定
-}
-
-// 効用（other 視点; self/other 役割分離）
-function utility(thetaRad: number, wSelf: number[], wOther: number[], x: number[], q: number[]) {
-  const xOther = add(q, x, -1); // other の取り分 = q − x
-  return Math.cos(thetaRad) * dot(wOther, xOther) + Math.sin(thetaRad) * dot(wSelf, x);
-}
-
-// 満足度 S = exp(β (U − Umax))
-function satisfactionGivenUmax(
-  u: number,
-  umax: number,
-  beta: number,
-) {
-  return Math.exp(beta * (u - umax));
-}
-
-function emotionScoresFromS(S: number, sMin: number) {
-  const clamp01 = (v: number) => Math.max(0, Math.min(1, v));
-  if (S <= sMin) {
-    // しきい値以下は Anger = 1、他は 0
-    return { Anger: 1, Neutral: 0, Joy: 0, Sad: 0 };
-  }
-  const lambda = (S - sMin) / (1 - sMin); // [0,1]
-  const neutral = clamp01(1 - lambda);
-  const joy = clamp01(lambda);
-  return { Anger: 0, Neutral: neutral, Joy: joy, Sad: 0 };
-}
-
-function scoresToProbs(scores: { [k: string]: number }, eps = 1e-9) {
-  const total = (scores.Anger + eps) + (scores.Sad + eps) + (scores.Neutral + eps) + (scores.Joy + eps);
-  return {
-    Anger: (scores.Anger + eps) / total,
-    Sad: (scores.Sad + eps) / total,
-    Neutral: (scores.Neutral + eps) / total,
-    Joy: (scores.Joy + eps) / total,
-  };
+// 個数 q_i の入力（0..Q_MAX の整数のみ確定、それ以外はエラー表示）
+function QuantityInput({ value, onCommit, label }: { value: number; onCommit: (v: number) => void; label: string; }) {
+  const { t } = useI18n();
+  const [draft, setDraft] = useState(String(value));
+  useEffect(() => setDraft(String(value)), [value]);
+  const error = isValidQuantity(draft) ? null : t("division.quantityError", { max: Q_MAX });
+  return (
+    <div>
+      <Input type="number" step={1} min={0} max={Q_MAX} value={draft} aria-label={label} aria-invalid={error !== null}
+        onChange={(e) => {
+          setDraft(e.target.value);
+          if (isValidQuantity(e.target.value)) onCommit(Number(e.target.value));
+        }}
+        onBlur={() => setDraft(String(value))}
+        className="w-20" />
+      {error && <p className="text-xs text-destructive mt-1">{error}</p>}
+    </div>
+  );
 }
 
-const EMO_COLORS: Record<string, string> = {
-  Anger: "#f28e8e",   // pinkish red
-  Sad: "#7d7aa6",     // muted purple
-  Neutral: "#bfecc5", // pale green
-  Joy: "#f5c04a",     // warm yellow
-};
-
-// ラベル順序
-const EMO_ORDER = ["Joy", "Neutral", "Sad", "Anger"] as const;
-
-function WeightSliderRow({ label, values, setValues, wMax }: { label: string; values: number[]; setValues: (v: number[]) => void; wMax: number; }) {
+function WeightSliderRow({ label, values, setValues, wMax, names }: { label: string; values: number[]; setValues: (v: number[]) => void; wMax: number; names: string[]; }) {
+  const { t } = useI18n();
   return (
     <div className="space-y-2">
-      <Label className="text-sm">{label} (step=1)</Label>
-      <div className="grid grid-cols-4 gap-2">
+      <Label className="text-sm">{t("weights.heading", { label })}</Label>
+      <div className="grid gap-2" style={{ gridTemplateColumns: `repeat(${values.length}, minmax(0, 1fr))` }}>
         {values.map((wi, i) => (
-          <Slider key={i} value={[wi]} min={-wMax} max={wMax} step={1} onValueChange={([v]) => {
-            const next = [...values];
-            next[i] = Math.round(v);
-            setValues(next);
-          }} />
+          <div key={i} className="space-y-1">
+            <div className="text-xs text-muted-foreground truncate">{itemLabel(names, i)}</div>
+            <SliderInput label={`${label}: ${itemLabel(names, i)}`} value={wi} min={-wMax} max={wMax} step={1}
+              inputClassName="w-14" onChange={(v) => {
+                const next = [...values];
+                next[i] = v;
+                setValues(next);
+              }} />
+          </div>
         ))}
       </div>
-      <p className="text-xs text-muted-foreground">current: [{values.map((v) => v.toFixed(0)).join(", ")}]</p>
+      <p className="text-xs text-muted-foreground">{t("weights.current", { values: values.map((v) => v.toFixed(0)).join(", ") })}</p>
     </div>
   );
 }
 
 export default function EmotionBeltScatterExplorer() {
+  const { t } = useI18n();
+
   // --- Parameters ---
-  const [q, setQ] = useState<number[]>([7, 5, 5, 5]);
-  const [x, setX] = useState<number[]>([3, 2, 2, 1]);
-  const [wSelf, setWSelf] = useState<number[]>([4, 0, 2, -2]);
-  const [wOther, setWOther] = useState<number[]>([4, 1, -2, 0]);
-  const [wMax, setWMax] = useState<number>(4);
-  const [beta, setBeta] = useState<number>(0.1);
-  const [tau1, setTau1] = useState<number>(0.4);
-  const [tau2, setTau2] = useState<number>(0.7);
-  const [sadBand, setSadBand] = useState<number>(0.02);
-  const [thetaDeg, setThetaDeg] = useState<number>(45);
-  const [thetaStep, setThetaStep] = useState<number>(1); // for line chart only
+  const [q, setQ] = useState<number[]>(DEFAULT_SCENARIO.q);
+  const [x, setX] = useState<number[]>(DEFAULT_SCENARIO.x);
+  const [wSelf, setWSelf] = useState<number[]>(DEFAULT_SCENARIO.wSelf);
+  const [wOther, setWOther] = useState<number[]>(DEFAULT_SCENARIO.wOther);
+  const [names, setNames] = useState<string[]>(DEFAULT_SCENARIO.names);
+  const [wMax, setWMax] = useState<number>(DEFAULT_SCENARIO.wMax);
+  const [beta, setBeta] = useState<number>(DEFAULT_SCENARIO.beta);
+  const [tau1, setTau1] = useState<number>(DEFAULT_SCENARIO.tau1);
+  const [tau2, setTau2] = useState<number>(DEFAULT_SCENARIO.tau2);
+  const [sadBand, setSadBand] = useState<number>(DEFAULT_SCENARIO.sadBand);
+  const [thetaDeg, setThetaDeg] = useState<number>(DEFAULT_SCENARIO.thetaDeg);
+  const [thetaStep, setThetaStep] = useState<number>(DEFAULT_SCENARIO.thetaStep); // for line chart only
+  const [mappingId, setMappingId] = useState<EmotionMappingId>(DEFAULT_SCENARIO.mapping.id);
+  const [mappingParams, setMappingParams] = useState<MappingParamsById>(initialMappingParams);
+  const [compareMappingId, setCompareMappingId] = useState<EmotionMappingId | null>(null);
+  const [satisfactionId, setSatisfactionId] = useState<SatisfactionModelId>(DEFAULT_SCENARIO.satisfaction.id);
+  const [satisfactionParams, setSatisfactionParams] = useState<SatisfactionParamsById>(initialSatisfactionParams);
+  const [reference, setReference] = useState<number[]>(DEFAULT_SCENARIO.satisfaction.reference); // [] = 均等割り
+  const [observations, setObservations] = useState<EmotionObservation[]>([]);
+  const [prior, setPrior] = useState<ThetaPrior>({ kind: "uniform" });
+  const [trials, setTrials] = useState<Trial[]>([]);
+  const [pinned, setPinned] = useState<ScenarioState | null>(null); // 比較用に固定したシナリオ A
 
   // クリップ（±w_max、1刻み）
   const wSelfClamped = useMemo(() => clampWeights(wSelf, wMax), [wSelf, wMax]);
@@ -154,184 +168,411 @@ export default function EmotionBeltScatterExplorer() {
     return q.reduce((sum, qi, i) => sum + (qi - x[i]) * wOtherClamped[i], 0);
   }, [q, x, wOtherClamped]);
 
-  const candX = useMemo(() => enumerateCandX(q.map((v) => Math.round(v))), [q]);
-
-  // ---- ラインチャート（θ→感情尤度）: 参考用 ----
-  const lineData = useMemo(() => {
-    const rows: Array<{ [k: string]: number }> = [];
-    for (let th = -90; th <= 90; th += thetaStep) {
-      // Umax を一度だけ計算
-      const thetaRad = deg2rad(th);
-      let umax = -Infinity;
-      for (const xx of candX) {
-        const u = utility(thetaRad, wSelfClamped, wOtherClamped, xx, q);
-        if (u > umax) umax = u;
-      }
-      // 提案 x の満足度
-      const u = utility(thetaRad, wSelfClamped, wOtherClamped, x, q);
-      const S = satisfactionGivenUmax(u, umax, beta);
-      const probs = scoresToProbs(emotionScoresFromS(S, tau1));
-      rows.push({ theta: th, ...probs });
+  // x を含まない交渉設定（x の変更で再計算したくないもの用）
+  const setup = useMemo(
+    () => ({ q, wSelf: wSelfClamped, wOther: wOtherClamped }),
+    [q, wSelfClamped, wOtherClamped],
+  );
+  const scenario = useMemo(() => ({ ...setup, x }), [setup, x]);
+
+  const mapping = useMemo(() => ({ id: mappingId, params: mappingParams[mappingId] }), [mappingId, mappingParams]);
+  const satisfaction = useMemo(
+    () => ({ id: satisfactionId, params: satisfactionParams[satisfactionId], reference }),
+    [satisfactionId, satisfactionParams, reference],
+  );
+  const modelParams = useMemo(
+    () => ({ beta, tau1, tau2, sadBand, mapping, satisfaction }),
+    [beta, tau1, tau2, sadBand, mapping, satisfaction],
+  );
+  const betaUsed = getSatisfactionModel(satisfactionId).usesBeta;
+
+  // ---- ラインチャート（θ→感情尤度）: 参考用（Web Worker で計算） ----
+  const scanJob = useMemo(
+    () => ({ kind: "thetaScan" as const, scenario, params: modelParams, thetaStep }),
+    [scenario, modelParams, thetaStep],
+  );
+  const scanState = useModelJob(scanJob);
+  const lineData = useMemo(() => scanState.result?.rows ?? [], [scanState.result]);
+
+  // ---- 比較用: 別の写像モデルでの θ-scan ----
+  const compareId = compareMappingId !== mappingId ? compareMappingId : null;
+  const compareJob = useMemo(
+    () => compareId === null
+      ? null
+      : {
+        kind: "thetaScan" as const,
+        scenario,
+        params: { ...modelParams, mapping: { id: compareId, params: mappingParams[compareId] } },
+        thetaStep,
+      },
+    [compareId, scenario, modelParams, mappingParams, thetaStep],
+  );
+  const compareState = useModelJob(compareJob);
+  const compareData = useMemo(() => compareState.result?.rows ?? [], [compareState.result]);
+
+  // ---- スキャッター: 全候補 x の (selfValue, otherValue) と感情分類（Web Worker で計算） ----
+  const candidatesJob = useMemo(
+    () => ({ kind: "candidates" as const, thetaDeg, setup, params: modelParams }),
+    [thetaDeg, setup, modelParams],
+  );
+  const candidatesState = useModelJob(candidatesJob);
+  const candidates = useMemo(() => candidatesState.result?.candidates ?? [], [candidatesState.result]);
+
+  // ---- A/B 比較: 固定したシナリオ A の θ-scan と候補（固定していなければ計算しない） ----
+  const pinnedInputs = useMemo(() => (pinned ? scenarioModelInputs(pinned) : null), [pinned]);
+  const pinnedScanJob = useMemo(
+    () => (pinned && pinnedInputs
+      ? { kind: "thetaScan" as const, scenario: pinnedInputs.scenario, params: pinnedInputs.params, thetaStep: pinned.thetaStep }
+      : null),
+    [pinned, pinnedInputs],
+  );
+  const pinnedScanState = useModelJob(pinnedScanJob);
+  const pinnedCandidatesJob = useMemo(
+    () => (pinned && pinnedInputs
+      ? { kind: "candidates" as const, thetaDeg: pinned.thetaDeg, setup: pinnedInputs.scenario, params: pinnedInputs.params }
+      : null),
+    [pinned, pinnedInputs],
+  );
+  const pinnedCandidatesState = useModelJob(pinnedCandidatesJob);
+
+  // ---- 試行データ: 対数尤度と、現在の q / x に一致する試行の重ね描き ----
+  const trialFit = useMemo(
+    () => (trials.length > 0 && trials[0].q.length === q.length
+      ? trialLogLikelihood(trials, wSelfClamped, wOtherClamped, modelParams, thetaDeg)
+      : null),
+    [trials, q.length, wSelfClamped, wOtherClamped, modelParams, thetaDeg],
+  );
+  const trialPoints = useMemo<TrialPoint[]>(
+    () => trials
+      .filter((trial) => trial.q.length === q.length && trial.q.every((qi, i) => qi === q[i]))
+      .map((trial) => ({
+        sx: dot(wSelfClamped, trial.x),
+        oy: dot(wOtherClamped, trial.x.map((xi, i) => q[i] - xi)),
+        x: trial.x,
+        participant: trial.participant,
+        emotion: trial.emotion,
+      })),
+    [trials, q, wSelfClamped, wOtherClamped],
+  );
+  const observedAtX = useMemo(() => {
+    const hits = trialPoints.filter((p) => p.x.every((xi, i) => xi === x[i]));
+    if (hits.length === 0) return null;
+    const freq = Object.fromEntries(EMOTIONS.map((e) => [e, hits.filter((p) => p.emotion === e).length / hits.length])) as EmotionProbs;
+    return { freq, n: hits.length };
+  }, [trialPoints, x]);
+
+  // ---- 書き出し用の表 ----
+  const lineTable = (): ExportTable => ({
+    ...thetaScanTable(lineData),
+    json: { scenario: currentScenario, rows: lineData },
+  });
+
+  const compareTable = (): ExportTable => ({
+    ...thetaScanTable(compareData),
+    json: { scenario: currentScenario, mapping: compareJob?.params.mapping, rows: compareData },
+  });
+
+  const candidateTable = (): ExportTable => ({
+    ...candidateCsvTable(candidates, q.map((_, i) => itemLabel(names, i))),
+    json: { scenario: currentScenario, candidates },
+  });
+
+  // ---- 逆推論: 観測 (x, E) からの θ 事後分布（lineData と同じ θ グリッド） ----
+  const validObservations = useMemo(
+    () => observations.filter((o) => fitsQuantities(o.x, q)),
+    [observations, q],
+  );
+
+  const posteriorJob = useMemo(
+    () => ({ kind: "posterior" as const, setup, params: modelParams, observations: validObservations, prior, thetaStep }),
+    [setup, modelParams, validObservations, prior, thetaStep],
+  );
+  const posteriorState = useModelJob(posteriorJob);
+  const posterior = posteriorState.result?.posterior ?? null;
+
+  // 品目の追加・削除（q, x, w を同じ次元に揃える）
+  const addItem = () => {
+    setQ([...q, 5]);
+    setX([...x, 0]);
+    setWSelf([...wSelf, 0]);
+    setWOther([...wOther, 0]);
+    setNames([...names, `Item ${q.length + 1}`]);
+    if (reference.length > 0) setReference([...reference, 0]);
+  };
+
+  const removeItem = (i: number) => {
+    if (q.length <= 1) return;
+    const drop = (v: number[]) => v.filter((_, j) => j !== i);
+    setQ(drop(q));
+    setX(drop(x));
+    setWSelf(drop(wSelf));
+    setWOther(drop(wOther));
+    setNames(names.filter((_, j) => j !== i));
+    if (reference.length > 0) setReference(drop(reference));
+  };
+
+  const setQAt = (i: number, qi: number) => {
+    const nextQ = [...q];
+    nextQ[i] = qi;
+    setQ(nextQ);
+    if (x[i] > qi) {
+      const nextX = [...x];
+      nextX[i] = qi;
+      setX(nextX);
     }
-    return rows;
-  }, [wSelfClamped, wOtherClamped, x, q, beta, tau1, tau2, sadBand, thetaStep, candX]);
-
-  // ---- スキャッター: 全候補 x の (selfValue, otherValue) と感情分類 ----
-  const scatterGroups = useMemo(() => {
-    const groups: Record<string, Array<{ sx: number; oy: number }>> = {
-      Joy: [], Neutral: [], Sad: [], Anger: []
-    };
-
-    const thetaRad = deg2rad(thetaDeg);
-    let umax = -Infinity;
-    // 先に Umax
-    for (const xx of candX) {
-      const u = utility(thetaRad, wSelfClamped, wOtherClamped, xx, q);
-      if (u > umax) umax = u;
+    if (reference[i] > qi) {
+      const nextRef = [...reference];
+      nextRef[i] = qi;
+      setReference(nextRef);
     }
+  };
+
+  const setNameAt = (i: number, name: string) => {
+    const next = [...names];
+    next[i] = name;
+    setNames(next);
+  };
+
+  // ---- シナリオの直列化（URL / JSON） ----
+  const currentScenario = useMemo<ScenarioState>(
+    () => ({ names, q, x, wSelf: wSelfClamped, wOther: wOtherClamped, wMax, beta, tau1, tau2, sadBand, thetaDeg, thetaStep, mapping, satisfaction }),
+    [names, q, x, wSelfClamped, wOtherClamped, wMax, beta, tau1, tau2, sadBand, thetaDeg, thetaStep, mapping, satisfaction],
+  );
+
+  const applyScenario = (sc: ScenarioState) => {
+    setNames(sc.names);
+    setQ(sc.q);
+    setX(sc.x);
+    setWSelf(sc.wSelf);
+    setWOther(sc.wOther);
+    setWMax(sc.wMax);
+    setBeta(sc.beta);
+    setTau1(sc.tau1);
+    setTau2(sc.tau2);
+    setSadBand(sc.sadBand);
+    setThetaDeg(sc.thetaDeg);
+    setThetaStep(sc.thetaStep);
+    setMappingId(sc.mapping.id);
+    setMappingParams((prev) => ({ ...prev, [sc.mapping.id]: { ...defaultMappingParams(sc.mapping.id), ...sc.mapping.params } }));
+    setSatisfactionId(sc.satisfaction.id);
+    setSatisfactionParams((prev) => ({
+      ...prev,
+      [sc.satisfaction.id]: { ...defaultSatisfactionParams(sc.satisfaction.id), ...sc.satisfaction.params },
+    }));
+    setReference(sc.satisfaction.reference);
+  };
+
+  const [scenarioErrors, setScenarioErrors] = useState<{ source: string; errors: string[] } | null>(null);
+  const [urlLoaded, setUrlLoaded] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  // 初回: URL クエリから復元
+  useEffect(() => {
+    const parsed = scenarioFromQuery(window.location.search, DEFAULT_SCENARIO);
+    if (parsed?.ok) applyScenario(parsed.value);
+    else if (parsed) setScenarioErrors({ source: "URL", errors: parsed.errors });
+    setUrlLoaded(true);
+  }, []);
+
+  // 以降: 状態を URL に反映（スライダー操作中の連続更新は間引く）
+  useEffect(() => {
+    if (!urlLoaded) return;
+    const timer = setTimeout(() => {
+      window.history.replaceState(null, "", `${window.location.pathname}?${scenarioToQuery(currentScenario)}`);
+    }, 300);
+    return () => clearTimeout(timer);
+  }, [currentScenario, urlLoaded]);
+
+  const copyLink = () => {
+    const url = `${window.location.origin}${window.location.pathname}?${scenarioToQuery(currentScenario)}`;
+    void navigator.clipboard?.writeText(url);
+  };
+
+  const exportScenario = () => {
+    downloadText("scenario.json", serializeScenarioFile(currentScenario), "application/json");
+  };
 
-    // 各候補を分類
-    for (const xx of candX) {
-      const u = utility(thetaRad, wSelfClamped, wOtherClamped, xx, q);
-      const S = satisfactionGivenUmax(u, umax, beta);
-      const probs = scoresToProbs(emotionScoresFromS(S, tau1));
-      // argmax
-      let best = "Joy" as keyof typeof probs;
-      let bestVal = probs[best];
-      (Object.keys(probs) as Array<keyof typeof probs>).forEach((k) => {
-        if (probs[k] > bestVal) { best = k; bestVal = probs[k]; }
-      });
-
-      const selfVal = dot(wSelfClamped, xx);
-      const otherVal = dot(wOtherClamped, add(q, xx, -1));
-      groups[best].push({ sx: selfVal, oy: otherVal });
+  const importScenario = async (file: File) => {
+    const parsed = parseScenarioFile(await file.text());
+    if (parsed.ok) {
+      applyScenario(parsed.value);
+      setScenarioErrors(null);
+    } else {
+      setScenarioErrors({ source: file.name, errors: parsed.errors });
     }
-    return groups;
-  }, [thetaDeg, wSelfClamped, wOtherClamped, q, candX, beta, tau1, tau2, sadBand]);
-
-  // 軸の範囲を自動で
-  const xyExtent = useMemo(() => {
-    const all = ([] as Array<{ sx: number; oy: number }>).concat(
-      scatterGroups.Joy,
-      scatterGroups.Neutral,
-      scatterGroups.Sad,
-      scatterGroups.Anger,
-    );
-    const xs = all.map((d) => d.sx);
-    const ys = all.map((d) => d.oy);
-    const xmin = Math.min(...xs, 0);
-    const xmax = Math.max(...xs, 1);
-    const ymin = Math.min(...ys, 0);
-    const ymax = Math.max(...ys, 1);
-    return { xmin, xmax, ymin, ymax };
-  }, [scatterGroups]);
-
-  const reset = () => {
-    setQ([7, 5, 5, 5]);
-    setX([3, 2, 2, 1]);
-    setWSelf([2, 1, 0, -1]);
-    setWOther([2, 0, -1, 1]);
-    setWMax(4);
-    setBeta(0.8);
-    setTau1(0.4);
-    setThetaDeg(45);
-    setThetaStep(1);
+  };
+
+  const reset = () => applyScenario(DEFAULT_SCENARIO);
+
+  // 最尤推定で当てはめた変数だけスライダーへ（θ はスライダーと同じ 1° 刻み。実行中に動かした他の変数はそのまま）
+  const applyFit = (v: Partial<FitValues>) => {
+    if (v.beta !== undefined) setBeta(v.beta);
+    if (v.tau1 !== undefined) setTau1(v.tau1);
+    if (v.sadBand !== undefined) setSadBand(v.sadBand);
+    if (v.tau2 !== undefined) setTau2(v.tau2);
+    if (v.thetaDeg !== undefined) setThetaDeg(Math.round(v.thetaDeg));
   };
 
   return (
     <div className="p-6 grid gap-6 2xl:grid-cols-2">
-      <motion.h1 initial={{ opacity: 0, y: -6 }} animate={{ opacity: 1, y: 0 }} className="text-2xl font-semibold">
-        Emotion Belt Explorer (scatter region + θ-scan)
-      </motion.h1>
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <motion.h1 initial={{ opacity: 0, y: -6 }} animate={{ opacity: 1, y: 0 }} className="text-2xl font-semibold">
+          {t("app.title")}
+        </motion.h1>
+        <LocaleToggle />
+      </div>
 
       {/* ---- θ→感情尤度（参考） ---- */}
-      <Card className="shadow-md">
-        <CardContent className="pt-6">
-          <div className="h-[320px]">
-            <ResponsiveContainer width="100%" height="100%">
-              <LineChart data={lineData} margin={{ left: 8, right: 8, top: 8, bottom: 8 }}>
-                <XAxis dataKey="theta" type="number" domain={[-90, 90]} tickCount={13}
-                  label={{ value: "θ (deg)", position: "insideBottom", dy: 10 }} />
-                <YAxis domain={[0, 1]} tickCount={6}
-                  label={{ value: "P_other(E | θ, x, w_self, w_other)", angle: -90, position: "insideLeft" }} />
-                <Tooltip formatter={(v: number) => v.toFixed(3)} />
-                <Legend />
-                <ReferenceLine x={0} strokeDasharray="3 3" />
-                <Line type="monotone" dataKey="Anger" stroke={EMO_COLORS.Anger} dot={false} strokeWidth={2} />
-                <Line type="monotone" dataKey="Neutral" stroke={EMO_COLORS.Neutral} dot={false} strokeWidth={2} />
-                <Line type="monotone" dataKey="Joy" stroke={EMO_COLORS.Joy} dot={false} strokeWidth={2} />
-              </LineChart>
-            </ResponsiveContainer>
-          </div>
-        </CardContent>
-      </Card>
+      {compareId === null ? (
+        <ThetaScanCard rows={lineData} thetaDeg={thetaDeg} onThetaChange={setThetaDeg} status={scanState}
+          filename={`theta-scan-x${x.join("-")}`} table={lineTable} observed={observedAtX} />
+      ) : (
+        <div className="2xl:col-span-2 grid gap-6 xl:grid-cols-2">
+          <ThetaScanCard title={t(`mapping.${mappingId}`)} rows={lineData} thetaDeg={thetaDeg} onThetaChange={setThetaDeg}
+            status={scanState} filename={`theta-scan-${mappingId}-x${x.join("-")}`} table={lineTable} observed={observedAtX} />
+          <ThetaScanCard title={t(`mapping.${compareId}`)} rows={compareData} thetaDeg={thetaDeg} onThetaChange={setThetaDeg}
+            status={compareState} filename={`theta-scan-${compareId}-x${x.join("-")}`} table={compareTable} observed={observedAtX} />
+        </div>
+      )}
 
       {/* ---- スキャッター（候補 x の全点） ---- */}
-      <Card className="shadow-md">
-        <CardContent className="pt-6">
-          <div className="h-[520px]">
-            <ResponsiveContainer width="100%" height="100%">
-              <ScatterChart margin={{ left: 8, right: 8, top: 8, bottom: 8 }}>
-                <CartesianGrid strokeDasharray="3 3" />
-                <XAxis type="number" dataKey="sx" domain={[xyExtent.xmin, xyExtent.xmax]}
-                  label={{ value: "Self value Σ x_i w_self,i", position: "insideBottom", dy: 10 }} />
-                <YAxis type="number" dataKey="oy" domain={[xyExtent.ymin, xyExtent.ymax]}
-                  label={{ value: "Other value Σ (q_i − x_i) w_other,i", angle: -90, position: "insideLeft" }} />
-                <Legend />
-                <Tooltip cursor={{ strokeDasharray: "3 3" }} formatter={(v: number, n: string) => v.toFixed(2)} />
-                {EMO_ORDER.map((emo) => (
-                  <Scatter key={emo} name={emo} data={scatterGroups[emo]} fill={EMO_COLORS[emo]} />
-                ))}
-              </ScatterChart>
-            </ResponsiveContainer>
-          </div>
-        </CardContent>
-      </Card>
+      <CandidateScatterCard candidates={candidates} names={names} status={candidatesState}
+        current={{ sx: totalSelf, oy: totalOther, x }} onSelect={setX}
+        filename={`candidates-theta${thetaDeg}`} table={candidateTable} trials={trialPoints}
+        animation={{ thetaDeg, onThetaChange: setThetaDeg, filename: "candidates-theta-animation" }} />
+
+      {/* ---- 確率的な相手（サンプリングと分類の不確かさ） ---- */}
+      <div className="2xl:col-span-2">
+        <StochasticOpponentCard candidates={candidates} names={names} thetaDeg={thetaDeg} onSelect={setX} />
+      </div>
+
+      {/* ---- A/B 比較 ---- */}
+      {pinned && (
+        <div className="2xl:col-span-2">
+          <ScenarioComparisonCard pinned={pinned} current={currentScenario}
+            pinnedRows={pinnedScanState.result?.rows ?? []} rows={lineData}
+            pinnedCandidates={pinnedCandidatesState.result?.candidates ?? []} candidates={candidates}
+            pinnedStatus={pinnedScanState.pending ? pinnedScanState : pinnedCandidatesState}
+            status={scanState.pending ? scanState : candidatesState}
+            onLoadPinned={() => applyScenario(pinned)} onUnpin={() => setPinned(null)} onSelect={setX} />
+        </div>
+      )}
+
+      {/* ---- 実験データ ---- */}
+      <div className="2xl:col-span-2">
+        <TrialDataCard q={q} x={x} trials={trials} setTrials={setTrials} fit={trialFit} matched={trialPoints.length} />
+      </div>
+
+      {/* ---- 最尤推定 ---- */}
+      {trialFit && (
+        <div className="2xl:col-span-2">
+          <ModelFitCard trials={trials} wSelf={wSelfClamped} wOther={wOtherClamped} params={modelParams} thetaDeg={thetaDeg}
+            onApply={applyFit} />
+        </div>
+      )}
+
+      {/* ---- θ 事後分布 ---- */}
+      <div className="2xl:col-span-2">
+        <ThetaPosteriorCard q={q} x={x} names={names} observations={observations} setObservations={setObservations}
+          prior={prior} setPrior={setPrior} posterior={posterior} status={posteriorState} />
+      </div>
+
+      {/* ---- w_other 事後分布 ---- */}
+      <div className="2xl:col-span-2">
+        <WeightPosteriorCard q={q} wSelf={wSelfClamped} wMax={wMax} names={names} params={modelParams}
+          observations={validObservations} thetaDeg={thetaDeg} thetaPrior={prior} thetaStep={thetaStep}
+          onApply={setWOther} />
+      </div>
+
+      {/* ---- 提案の推薦 ---- */}
+      <div className="2xl:col-span-2">
+        <OfferRecommenderCard setup={setup} names={names} params={modelParams} thetaDeg={thetaDeg}
+          posterior={posterior} onSelect={setX} />
+      </div>
+
+      {/* ---- 複数ラウンドの交渉シミュレーション ---- */}
+      <div className="2xl:col-span-2">
+        <NegotiationSimulatorCard setup={setup} names={names} params={modelParams} x={x} thetaDeg={thetaDeg}
+          prior={prior} thetaStep={thetaStep} onSelect={setX} />
+      </div>
+
+      {/* ---- パラメータ掃引 ---- */}
+      <div className="2xl:col-span-2">
+        <SweepCard scenario={scenario} params={modelParams} thetaDeg={thetaDeg} names={names} wMax={wMax} />
+      </div>
 
       {/* ---- 操作パネル ---- */}
       <Card className="2xl:col-span-2 shadow-md">
         <CardContent className="pt-6 space-y-6">
           <div className="flex items-center justify-between">
-            <h2 className="text-lg font-medium">Controls</h2>
-            <Button variant="outline" onClick={reset}>Reset</Button>
+            <h2 className="text-lg font-medium">{t("controls.title")}</h2>
+            <div className="flex items-center gap-2">
+              <Button variant="outline" size="sm" onClick={() => setPinned(currentScenario)}><Pin />{t(pinned ? "controls.repin" : "controls.pin")}</Button>
+              <Button variant="outline" size="sm" onClick={copyLink}><Link />{t("controls.copyLink")}</Button>
+              <Button variant="outline" size="sm" onClick={exportScenario}><Download />{t("controls.exportJson")}</Button>
+              <Button variant="outline" size="sm" onClick={() => fileInputRef.current?.click()}><Upload />{t("controls.importJson")}</Button>
+              <input ref={fileInputRef} type="file" accept="application/json,.json" className="hidden" onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) void importScenario(file);
+                e.target.value = "";
+              }} />
+              <Button variant="outline" onClick={reset}>{t("controls.reset")}</Button>
+            </div>
           </div>
+          <PresetBar current={currentScenario} onApply={applyScenario} />
+          {scenarioErrors && (
+            <div className="rounded-md border border-destructive/50 p-3 text-sm text-destructive">
+              <div className="flex items-center justify-between">
+                <p className="font-medium">{t("controls.loadError", { source: scenarioErrors.source })}</p>
+                <Button variant="ghost" size="icon" className="size-6" aria-label={t("controls.dismiss")} onClick={() => setScenarioErrors(null)}><X /></Button>
+              </div>
+              <ul className="list-disc pl-5">
+                {scenarioErrors.errors.map((err, i) => <li key={i}>{err}</li>)}
+              </ul>
+            </div>
+          )}
 
           {/* --- 配分スライダー & ポイント（w×個数） --- */}
           <Card className="shadow-md">
             <CardContent className="pt-6 space-y-6">
-              <h2 className="text-lg font-medium">Division (x is self share, q − x is other share)</h2>
+              <div className="flex items-center justify-between">
+                <h2 className="text-lg font-medium">{t("division.title")}</h2>
+                <Button variant="outline" size="sm" onClick={addItem}><Plus />{t("division.addItem")}</Button>
+              </div>
               <div className="grid grid-cols-12 gap-2 text-sm font-medium">
-                <div className="col-span-3">Your Item</div>
-                <div className="col-span-3">Your Point = x_i × w_self,i</div>
-                <div className="col-span-3">Division (x_i / q_i)</div>
-                <div className="col-span-3">Opponent Point = (q_i - x_i) × w_other,i</div>
+                <div className="col-span-2">{t("division.colItem")}</div>
+                <div className="col-span-2">{t("division.colQuantity")}</div>
+                <div className="col-span-2">{t("division.colSelf")}</div>
+                <div className="col-span-3">{t("division.colShare")}</div>
+                <div className="col-span-3">{t("division.colOther")}</div>
               </div>
-              {[0,1,2,3].map((i) => (
+              {q.map((qi, i) => (
                 <div key={i} className="grid grid-cols-12 items-center gap-2 text-sm">
-                  <div className="col-span-3">Item {i+1}</div>
-                  <div className="col-span-3">{x[i]} × {wSelfClamped[i].toFixed(0)} = {(x[i] * wSelfClamped[i]).toFixed(0)} pt</div>
+                  <div className="col-span-2 flex items-center gap-1">
+                    <Button variant="ghost" size="icon" className="size-7" disabled={q.length <= 1} onClick={() => removeItem(i)} aria-label={t("division.remove", { item: itemLabel(names, i) })}><X /></Button>
+                    <Input value={names[i]} placeholder={t("division.itemPlaceholder", { n: i + 1 })} onChange={(e) => setNameAt(i, e.target.value)} aria-label={t("division.itemName", { n: i + 1 })} className="h-8" />
+                  </div>
+                  <div className="col-span-2">
+                    <QuantityInput value={qi} onCommit={(v) => setQAt(i, v)} label={t("division.quantityOf", { item: itemLabel(names, i) })} />
+                  </div>
+                  <div className="col-span-2">{x[i]} × {wSelfClamped[i].toFixed(0)} = {(x[i] * wSelfClamped[i]).toFixed(0)} pt</div>
                   <div className="col-span-3">
-                    <Slider 
-                      value={[x[i]]} 
-                      min={0} 
-                      max={q[i]} 
-                      step={1} 
-                      onValueChange={([v]) => {
+                    <SliderInput label={t("division.shareOf", { item: itemLabel(names, i) })} value={x[i]} min={0} max={qi} step={1}
+                      inputClassName="w-14" onChange={(v) => {
                         const next = [...x];
-                        next[i] = Math.round(v);
+                        next[i] = v;
                         setX(next);
-                      }} 
-                    />
-                    <div className="text-xs text-center mt-1">{x[i]} / {q[i]}</div>
+                      }} />
+                    <div className="text-xs text-center mt-1">{x[i]} / {qi}</div>
                   </div>
-                  <div className="col-span-3">{q[i] - x[i]} × {wOtherClamped[i].toFixed(0)} = {((q[i] - x[i]) * wOtherClamped[i]).toFixed(0)} pt</div>
+                  <div className="col-span-3">{qi - x[i]} × {wOtherClamped[i].toFixed(0)} = {((qi - x[i]) * wOtherClamped[i]).toFixed(0)} pt</div>
                 </div>
               ))}
               <div className="grid grid-cols-12 gap-2 text-sm font-semibold pt-2 border-t">
-                <div className="col-span-3">Total Point</div>
-                <div className="col-span-3 text-blue-600">self: {totalSelf.toFixed(0)}</div>
+                <div className="col-span-4">{t("division.total")}</div>
+                <div className="col-span-2 text-blue-600">{t("division.totalSelf", { value: totalSelf.toFixed(0) })}</div>
                 <div className="col-span-3" />
-                <div className="col-span-3 text-blue-600">other: {totalOther.toFixed(0)}</div>
+                <div className="col-span-3 text-blue-600">{t("division.totalOther", { value: totalOther.toFixed(0) })}</div>
               </div>
             </CardContent>
           </Card>
@@ -339,42 +580,58 @@ export default function EmotionBeltScatterExplorer() {
           <div className="grid md:grid-cols-2 gap-6">
             <div className="space-y-3">
               <div className="flex items-center gap-3">
-                <Label className="w-28 text-sm text-muted-foreground">θ (deg)</Label>
-                <Slider value={[thetaDeg]} min={-90} max={90} step={1} onValueChange={([v]) => setThetaDeg(Math.round(v))} className="flex-1" />
-                <span className="text-xs tabular-nums w-10 text-right">{thetaDeg}</span>
+                <Label className="w-28 text-sm text-muted-foreground">{t("axis.theta")}</Label>
+                <SliderInput label={t("axis.theta")} value={thetaDeg} min={-90} max={90} step={1} onChange={setThetaDeg} className="flex-1" />
+              </div>
+              <div className="flex items-center gap-3">
+                <Label className="w-28 text-sm text-muted-foreground">{t("param.beta")}</Label>
+                <SliderInput label={t("param.beta")} value={beta} min={0} max={4} step={0.05} onChange={setBeta} className="flex-1"
+                  disabled={!betaUsed} />
+              </div>
+              {!betaUsed && <p className="text-xs text-muted-foreground">{t("controls.betaUnused")}</p>}
+              <div className="flex items-center gap-3">
+                <Label className="w-28 text-sm text-muted-foreground">{t("controls.tau1")}</Label>
+                <SliderInput label={t("controls.tau1")} value={tau1} min={0.05} max={0.9} step={0.005} onChange={setTau1} className="flex-1" />
               </div>
               <div className="flex items-center gap-3">
-                <Label className="w-28 text-sm text-muted-foreground">β</Label>
-                <Slider value={[beta]} min={0} max={4} step={0.05} onValueChange={([v]) => setBeta(v)} className="flex-1" />
-                <span className="text-xs tabular-nums w-10 text-right">{beta.toFixed(2)}</span>
+                <Label className="w-28 text-sm text-muted-foreground">{t("param.sadBand")}</Label>
+                <SliderInput label={t("param.sadBand")} value={sadBand} min={0} max={0.3} step={0.005} onChange={setSadBand} className="flex-1" />
               </div>
               <div className="flex items-center gap-3">
-                <Label className="w-28 text-sm text-muted-foreground">S_min (τ1)</Label>
-                <Slider value={[tau1]} min={0.05} max={0.9} step={0.005} onValueChange={([v]) => setTau1(v)} className="flex-1" />
-                <span className="text-xs tabular-nums w-10 text-right">{tau1.toFixed(3)}</span>
+                <Label className="w-28 text-sm text-muted-foreground">{t("controls.tau2")}</Label>
+                <SliderInput label={t("controls.tau2")} value={tau2} min={0.05} max={1} step={0.005} onChange={setTau2} className="flex-1" />
               </div>
             </div>
             
             <div className="space-y-3">
               <div className="flex items-center gap-3">
-                <Label className="w-28 text-sm text-muted-foreground">w_max</Label>
-                <Input type="number" step={1} min={0} value={wMax} onChange={(e) => setWMax(Math.max(0, parseInt(e.target.value) || 0))} className="w-28" />
+                <Label className="w-28 text-sm text-muted-foreground">{t("controls.wMax")}</Label>
+                <Input type="number" step={1} min={0} value={wMax} onChange={(e) => setWMax(Math.max(0, parseInt(e.target.value) || 0))} aria-label={t("controls.wMax")} className="w-28" />
               </div>
+              <MappingControls mappingId={mappingId} onMappingChange={setMappingId}
+                paramsById={mappingParams} onParamsChange={setMappingParams}
+                compareId={compareId} onCompareChange={setCompareMappingId} />
+              <SatisfactionControls modelId={satisfactionId} onModelChange={setSatisfactionId}
+                paramsById={satisfactionParams} onParamsChange={setSatisfactionParams}
+                reference={reference} onReferenceChange={setReference} q={q} x={x} names={names} />
             </div>
           </div>
 
           <div className="grid lg:grid-cols-2 gap-6">
             <div className="space-y-4">
-              <WeightSliderRow label="w_self (proposer)" values={wSelf} setValues={setWSelf} wMax={wMax} />
-              <WeightSliderRow label="w_other (emotion expresser)" values={wOther} setValues={setWOther} wMax={wMax} />
+              <WeightSliderRow label={t("weights.self")} values={wSelf} setValues={setWSelf} wMax={wMax} names={names} />
+              <WeightSliderRow label={t("weights.other")} values={wOther} setValues={setWOther} wMax={wMax} names={names} />
             </div>
 
             <div className="space-y-2 text-sm text-muted-foreground">
-              <p>Notes:</p>
+              <p>{t("notes.title")}</p>
               <ul className="list-disc pl-5 space-y-1">
-                <li>横軸 = 自分の価値 Σ x_i w_self,i、縦軸 = 相手の価値 Σ (q_i − x_i) w_other,i。</li>
-                <li>各点は候補 x の組（整数格子）。色は other の表出感情（Joy/Neutral/Sad/Anger）。</li>
-                <li>q を大きくすると点の数が指数的に増えるので注意（現在 4 次元）。</li>
+                <li>{t("notes.axes")}</li>
+                <li>{t("notes.points")}</li>
+                <li>{t("notes.mapping")}</li>
+                <li>{t("notes.satisfaction")}</li>
+                <li>{t("notes.uncertainty")}</li>
+                <li>{t("notes.size", { dims: q.length, points: countCandX(q).toLocaleString() })}</li>
               </ul>
             </div>
           </div>
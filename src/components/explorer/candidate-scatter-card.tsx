@@ -0,0 +1,283 @@
+"use client";
+
+import React, { useMemo, useRef, useState } from "react";
+import {
+  XAxis,
+  YAxis,
+  ZAxis,
+  Tooltip,
+  Legend,
+  ResponsiveContainer,
+  ScatterChart,
+  Scatter,
+  CartesianGrid,
+  Cell,
+} from "recharts";
+import { motion } from "framer-motion";
+import { Card, CardContent } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { NativeSelect } from "@/components/ui/native-select";
+import {
+  EMOTIONS,
+  MAX_ENTROPY,
+  aggregateCandidates,
+  emotionEntropy,
+  emotionMargin,
+  paretoFrontier,
+  type CandidateEval,
+  type Emotion,
+  type PointAggregate,
+} from "@/lib/emotion-model";
+import type { LegendEntry } from "@/lib/chart-export";
+import { emotionKey } from "@/lib/i18n";
+import { formatAllocation } from "@/lib/scenario-state";
+import { useI18n } from "@/hooks/use-i18n";
+import { ChartExportButtons, type ExportTable } from "./chart-export-buttons";
+import { JobStatus } from "./job-status";
+import { ThetaAnimationControls } from "./theta-animation-controls";
+import { EMO_COLORS, blendEmotionColor, heatColor, uncertaintyColor } from "./shared";
+
+type ColorMode = "argmax" | "blend" | "heat" | "entropy" | "margin";
+
+const PARETO_COLOR = "#374151";
+const CURRENT_COLOR = "#111827";
+const UNCERTAIN_COLOR = "#1f2937";
+
+const TOOLTIP_MAX_ALLOCATIONS = 6;
+
+// 同一点の候補は (self, other) が同じなので U・S・P(E) も共通
+function ScatterTooltip({ active, payload, names }: { active?: boolean; payload?: Array<{ payload: PointAggregate | CurrentPoint | TrialPoint }>; names: string[]; }) {
+  const { t } = useI18n();
+  if (!active || !payload?.length) return null;
+  const p = payload[0].payload;
+  if ("emotion" in p && "participant" in p) {
+    return (
+      <div className="rounded-md border bg-background p-2 text-xs shadow-sm space-y-1">
+        <div className="font-medium">{t("scatter.observedTrial", { participant: p.participant ? ` (${p.participant})` : "", emotion: t(emotionKey(p.emotion)) })}</div>
+        <div className="text-muted-foreground">{formatAllocation(p.x, names)}</div>
+      </div>
+    );
+  }
+  if (!("members" in p)) {
+    return (
+      <div className="rounded-md border bg-background p-2 text-xs shadow-sm">
+        {t("scatter.currentOfferTooltip", { x: formatAllocation(p.x, names) })}
+      </div>
+    );
+  }
+  const m = p.members[0];
+  return (
+    <div className="rounded-md border bg-background p-2 text-xs shadow-sm space-y-1 max-w-80">
+      <div className="font-medium">
+        {t("common.selfOther", { self: p.sx, other: p.oy })} · {t(p.count > 1 ? "common.candidateMany" : "common.candidateOne", { count: p.count })}
+      </div>
+      <ul className="text-muted-foreground">
+        {p.members.slice(0, TOOLTIP_MAX_ALLOCATIONS).map((c) => <li key={c.x.join(",")}>{formatAllocation(c.x, names)}</li>)}
+        {p.count > TOOLTIP_MAX_ALLOCATIONS && <li>{t("common.more", { count: p.count - TOOLTIP_MAX_ALLOCATIONS })}</li>}
+      </ul>
+      <div className="tabular-nums">U = {m.u.toFixed(3)}, S = {m.S.toFixed(4)}</div>
+      <div className="tabular-nums">{t("scatter.uncertainty", { entropy: emotionEntropy(m.probs).toFixed(3), margin: emotionMargin(m.probs).toFixed(3) })}</div>
+      <div className="grid grid-cols-2 gap-x-3 tabular-nums">
+        {EMOTIONS.map((e) => (
+          <div key={e} className={e === m.emotion ? "font-semibold" : ""}>
+            <span className="inline-block size-2 rounded-full mr-1" style={{ background: EMO_COLORS[e] }} />
+            P({t(emotionKey(e))}) = {m.probs[e].toFixed(3)}
+          </div>
+        ))}
+      </div>
+      <div className="text-muted-foreground">{t("scatter.clickHint")}</div>
+    </div>
+  );
+}
+
+interface CurrentPoint {
+  sx: number;
+  oy: number;
+  x: number[];
+}
+
+// 読み込んだ試行（現在の q と同じもの）
+export interface TrialPoint extends CurrentPoint {
+  participant: string;
+  emotion: Emotion;
+}
+
+const TRIAL_STROKE = "#111827";
+
+// 色の変化にかける秒数（θ を動かしたときに点の色がなめらかに変わる）
+const COLOR_TRANSITION = 0.25;
+
+// Recharts が shape に渡す値のうち使うもの（Cell の fill / stroke もここに来る）
+interface PointShapeProps {
+  cx?: number;
+  cy?: number;
+  width?: number;
+  fill?: string;
+  stroke?: string;
+  strokeWidth?: number;
+}
+
+// 座標が同じ点は θ が変わっても同じ要素のまま（Recharts の key は座標と大きさ）なので、色だけを補間する
+function AnimatedPoint({ cx = 0, cy = 0, width = 0, fill, stroke, strokeWidth, duration }: PointShapeProps & { duration: number }) {
+  return (
+    <motion.circle cx={cx} cy={cy} r={width / 2} stroke={stroke} strokeWidth={strokeWidth}
+      initial={false} animate={{ fill }} transition={{ duration, ease: "linear" }} />
+  );
+}
+
+const l1 = (a: number[], b: number[]) => a.reduce((s, ai, i) => s + Math.abs(ai - b[i]), 0);
+
+export function CandidateScatterCard({
+  title,
+  candidates,
+  names,
+  current,
+  onSelect,
+  status,
+  filename,
+  table,
+  trials = [],
+  animation,
+}: {
+  title?: string;
+  candidates: CandidateEval[];
+  names: string[];
+  current: CurrentPoint;
+  onSelect: (x: number[]) => void;
+  status: { pending: boolean; progress: number; error: string | null };
+  filename: string;
+  table: () => ExportTable;
+  trials?: TrialPoint[];
+  animation?: { thetaDeg: number; onThetaChange: (thetaDeg: number) => void; filename: string }; // 指定すると θ の再生・書き出しを出す
+}) {
+  const { t } = useI18n();
+  const chartRef = useRef<HTMLDivElement>(null);
+  const [colorMode, setColorMode] = useState<ColorMode>("argmax");
+  const [heatEmotion, setHeatEmotion] = useState<Emotion>("Joy");
+  const [showPareto, setShowPareto] = useState(true);
+  const [capturing, setCapturing] = useState(false); // 書き出し中は色の補間を切る
+
+  // 同一座標の候補を 1 点にまとめる（点の大きさ = 件数）
+  const points = useMemo(() => aggregateCandidates(candidates), [candidates]);
+  const frontier = useMemo(() => paretoFrontier(points), [points]);
+
+  // 軸の範囲を自動で
+  const xyExtent = useMemo(() => {
+    const xs = points.map((d) => d.sx);
+    const ys = points.map((d) => d.oy);
+    const xmin = Math.min(...xs, 0);
+    const xmax = Math.max(...xs, 1);
+    const ymin = Math.min(...ys, 0);
+    const ymax = Math.max(...ys, 1);
+    return { xmin, xmax, ymin, ymax };
+  }, [points]);
+
+  const maxCount = useMemo(() => Math.max(1, ...points.map((p) => p.count)), [points]);
+
+  // 同じ点に複数の候補があれば、現在の x に最も近いものを選ぶ
+  const pick = (p: PointAggregate | undefined) => {
+    if (!p?.members) return;
+    let best = p.members[0];
+    for (const m of p.members) if (l1(m.x, current.x) < l1(best.x, current.x)) best = m;
+    onSelect(best.x);
+  };
+
+  // entropy / margin は暗いほど分類が際どい
+  const pointColor = (p: PointAggregate) =>
+    colorMode === "argmax" ? EMO_COLORS[p.emotion]
+      : colorMode === "blend" ? blendEmotionColor(p.probs)
+        : colorMode === "entropy" ? uncertaintyColor(emotionEntropy(p.probs) / MAX_ENTROPY)
+          : colorMode === "margin" ? uncertaintyColor(1 - emotionMargin(p.probs))
+            : heatColor(p.probs[heatEmotion], heatEmotion);
+
+  const seriesLabel = colorMode === "heat" ? `P(${t(emotionKey(heatEmotion))})` : t(`scatter.series.${colorMode}`);
+
+  const legend: LegendEntry[] = [
+    ...(colorMode === "argmax"
+      ? EMOTIONS.map((e) => ({ label: t(emotionKey(e)), color: EMO_COLORS[e], marker: "circle" as const }))
+      : [{ label: seriesLabel, color: colorMode === "entropy" || colorMode === "margin" ? UNCERTAIN_COLOR : EMO_COLORS[heatEmotion], marker: "circle" as const }]),
+    ...(showPareto ? [{ label: t("scatter.pareto"), color: PARETO_COLOR }] : []),
+    { label: t("scatter.currentOffer"), color: CURRENT_COLOR, marker: "circle" },
+    ...(trials.length > 0 ? [{ label: t("scatter.trials"), color: TRIAL_STROKE, marker: "circle" as const }] : []),
+  ];
+
+  return (
+    <Card className="shadow-md">
+      <CardContent className="pt-6 space-y-2">
+        {title && <h2 className="text-lg font-medium">{title}</h2>}
+        <div className="flex items-center justify-between">
+          <JobStatus {...status} />
+          <ChartExportButtons chartRef={chartRef} filename={filename} table={table} legend={legend} />
+        </div>
+        <div className="flex flex-wrap items-center gap-3 text-sm">
+          <Label className="text-muted-foreground">{t("common.color")}</Label>
+          <NativeSelect value={colorMode} onChange={(e) => setColorMode(e.target.value as ColorMode)} className="w-44" aria-label={t("common.color")}>
+            <option value="argmax">{t("scatter.color.argmax")}</option>
+            <option value="blend">{t("common.blend")}</option>
+            <option value="heat">{t("scatter.color.heat")}</option>
+            <option value="entropy">{t("scatter.color.entropy")}</option>
+            <option value="margin">{t("scatter.color.margin")}</option>
+          </NativeSelect>
+          {colorMode === "heat" && (
+            <NativeSelect value={heatEmotion} onChange={(e) => setHeatEmotion(e.target.value as Emotion)} className="w-28" aria-label={t("common.heatmapEmotion")}>
+              {EMOTIONS.map((emo) => <option key={emo} value={emo}>{t(emotionKey(emo))}</option>)}
+            </NativeSelect>
+          )}
+          <label className="flex items-center gap-1.5">
+            <input type="checkbox" checked={showPareto} onChange={(e) => setShowPareto(e.target.checked)} />
+            {t("scatter.pareto")}
+          </label>
+          <span className="text-xs text-muted-foreground">
+            {t("scatter.count", { candidates: candidates.length.toLocaleString(), points: points.length.toLocaleString() })}
+          </span>
+        </div>
+        {animation && (
+          <ThetaAnimationControls thetaDeg={animation.thetaDeg} onThetaChange={animation.onThetaChange} pending={status.pending}
+            chartRef={chartRef} legend={legend} filename={animation.filename}
+            onCapturingChange={setCapturing} />
+        )}
+        <div ref={chartRef} className="h-[520px]">
+          <ResponsiveContainer width="100%" height="100%">
+            <ScatterChart margin={{ left: 8, right: 8, top: 8, bottom: 8 }}>
+              <CartesianGrid strokeDasharray="3 3" />
+              <XAxis type="number" dataKey="sx" domain={[xyExtent.xmin, xyExtent.xmax]}
+                label={{ value: t("scatter.xAxis"), position: "insideBottom", dy: 10 }} />
+              <YAxis type="number" dataKey="oy" domain={[xyExtent.ymin, xyExtent.ymax]}
+                label={{ value: t("scatter.yAxis"), angle: -90, position: "insideLeft" }} />
+              <ZAxis type="number" dataKey="count" domain={[1, maxCount]} range={[30, 300]} />
+              <Legend />
+              <Tooltip cursor={{ strokeDasharray: "3 3" }} content={<ScatterTooltip names={names} />} />
+              {/* 全点を 1 系列で描き、argmax の凡例は空の系列で出す（感情が変わっても点の要素が入れ替わらないように） */}
+              {colorMode === "argmax" && EMOTIONS.map((emo) => (
+                <Scatter key={emo} name={t(emotionKey(emo))} data={[]} fill={EMO_COLORS[emo]} legendType="circle" isAnimationActive={false} />
+              ))}
+              <Scatter name={seriesLabel} data={points} fill={legend[0].color}
+                legendType={colorMode === "argmax" ? "none" : "circle"} isAnimationActive={false} className="cursor-pointer"
+                shape={(props: PointShapeProps) => <AnimatedPoint {...props} duration={capturing ? 0 : COLOR_TRANSITION} />}
+                onClick={(item: { payload?: PointAggregate }) => pick(item.payload)}>
+                {points.map((p) => (
+                  <Cell key={`${p.sx},${p.oy}`} fill={pointColor(p)}
+                    {...(colorMode === "argmax" ? {} : { stroke: "#9ca3af", strokeWidth: 0.5 })} />
+                ))}
+              </Scatter>
+              {showPareto && (
+                <Scatter name={t("scatter.pareto")} data={frontier} fill={PARETO_COLOR} line={{ stroke: PARETO_COLOR, strokeWidth: 1.5 }}
+                  shape={() => <g />} legendType="line" isAnimationActive={false} />
+              )}
+              <Scatter name={t("scatter.currentOffer")} data={[current]} fill={CURRENT_COLOR} shape="star" legendType="star"
+                isAnimationActive={false} zAxisId="current" />
+              <ZAxis zAxisId="current" range={[260, 260]} />
+              {trials.length > 0 && (
+                <Scatter name={t("scatter.trials")} data={trials} fill={TRIAL_STROKE} shape="diamond" legendType="diamond"
+                  isAnimationActive={false} zAxisId="trials">
+                  {trials.map((trial, k) => <Cell key={k} fill={EMO_COLORS[trial.emotion]} stroke={TRIAL_STROKE} strokeWidth={1} />)}
+                </Scatter>
+              )}
+              <ZAxis zAxisId="trials" range={[90, 90]} />
+            </ScatterChart>
+          </ResponsiveContainer>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,55 @@
+"use client";
+
+import React, { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { chartToSvg, svgToPng, type LegendEntry } from "@/lib/chart-export";
+import { toCsv, type CsvValue } from "@/lib/csv";
+import { downloadBlob, downloadText } from "@/lib/download";
+
+export interface ExportTable {
+  columns: string[];
+  rows: CsvValue[][];
+  json: unknown;
+}
+
+// グラフカード右上の書き出しボタン群（データは押したときに組み立てる）
+export function ChartExportButtons({
+  chartRef,
+  legend,
+  filename,
+  table,
+}: {
+  chartRef: React.RefObject<HTMLDivElement | null>;
+  legend: LegendEntry[];
+  filename: string;
+  table: () => ExportTable;
+}) {
+  const [error, setError] = useState<string | null>(null);
+
+  const exportImage = async (format: "svg" | "png") => {
+    if (!chartRef.current) return;
+    try {
+      const { svg, width, height } = chartToSvg(chartRef.current, legend);
+      if (format === "svg") downloadText(`${filename}.svg`, svg, "image/svg+xml");
+      else downloadBlob(`${filename}.png`, await svgToPng(svg, width, height));
+      setError(null);
+    } catch (e) {
+      setError((e as Error).message);
+    }
+  };
+
+  return (
+    <div className="flex items-center gap-1">
+      {error && <span className="text-xs text-destructive mr-2">{error}</span>}
+      <Button variant="ghost" size="sm" onClick={() => {
+        const t = table();
+        downloadText(`${filename}.csv`, toCsv(t.columns, t.rows), "text/csv");
+      }}>CSV</Button>
+      <Button variant="ghost" size="sm" onClick={() => {
+        downloadText(`${filename}.json`, JSON.stringify(table().json, null, 2), "application/json");
+      }}>JSON</Button>
+      <Button variant="ghost" size="sm" onClick={() => void exportImage("svg")}>SVG</Button>
+      <Button variant="ghost" size="sm" onClick={() => void exportImage("png")}>PNG</Button>
+    </div>
+  );
+}
@@ -0,0 +1,19 @@
+"use client";
+
+import React from "react";
+import { useI18n } from "@/hooks/use-i18n";
+
+// ワーカー計算の進捗表示
+export function JobStatus({ pending, progress, error }: { pending: boolean; progress: number; error: string | null; }) {
+  const { t } = useI18n();
+  if (error) return <span className="text-xs text-destructive">{error}</span>;
+  if (!pending) return <span />;
+  return (
+    <div className="flex items-center gap-2 text-xs text-muted-foreground" role="status">
+      <div className="h-1.5 w-24 overflow-hidden rounded-full bg-muted">
+        <div className="h-full bg-primary transition-[width]" style={{ width: `${Math.round(progress * 100)}%` }} />
+      </div>
+      {t("common.computing", { percent: Math.round(progress * 100) })}
+    </div>
+  );
+}
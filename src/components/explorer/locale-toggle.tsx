@@ -0,0 +1,23 @@
+"use client";
+
+import React from "react";
+import { Languages } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useI18n } from "@/hooks/use-i18n";
+import { LOCALES, LOCALE_NAMES } from "@/lib/i18n";
+
+// 表示言語の切り替え（EN / 日本語）
+export function LocaleToggle() {
+  const { locale, setLocale, t } = useI18n();
+  return (
+    <div role="group" aria-label={t("locale.label")} className="flex items-center gap-1">
+      <Languages className="size-4 text-muted-foreground" aria-hidden />
+      {LOCALES.map((l) => (
+        <Button key={l} variant={l === locale ? "secondary" : "ghost"} size="sm" aria-pressed={l === locale} lang={l}
+          onClick={() => setLocale(l)}>
+          {LOCALE_NAMES[l]}
+        </Button>
+      ))}
+    </div>
+  );
+}
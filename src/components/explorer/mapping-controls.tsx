@@ -0,0 +1,63 @@
+"use client";
+
+import React from "react";
+import { Label } from "@/components/ui/label";
+import { NativeSelect } from "@/components/ui/native-select";
+import { EMOTION_MAPPINGS, getEmotionMapping, type EmotionMappingId } from "@/lib/emotion-model";
+import { isMessageKey } from "@/lib/i18n";
+import { useI18n } from "@/hooks/use-i18n";
+import { SliderInput } from "./slider-input";
+
+export type MappingParamsById = Record<EmotionMappingId, Record<string, number>>;
+
+// 写像モデルの選択と、モデルが宣言したパラメータのスライダー（自動生成）
+export function MappingControls({
+  mappingId,
+  onMappingChange,
+  paramsById,
+  onParamsChange,
+  compareId,
+  onCompareChange,
+}: {
+  mappingId: EmotionMappingId;
+  onMappingChange: (id: EmotionMappingId) => void;
+  paramsById: MappingParamsById;
+  onParamsChange: (next: MappingParamsById) => void;
+  compareId: EmotionMappingId | null;
+  onCompareChange: (id: EmotionMappingId | null) => void;
+}) {
+  const { t } = useI18n();
+  // 比較対象のパラメータも同じ画面で調整できるようにする
+  const shown = compareId && compareId !== mappingId ? [mappingId, compareId] : [mappingId];
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-3">
+        <Label className="w-28 text-sm text-muted-foreground">{t("mapping.label")}</Label>
+        <NativeSelect value={mappingId} className="flex-1" aria-label={t("mapping.label")} onChange={(e) => onMappingChange(e.target.value as EmotionMappingId)}>
+          {EMOTION_MAPPINGS.map((m) => <option key={m.id} value={m.id}>{t(`mapping.${m.id}`)}</option>)}
+        </NativeSelect>
+      </div>
+      <div className="flex items-center gap-3">
+        <Label className="w-28 text-sm text-muted-foreground">{t("mapping.compare")}</Label>
+        <NativeSelect value={compareId ?? ""} className="flex-1" aria-label={t("mapping.compare")}
+          onChange={(e) => onCompareChange(e.target.value === "" ? null : (e.target.value as EmotionMappingId))}>
+          <option value="">{t("common.none")}</option>
+          {EMOTION_MAPPINGS.filter((m) => m.id !== mappingId).map((m) => <option key={m.id} value={m.id}>{t(`mapping.${m.id}`)}</option>)}
+        </NativeSelect>
+      </div>
+      {shown.flatMap((id) => getEmotionMapping(id).params.map((spec) => {
+        const value = paramsById[id][spec.key] ?? spec.default;
+        const key = `param.${spec.key}`;
+        const label = isMessageKey(key) ? t(key) : spec.label;
+        return (
+          <div key={`${id}:${spec.key}`} className="flex items-center gap-3">
+            <Label className="w-28 text-sm text-muted-foreground">{label}</Label>
+            <SliderInput label={label} value={value} min={spec.min} max={spec.max} step={spec.step} digits={3} className="flex-1"
+              onChange={(v) => onParamsChange({ ...paramsById, [id]: { ...paramsById[id], [spec.key]: v } })} />
+          </div>
+        );
+      }))}
+    </div>
+  );
+}
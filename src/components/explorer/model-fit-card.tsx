@@ -0,0 +1,168 @@
+"use client";
+
+import React, { useState } from "react";
+import { LineChart, Line, XAxis, YAxis, Tooltip, ResponsiveContainer, ReferenceLine } from "recharts";
+import { Card, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Button } from "@/components/ui/button";
+import { getSatisfactionModel, type ModelParams } from "@/lib/emotion-model";
+import { FIT_KEYS, type FitKey, type FitOptions, type FitValues } from "@/lib/model-fit";
+import type { Trial } from "@/lib/trial-data";
+import type { MessageKey } from "@/lib/i18n";
+import { useI18n } from "@/hooks/use-i18n";
+import { useModelJob } from "@/hooks/use-model-job";
+import { JobStatus } from "./job-status";
+
+const FIT_LABELS: Record<FitKey, MessageKey> = {
+  beta: "param.beta",
+  tau1: "param.tau1",
+  sadBand: "param.sadBand",
+  tau2: "param.tau2",
+  thetaDeg: "axis.theta",
+};
+
+const PROFILE_COLOR = "#2563eb";
+
+type FitJob = {
+  kind: "fit";
+  trials: Trial[];
+  wSelf: number[];
+  wOther: number[];
+  params: ModelParams;
+  start: FitValues;
+  free: FitKey[];
+  options: FitOptions;
+};
+
+// 尤度比検定の 95% 閾値 χ²(1)/2
+const LR_95 = 1.92;
+
+export function ModelFitCard({
+  trials,
+  wSelf,
+  wOther,
+  params,
+  thetaDeg,
+  onApply,
+}: {
+  trials: Trial[];
+  wSelf: number[];
+  wOther: number[];
+  params: ModelParams;
+  thetaDeg: number;
+  onApply: (values: Partial<FitValues>) => void; // 当てはめた変数だけ
+}) {
+  const { t } = useI18n();
+  const [free, setFree] = useState<FitKey[]>(["beta", "tau1", "thetaDeg"]);
+  const [gridBudget, setGridBudget] = useState(2000);
+  const [job, setJob] = useState<FitJob | null>(null);
+  const state = useModelJob(job);
+  const result = state.result?.result ?? null;
+
+  // β を使わない満足度モデルでは β を当てはめない（尤度が平らになる）
+  const fittable = FIT_KEYS.filter((k) => k !== "beta" || getSatisfactionModel(params.satisfaction.id).usesBeta);
+  const freeKeys = fittable.filter((k) => free.includes(k));
+
+  const start: FitValues = { beta: params.beta, tau1: params.tau1, sadBand: params.sadBand, tau2: params.tau2, thetaDeg };
+
+  // 重いので Web Worker で計算
+  const run = () => {
+    setJob({ kind: "fit", trials, wSelf, wOther, params, start, free: freeKeys, options: { gridBudget, profilePoints: 25 } });
+  };
+
+  const toggle = (k: FitKey, on: boolean) => setFree(on ? [...free, k] : free.filter((f) => f !== k));
+
+  return (
+    <Card className="shadow-md">
+      <CardContent className="pt-6 space-y-4">
+        <h2 className="text-lg font-medium">{t("fit.title")}</h2>
+
+        <div className="flex flex-wrap items-center gap-4 text-sm">
+          <span className="text-muted-foreground">{t("fit.fit")}</span>
+          {FIT_KEYS.map((k) => (
+            <label key={k} className="flex items-center gap-1.5">
+              <input type="checkbox" checked={freeKeys.includes(k)} disabled={!fittable.includes(k)} onChange={(e) => toggle(k, e.target.checked)} />
+              {t(FIT_LABELS[k])}
+            </label>
+          ))}
+          <Label className="text-muted-foreground ml-4">{t("fit.grid")}</Label>
+          <Input type="number" min={0} max={20000} step={500} value={gridBudget} className="w-24" aria-label={t("fit.grid")}
+            onChange={(e) => setGridBudget(Math.max(0, Math.min(20000, parseInt(e.target.value) || 0)))} />
+          <div className="ml-auto flex items-center gap-3">
+            <JobStatus {...state} />
+            {state.pending
+              ? <Button variant="outline" onClick={() => setJob(null)}>{t("common.cancel")}</Button>
+              : <Button disabled={trials.length === 0 || freeKeys.length === 0} onClick={run}>{t("fit.run")}</Button>}
+          </div>
+        </div>
+
+        <p className="text-xs text-muted-foreground">
+          {t("fit.explain", { n: trials.length })}
+        </p>
+
+        {result && (
+          <div className="space-y-4">
+            <div className="grid lg:grid-cols-2 gap-6">
+              <table className="w-full text-xs tabular-nums">
+                <thead>
+                  <tr className="text-left text-muted-foreground">
+                    <th className="font-normal">{t("col.parameter")}</th>
+                    <th className="font-normal">{t("fit.colStart")}</th>
+                    <th className="font-normal">{t("fit.colFitted")}</th>
+                    <th className="font-normal">{t("fit.colSe")}</th>
+                    <th className="font-normal">{t("fit.colCi")}</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {result.free.map((k) => {
+                    const se = result.se?.[k];
+                    return (
+                      <tr key={k}>
+                        <td className="py-0.5">{t(FIT_LABELS[k])}</td>
+                        <td>{result.start[k].toFixed(3)}</td>
+                        <td className="font-semibold">{result.fitted[k].toFixed(3)}</td>
+                        <td>{se === undefined ? "—" : se.toFixed(3)}</td>
+                        <td>{se === undefined ? "—" : `[${(result.fitted[k] - 1.96 * se).toFixed(3)}, ${(result.fitted[k] + 1.96 * se).toFixed(3)}]`}</td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+              <div className="space-y-1 text-sm tabular-nums">
+                <p>{t("fit.logLik")} {result.startLogLik.toFixed(3)} → <span className="font-semibold">{result.logLik.toFixed(3)}</span></p>
+                <p className="text-xs text-muted-foreground">
+                  {t("fit.evaluations", { count: result.evaluations.toLocaleString() })}{result.converged ? "" : t("fit.notConverged")}.
+                  {result.atBound.length > 0 && t("fit.atBound", { params: result.atBound.map((k) => t(FIT_LABELS[k])).join(", ") })}
+                  {result.se === null && result.atBound.length < result.free.length && t("fit.noSe")}
+                </p>
+                <Button variant="outline" size="sm" onClick={() => onApply(Object.fromEntries(result.free.map((k) => [k, result.fitted[k]])))}>{t("fit.apply")}</Button>
+              </div>
+            </div>
+
+            <div className="grid md:grid-cols-2 xl:grid-cols-3 gap-4">
+              {result.profiles.map((p) => (
+                <div key={p.key} className="space-y-1">
+                  <h3 className="text-sm font-medium">{t("fit.profile", { param: t(FIT_LABELS[p.key]) })}</h3>
+                  <div className="h-[180px]">
+                    <ResponsiveContainer width="100%" height="100%">
+                      <LineChart data={p.values.map((v, k) => ({ v, ll: p.logLik[k] }))} margin={{ left: 8, right: 8, top: 8, bottom: 8 }}>
+                        <XAxis dataKey="v" type="number" domain={["dataMin", "dataMax"]} tickFormatter={(v: number) => v.toFixed(2)} />
+                        <YAxis domain={["auto", "auto"]} width={56} tickFormatter={(v: number) => v.toFixed(1)} />
+                        <Tooltip formatter={(v: number) => v.toFixed(3)} labelFormatter={(v) => `${t(FIT_LABELS[p.key])} = ${Number(v).toFixed(3)}`} />
+                        <ReferenceLine y={result.logLik - LR_95} stroke="#9ca3af" strokeDasharray="4 3" />
+                        <ReferenceLine x={result.fitted[p.key]} stroke={PROFILE_COLOR} strokeDasharray="3 3" />
+                        <Line type="monotone" dataKey="ll" name={t("col.logLik")} stroke={PROFILE_COLOR} dot={false} strokeWidth={2} isAnimationActive={false} />
+                      </LineChart>
+                    </ResponsiveContainer>
+                  </div>
+                </div>
+              ))}
+            </div>
+            <p className="text-xs text-muted-foreground">{t("fit.profileNote")}</p>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,180 @@
+"use client";
+
+import React, { useState } from "react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Button } from "@/components/ui/button";
+import { NativeSelect } from "@/components/ui/native-select";
+import {
+  EMOTIONS,
+  type ModelParams,
+  type ProposerStrategy,
+  type ScenarioSetup,
+  type SimulationOptions,
+  type ThetaPrior,
+} from "@/lib/emotion-model";
+import { emotionKey } from "@/lib/i18n";
+import { formatAllocation } from "@/lib/scenario-state";
+import { useI18n } from "@/hooks/use-i18n";
+import { useModelJob } from "@/hooks/use-model-job";
+import { JobStatus } from "./job-status";
+import { EMO_COLORS } from "./shared";
+
+type StrategyKind = ProposerStrategy["kind"];
+
+const MAX_ROUNDS = 50;
+
+export function NegotiationSimulatorCard({
+  setup,
+  names,
+  params,
+  x,
+  thetaDeg,
+  prior,
+  thetaStep,
+  onSelect,
+}: {
+  setup: ScenarioSetup;
+  names: string[];
+  params: ModelParams;
+  x: number[];
+  thetaDeg: number;
+  prior: ThetaPrior;
+  thetaStep: number;
+  onSelect: (x: number[]) => void;
+}) {
+  const { t } = useI18n();
+  const [strategyKind, setStrategyKind] = useState<StrategyKind>("concede");
+  const [rounds, setRounds] = useState(10);
+  const [seed, setSeed] = useState(1);
+  const [concedeStep, setConcedeStep] = useState(1);
+  const [maxAnger, setMaxAnger] = useState(0.2);
+  const [stopOnJoy, setStopOnJoy] = useState(true);
+  const [job, setJob] = useState<{ kind: "simulate"; setup: ScenarioSetup; params: ModelParams; options: SimulationOptions } | null>(null);
+  const state = useModelJob(job);
+  // q が変わったら古い結果の提案は今のシナリオに入らないので出さない
+  const ranQ = state.resultJob?.setup.q;
+  const result = ranQ && ranQ.length === setup.q.length && ranQ.every((qi, i) => qi === setup.q[i])
+    ? state.result?.result ?? null
+    : null;
+
+  const showTheta = result?.rounds.some((r) => r.thetaMean !== null) ?? false;
+
+  // 候補数が多いと bayesian は重いので明示的に実行（Web Worker で計算）
+  const run = () => {
+    const strategy: ProposerStrategy =
+      strategyKind === "fixed" ? { kind: "fixed" }
+        : strategyKind === "concede" ? { kind: "concede", step: concedeStep }
+          : { kind: "bayesian", prior, thetaStep, maxAnger };
+    setJob({ kind: "simulate", setup, params, options: { rounds, seed, trueThetaDeg: thetaDeg, initialX: x, strategy, stopOnJoy } });
+  };
+
+  return (
+    <Card className="shadow-md">
+      <CardContent className="pt-6 space-y-4">
+        <h2 className="text-lg font-medium">{t("sim.title")}</h2>
+
+        <div className="grid md:grid-cols-5 gap-3 items-end">
+          <div className="space-y-1">
+            <Label className="text-sm text-muted-foreground">{t("sim.strategy")}</Label>
+            <NativeSelect value={strategyKind} aria-label={t("sim.strategy")} onChange={(e) => setStrategyKind(e.target.value as StrategyKind)}>
+              <option value="fixed">{t("sim.fixed")}</option>
+              <option value="concede">{t("sim.concede")}</option>
+              <option value="bayesian">{t("sim.bayesian")}</option>
+            </NativeSelect>
+          </div>
+          {strategyKind === "concede" && (
+            <div className="space-y-1">
+              <Label className="text-sm text-muted-foreground">{t("sim.concedeStep")}</Label>
+              <Input type="number" min={1} max={10} step={1} value={concedeStep} aria-label={t("sim.concedeStep")}
+                onChange={(e) => setConcedeStep(Math.max(1, Math.min(10, parseInt(e.target.value) || 1)))} />
+            </div>
+          )}
+          {strategyKind === "bayesian" && (
+            <div className="space-y-1">
+              <Label className="text-sm text-muted-foreground">{t("sim.maxAnger")}</Label>
+              <Input type="number" min={0} max={1} step={0.05} value={maxAnger} aria-label={t("sim.maxAnger")}
+                onChange={(e) => setMaxAnger(Math.max(0, Math.min(1, parseFloat(e.target.value) || 0)))} />
+            </div>
+          )}
+          <div className="space-y-1">
+            <Label className="text-sm text-muted-foreground">{t("sim.rounds")}</Label>
+            <Input type="number" min={1} max={MAX_ROUNDS} step={1} value={rounds} aria-label={t("sim.rounds")}
+              onChange={(e) => setRounds(Math.max(1, Math.min(MAX_ROUNDS, parseInt(e.target.value) || 1)))} />
+          </div>
+          <div className="space-y-1">
+            <Label className="text-sm text-muted-foreground">{t("common.seed")}</Label>
+            <Input type="number" step={1} value={seed} aria-label={t("common.seed")} onChange={(e) => setSeed(parseInt(e.target.value) || 0)} />
+          </div>
+          {state.pending
+            ? <Button variant="outline" onClick={() => setJob(null)}>{t("common.cancel")}</Button>
+            : <Button onClick={run}>{t("sim.run")}</Button>}
+        </div>
+
+        <div className="flex flex-wrap items-center gap-4 text-sm">
+          <label className="flex items-center gap-1.5">
+            <input type="checkbox" checked={stopOnJoy} onChange={(e) => setStopOnJoy(e.target.checked)} />
+            {t("sim.stopOnJoy")}
+          </label>
+          <span className="text-xs text-muted-foreground">
+            {t("sim.explain", { theta: thetaDeg })}
+          </span>
+          <JobStatus {...state} />
+        </div>
+
+        {result && (
+          <div className="space-y-3">
+            <div className="grid sm:grid-cols-3 gap-3 text-sm tabular-nums">
+              <div className="rounded-md border p-3">
+                <div className="text-muted-foreground text-xs">{t("sim.outcome")}</div>
+                {result.agreedAt !== null
+                  ? t("sim.agreed", { round: result.agreedAt })
+                  : t("sim.noAgreement", { count: result.rounds.length })}
+              </div>
+              <div className="rounded-md border p-3">
+                <div className="text-muted-foreground text-xs">{t("sim.payoffs")}</div>
+                {t("common.selfOther", { self: result.finalSelf, other: result.finalOther })}
+              </div>
+              <div className="rounded-md border p-3">
+                <div className="text-muted-foreground text-xs">{t("sim.emotions")}</div>
+                {EMOTIONS.map((e) => `${t(emotionKey(e))} ${result.emotionCounts[e]}`).join(" · ")}
+              </div>
+            </div>
+
+            <table className="w-full text-xs tabular-nums">
+              <thead>
+                <tr className="text-left text-muted-foreground">
+                  <th className="font-normal">{t("sim.colRound")}</th>
+                  <th className="font-normal">{t("col.offerX")}</th>
+                  <th className="font-normal">{t("common.self")}</th>
+                  <th className="font-normal">{t("common.other")}</th>
+                  <th className="font-normal">{t("col.emotion")}</th>
+                  <th className="font-normal">{t("sim.colProb")}</th>
+                  {showTheta && <th className="font-normal">{t("sim.colTheta")}</th>}
+                </tr>
+              </thead>
+              <tbody>
+                {result.rounds.map((r) => (
+                  <tr key={r.round} className="cursor-pointer hover:bg-accent" onClick={() => onSelect(r.x)}>
+                    <td className="py-1">{r.round}</td>
+                    <td>{formatAllocation(r.x, names)}</td>
+                    <td>{r.selfValue}</td>
+                    <td>{r.otherValue}</td>
+                    <td>
+                      <span className="inline-block size-2.5 rounded-full mr-2" style={{ background: EMO_COLORS[r.emotion] }} />
+                      {t(emotionKey(r.emotion))}
+                    </td>
+                    <td>{r.probs[r.emotion].toFixed(3)}</td>
+                    {showTheta && <td>{r.thetaMean === null ? "" : `${r.thetaMean.toFixed(1)}°`}</td>}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            <p className="text-xs text-muted-foreground">{t("sim.rowHint")}</p>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
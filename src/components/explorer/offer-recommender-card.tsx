@@ -0,0 +1,158 @@
+"use client";
+
+import React, { useMemo, useState } from "react";
+import { Plus, X } from "lucide-react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Button } from "@/components/ui/button";
+import { NativeSelect } from "@/components/ui/native-select";
+import {
+  EMOTIONS,
+  countCandX,
+  type Emotion,
+  type ModelParams,
+  type OfferConstraint,
+  type ScenarioSetup,
+  type ThetaBelief,
+  type ThetaPosterior,
+} from "@/lib/emotion-model";
+import { emotionKey } from "@/lib/i18n";
+import { formatAllocation } from "@/lib/scenario-state";
+import { useI18n } from "@/hooks/use-i18n";
+import { useModelJob } from "@/hooks/use-model-job";
+import { JobStatus } from "./job-status";
+import { EMO_COLORS } from "./shared";
+
+function ConstraintRow({ value, onChange, onRemove }: { value: OfferConstraint; onChange: (c: OfferConstraint) => void; onRemove: () => void; }) {
+  const { t } = useI18n();
+  return (
+    <div className="flex items-center gap-2 text-sm">
+      <NativeSelect value={value.kind} className="w-40" onChange={(e) => {
+        const kind = e.target.value as OfferConstraint["kind"];
+        onChange(kind === "argmax" ? { kind, emotion: value.emotion } : { kind, emotion: value.emotion, value: "value" in value ? value.value : 0.2 });
+      }}>
+        <option value="maxProb">P(E) &lt; p</option>
+        <option value="minProb">P(E) &gt; p</option>
+        <option value="argmax">{t("rec.argmax")}</option>
+      </NativeSelect>
+      <NativeSelect value={value.emotion} className="w-28" aria-label={t("col.emotion")}
+        onChange={(e) => onChange({ ...value, emotion: e.target.value as Emotion })}>
+        {EMOTIONS.map((emo) => <option key={emo} value={emo}>{t(emotionKey(emo))}</option>)}
+      </NativeSelect>
+      {value.kind !== "argmax" && (
+        <Input type="number" min={0} max={1} step={0.05} value={value.value} className="w-24" aria-label={t("rec.threshold")}
+          onChange={(e) => onChange({ ...value, value: Math.max(0, Math.min(1, parseFloat(e.target.value) || 0)) })} />
+      )}
+      <Button variant="ghost" size="icon" className="size-7" aria-label={t("rec.remove")} onClick={onRemove}><X /></Button>
+    </div>
+  );
+}
+
+export function OfferRecommenderCard({
+  setup,
+  names,
+  params,
+  thetaDeg,
+  posterior,
+  onSelect,
+}: {
+  setup: ScenarioSetup;
+  names: string[];
+  params: ModelParams;
+  thetaDeg: number;
+  posterior: ThetaPosterior | null;
+  onSelect: (x: number[]) => void;
+}) {
+  const { t } = useI18n();
+  const [beliefKind, setBeliefKind] = useState<"point" | "posterior">("point");
+  const [constraints, setConstraints] = useState<OfferConstraint[]>([{ kind: "maxProb", emotion: "Anger", value: 0.2 }]);
+  const [limit, setLimit] = useState(10);
+
+  // 事後分布を使う場合はその計算が終わるまで待つ
+  const belief = useMemo<ThetaBelief | null>(
+    () => beliefKind === "point"
+      ? { kind: "point", thetaDeg }
+      : posterior && { kind: "distribution", theta: posterior.theta, mass: posterior.posterior },
+    [beliefKind, thetaDeg, posterior],
+  );
+
+  // 全候補を走査するので Web Worker で計算
+  const job = useMemo(
+    () => (belief ? { kind: "recommend" as const, setup, params, belief, constraints, limit } : null),
+    [setup, params, belief, constraints, limit],
+  );
+  const state = useModelJob(job);
+  const suggestions = state.result?.recommendation.suggestions ?? [];
+  const feasible = state.result?.recommendation.feasible ?? 0;
+
+  return (
+    <Card className="shadow-md">
+      <CardContent className="pt-6 space-y-4">
+        <h2 className="text-lg font-medium">{t("rec.title")}</h2>
+
+        <div className="grid md:grid-cols-2 gap-6">
+          <div className="space-y-3">
+            <div className="flex items-center gap-3">
+              <Label className="w-28 text-sm text-muted-foreground">{t("rec.belief")}</Label>
+              <NativeSelect value={beliefKind} className="flex-1" aria-label={t("rec.belief")} onChange={(e) => setBeliefKind(e.target.value as "point" | "posterior")}>
+                <option value="point">{t("rec.point", { theta: thetaDeg })}</option>
+                <option value="posterior">{t("rec.posterior")}</option>
+              </NativeSelect>
+            </div>
+            <div className="flex items-center gap-3">
+              <Label className="w-28 text-sm text-muted-foreground">{t("rec.showTop")}</Label>
+              <Input type="number" min={1} max={100} step={1} value={limit} className="w-24" aria-label={t("rec.showTop")}
+                onChange={(e) => setLimit(Math.max(1, Math.min(100, parseInt(e.target.value) || 1)))} />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            {constraints.map((c, i) => (
+              <ConstraintRow key={i} value={c}
+                onChange={(next) => setConstraints(constraints.map((old, j) => (j === i ? next : old)))}
+                onRemove={() => setConstraints(constraints.filter((_, j) => j !== i))} />
+            ))}
+            <Button variant="outline" size="sm"
+              onClick={() => setConstraints([...constraints, { kind: "maxProb", emotion: "Anger", value: 0.2 }])}>
+              <Plus />{t("rec.add")}
+            </Button>
+          </div>
+        </div>
+
+        <div className="flex items-center justify-between gap-3">
+          <p className="text-xs text-muted-foreground">
+            {t("rec.feasible", { feasible: feasible.toLocaleString(), total: countCandX(setup.q).toLocaleString() })}
+          </p>
+          <JobStatus {...state} />
+        </div>
+
+        {suggestions.length > 0 && (
+          <table className="w-full text-xs tabular-nums">
+            <thead>
+              <tr className="text-left text-muted-foreground">
+                <th className="font-normal">x</th>
+                <th className="font-normal">{t("common.self")}</th>
+                <th className="font-normal">{t("common.other")}</th>
+                {EMOTIONS.map((emo) => <th key={emo} className="font-normal">P({t(emotionKey(emo))})</th>)}
+              </tr>
+            </thead>
+            <tbody>
+              {suggestions.map((s) => (
+                <tr key={s.x.join(",")} className="cursor-pointer hover:bg-accent" onClick={() => onSelect(s.x)}>
+                  <td className="py-1">
+                    <span className="inline-block size-2.5 rounded-full mr-2" style={{ background: EMO_COLORS[s.emotion] }} />
+                    {formatAllocation(s.x, names)}
+                  </td>
+                  <td>{s.selfValue}</td>
+                  <td>{s.otherValue}</td>
+                  {EMOTIONS.map((emo) => <td key={emo}>{s.probs[emo].toFixed(3)}</td>)}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,87 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { Save, Pencil, Trash2 } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { NativeSelect } from "@/components/ui/native-select";
+import {
+  BUILTIN_PRESETS,
+  loadUserPresets,
+  newPresetId,
+  saveUserPresets,
+  type ScenarioPreset,
+} from "@/lib/scenario-presets";
+import type { ScenarioState } from "@/lib/scenario-state";
+import { isMessageKey } from "@/lib/i18n";
+import { useI18n } from "@/hooks/use-i18n";
+
+// プリセットの選択と、現在の状態の保存・名前変更・削除
+export function PresetBar({ current, onApply }: { current: ScenarioState; onApply: (sc: ScenarioState) => void; }) {
+  const { t } = useI18n();
+  const [userPresets, setUserPresets] = useState<ScenarioPreset[]>([]);
+  const [selectedId, setSelectedId] = useState<string>(BUILTIN_PRESETS[0].id);
+  const [name, setName] = useState("");
+  const [saveError, setSaveError] = useState<string | null>(null);
+
+  // localStorage はクライアントでのみ読む
+  useEffect(() => setUserPresets(loadUserPresets()), []);
+
+  const update = (next: ScenarioPreset[]) => {
+    setUserPresets(next);
+    setSaveError(saveUserPresets(next));
+  };
+
+  const selected = [...BUILTIN_PRESETS, ...userPresets].find((p) => p.id === selectedId);
+  const trimmed = name.trim();
+
+  // 組み込みプリセットの名前は辞書から（保存したものはユーザーの付けた名前のまま）
+  const presetName = (p: ScenarioPreset) => {
+    const key = `preset.${p.id}`;
+    return p.builtin && isMessageKey(key) ? t(key) : p.name;
+  };
+
+  const select = (id: string) => {
+    const preset = [...BUILTIN_PRESETS, ...userPresets].find((p) => p.id === id);
+    if (!preset) return;
+    setSelectedId(id);
+    setName(preset.builtin ? "" : preset.name);
+    onApply(preset.scenario);
+  };
+
+  const saveAs = () => {
+    const preset: ScenarioPreset = { id: newPresetId(), name: trimmed, builtin: false, scenario: current };
+    update([...userPresets, preset]);
+    setSelectedId(preset.id);
+  };
+
+  const rename = () => update(userPresets.map((p) => (p.id === selectedId ? { ...p, name: trimmed } : p)));
+
+  const remove = () => {
+    update(userPresets.filter((p) => p.id !== selectedId));
+    setSelectedId(BUILTIN_PRESETS[0].id);
+    setName("");
+  };
+
+  return (
+    <div className="space-y-1">
+      <div className="flex flex-wrap items-center gap-2">
+        <NativeSelect value={selectedId} onChange={(e) => select(e.target.value)} className="w-64" aria-label={t("preset.label")}>
+          <optgroup label={t("preset.builtin")}>
+            {BUILTIN_PRESETS.map((p) => <option key={p.id} value={p.id}>{presetName(p)}</option>)}
+          </optgroup>
+          {userPresets.length > 0 && (
+            <optgroup label={t("preset.saved")}>
+              {userPresets.map((p) => <option key={p.id} value={p.id}>{p.name}</option>)}
+            </optgroup>
+          )}
+        </NativeSelect>
+        <Input value={name} onChange={(e) => setName(e.target.value)} placeholder={t("preset.name")} className="w-48" aria-label={t("preset.name")} />
+        <Button variant="outline" size="sm" disabled={trimmed === ""} onClick={saveAs}><Save />{t("preset.saveAs")}</Button>
+        <Button variant="outline" size="sm" disabled={!selected || selected.builtin || trimmed === ""} onClick={rename}><Pencil />{t("preset.rename")}</Button>
+        <Button variant="outline" size="sm" disabled={!selected || selected.builtin} onClick={remove}><Trash2 />{t("preset.delete")}</Button>
+      </div>
+      {saveError && <p className="text-xs text-destructive">{t("preset.saveError", { message: saveError })}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,79 @@
+"use client";
+
+import React from "react";
+import { Label } from "@/components/ui/label";
+import { Button } from "@/components/ui/button";
+import { NativeSelect } from "@/components/ui/native-select";
+import {
+  SATISFACTION_MODELS,
+  getSatisfactionModel,
+  referenceOffer,
+  type SatisfactionModelId,
+} from "@/lib/emotion-model";
+import { isMessageKey } from "@/lib/i18n";
+import { formatAllocation } from "@/lib/scenario-state";
+import { useI18n } from "@/hooks/use-i18n";
+import { SliderInput } from "./slider-input";
+
+export type SatisfactionParamsById = Record<SatisfactionModelId, Record<string, number>>;
+
+// 効用・満足度の定式化の選択と、モデル固有パラメータ・参照点の編集
+export function SatisfactionControls({
+  modelId,
+  onModelChange,
+  paramsById,
+  onParamsChange,
+  reference,
+  onReferenceChange,
+  q,
+  x,
+  names,
+}: {
+  modelId: SatisfactionModelId;
+  onModelChange: (id: SatisfactionModelId) => void;
+  paramsById: SatisfactionParamsById;
+  onParamsChange: (next: SatisfactionParamsById) => void;
+  reference: number[];
+  onReferenceChange: (reference: number[]) => void;
+  q: number[];
+  x: number[];
+  names: string[];
+}) {
+  const { t } = useI18n();
+  const model = getSatisfactionModel(modelId);
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-3">
+        <Label className="w-28 text-sm text-muted-foreground">{t("satisfaction.label")}</Label>
+        <NativeSelect value={modelId} className="flex-1" aria-label={t("satisfaction.label")} onChange={(e) => onModelChange(e.target.value as SatisfactionModelId)}>
+          {SATISFACTION_MODELS.map((m) => <option key={m.id} value={m.id}>{t(`satisfaction.${m.id}`)}</option>)}
+        </NativeSelect>
+      </div>
+      {model.params.map((spec) => {
+        const value = paramsById[modelId][spec.key] ?? spec.default;
+        const key = `param.${spec.key}`;
+        const label = isMessageKey(key) ? t(key) : spec.label;
+        return (
+          <div key={spec.key} className="flex items-center gap-3">
+            <Label className="w-28 text-sm text-muted-foreground">{label}</Label>
+            <SliderInput label={label} value={value} min={spec.min} max={spec.max} step={spec.step} digits={2} className="flex-1"
+              onChange={(v) => onParamsChange({ ...paramsById, [modelId]: { ...paramsById[modelId], [spec.key]: v } })} />
+          </div>
+        );
+      })}
+      {model.usesReference && (
+        <div className="flex flex-wrap items-center gap-2 text-sm">
+          <Label className="w-28 text-muted-foreground">{t("satisfaction.referenceX")}</Label>
+          <span className="tabular-nums">{formatAllocation(referenceOffer(q, reference), names)}</span>
+          {reference.length === 0 && <span className="text-xs text-muted-foreground">{t("satisfaction.equalSplitNote")}</span>}
+          <Button variant="outline" size="sm" onClick={() => onReferenceChange([...x])}>{t("satisfaction.useCurrent")}</Button>
+          <Button variant="ghost" size="sm" disabled={reference.length === 0} onClick={() => onReferenceChange([])}>{t("satisfaction.equalSplit")}</Button>
+        </div>
+      )}
+      {modelId === "rank" && (
+        <p className="text-xs text-muted-foreground">{t("satisfaction.rankNote")}</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,349 @@
+"use client";
+
+import React, { useMemo, useRef, useState } from "react";
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  ZAxis,
+  Tooltip,
+  Legend,
+  ResponsiveContainer,
+  ReferenceLine,
+  ScatterChart,
+  Scatter,
+  CartesianGrid,
+  Cell,
+} from "recharts";
+import { ArrowDownToLine, PinOff } from "lucide-react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { NativeSelect } from "@/components/ui/native-select";
+import { Label } from "@/components/ui/label";
+import { EMOTIONS, dot, type CandidateEval, type Emotion, type ThetaScanRow } from "@/lib/emotion-model";
+import { formatAllocation, itemLabel, scenarioModelInputs, type ScenarioState } from "@/lib/scenario-state";
+import { diffCandidates, overlayScans, scenarioDiff, type CandidateChange } from "@/lib/scenario-compare";
+import { candidateTable as candidateCsvTable } from "@/lib/batch-evaluate";
+import type { LegendEntry } from "@/lib/chart-export";
+import { emotionKey } from "@/lib/i18n";
+import { useI18n } from "@/hooks/use-i18n";
+import { ChartExportButtons, type ExportTable } from "./chart-export-buttons";
+import { CandidateScatterCard } from "./candidate-scatter-card";
+import { JobStatus } from "./job-status";
+import { EMO_COLORS } from "./shared";
+
+type ScatterMode = "side" | "diff";
+
+type JobStatusProps = { pending: boolean; progress: number; error: string | null };
+
+const A_COLOR = "#2563eb";
+const B_COLOR = "#ea580c";
+const UNCHANGED_COLOR = "#d1d5db";
+
+const TOOLTIP_MAX_ALLOCATIONS = 6;
+
+// 同じ座標（B 側）の候補をまとめた点。1 件でも感情が変われば「変化あり」
+interface DiffPoint {
+  sx: number;
+  oy: number;
+  count: number;
+  changed: CandidateChange[];
+  emotion: Emotion; // 変化した候補があればその B 側の感情、なければ共通の感情
+  from: Emotion;
+}
+
+function DiffTooltip({ active, payload, names }: { active?: boolean; payload?: Array<{ payload: DiffPoint }>; names: string[]; }) {
+  const { t } = useI18n();
+  if (!active || !payload?.length) return null;
+  const p = payload[0].payload;
+  return (
+    <div className="rounded-md border bg-background p-2 text-xs shadow-sm space-y-1 max-w-80">
+      <div className="font-medium">
+        {t("common.selfOther", { self: p.sx, other: p.oy })} · {t(p.count > 1 ? "common.candidateMany" : "common.candidateOne", { count: p.count })}
+      </div>
+      {p.changed.length === 0
+        ? <div className="text-muted-foreground">{t("compare.unchangedTooltip", { emotion: t(emotionKey(p.emotion)) })}</div>
+        : (
+          <ul>
+            {p.changed.slice(0, TOOLTIP_MAX_ALLOCATIONS).map((c) => (
+              <li key={c.x.join(",")}>
+                <span className="text-muted-foreground">{formatAllocation(c.x, names)}</span>: {t(emotionKey(c.a.emotion))} → <span className="font-semibold">{t(emotionKey(c.b.emotion))}</span>
+              </li>
+            ))}
+            {p.changed.length > TOOLTIP_MAX_ALLOCATIONS && <li>{t("common.more", { count: p.changed.length - TOOLTIP_MAX_ALLOCATIONS })}</li>}
+          </ul>
+        )}
+    </div>
+  );
+}
+
+export function ScenarioComparisonCard({
+  pinned,
+  current,
+  pinnedRows,
+  rows,
+  pinnedCandidates,
+  candidates,
+  pinnedStatus,
+  status,
+  onLoadPinned,
+  onUnpin,
+  onSelect,
+}: {
+  pinned: ScenarioState; // A（固定）
+  current: ScenarioState; // B（編集中）
+  pinnedRows: ThetaScanRow[];
+  rows: ThetaScanRow[];
+  pinnedCandidates: CandidateEval[];
+  candidates: CandidateEval[];
+  pinnedStatus: JobStatusProps;
+  status: JobStatusProps;
+  onLoadPinned: () => void;
+  onUnpin: () => void;
+  onSelect: (x: number[]) => void;
+}) {
+  const { t } = useI18n();
+  const chartRef = useRef<HTMLDivElement>(null);
+  const diffChartRef = useRef<HTMLDivElement>(null);
+  const [scatterMode, setScatterMode] = useState<ScatterMode>("diff");
+
+  const paramDiff = useMemo(() => scenarioDiff(pinned, current), [pinned, current]);
+  const overlay = useMemo(() => overlayScans(pinnedRows, rows), [pinnedRows, rows]);
+  const sameQ = pinned.q.length === current.q.length && pinned.q.every((qi, i) => qi === current.q[i]);
+  const diff = useMemo(
+    () => (sameQ ? diffCandidates(pinnedCandidates, candidates) : null),
+    [sameQ, pinnedCandidates, candidates],
+  );
+
+  const diffPoints = useMemo(() => {
+    const byPoint = new Map<string, DiffPoint>();
+    for (const c of diff?.changes ?? []) {
+      const key = `${c.b.selfValue},${c.b.otherValue}`;
+      const p = byPoint.get(key) ?? { sx: c.b.selfValue, oy: c.b.otherValue, count: 0, changed: [], emotion: c.b.emotion, from: c.a.emotion };
+      p.count++;
+      if (c.a.emotion !== c.b.emotion) {
+        if (p.changed.length === 0) {
+          p.emotion = c.b.emotion;
+          p.from = c.a.emotion;
+        }
+        p.changed.push(c);
+      }
+      byPoint.set(key, p);
+    }
+    return [...byPoint.values()];
+  }, [diff]);
+  const changedPoints = useMemo(() => diffPoints.filter((p) => p.changed.length > 0), [diffPoints]);
+  const unchangedPoints = useMemo(() => diffPoints.filter((p) => p.changed.length === 0), [diffPoints]);
+  const maxCount = useMemo(() => Math.max(1, ...diffPoints.map((p) => p.count)), [diffPoints]);
+
+  // 各シナリオ自身の重みでの現在の提案の位置
+  const pointOf = (sc: ScenarioState) => {
+    const { scenario } = scenarioModelInputs(sc);
+    return { sx: dot(scenario.wSelf, sc.x), oy: dot(scenario.wOther, sc.x.map((xi, i) => sc.q[i] - xi)), x: sc.x };
+  };
+
+  const overlayLegend: LegendEntry[] = [
+    ...EMOTIONS.map((e) => ({ label: `A ${t(emotionKey(e))}`, color: EMO_COLORS[e], dashed: true })),
+    ...EMOTIONS.map((e) => ({ label: `B ${t(emotionKey(e))}`, color: EMO_COLORS[e] })),
+    { label: "θ (A)", color: A_COLOR, dashed: true },
+    { label: "θ (B)", color: B_COLOR },
+  ];
+
+  const diffLegend: LegendEntry[] = [
+    ...EMOTIONS.map((e) => ({ label: t("compare.changedTo", { emotion: t(emotionKey(e)) }), color: EMO_COLORS[e], marker: "circle" as const })),
+    { label: t("compare.unchanged"), color: UNCHANGED_COLOR, marker: "circle" },
+  ];
+
+  const overlayTable = (): ExportTable => ({
+    columns: ["theta", ...EMOTIONS.map((e) => `A_P_${e}`), ...EMOTIONS.map((e) => `B_P_${e}`)],
+    rows: overlay.map((r) => [r.theta, ...EMOTIONS.map((e) => r[`A_${e}`] ?? ""), ...EMOTIONS.map((e) => r[`B_${e}`] ?? "")]),
+    json: { a: pinned, b: current, rows: overlay },
+  });
+
+  const candidateTable = (sc: ScenarioState, cands: CandidateEval[]) => (): ExportTable => ({
+    ...candidateCsvTable(cands, sc.q.map((_, i) => itemLabel(sc.names, i))),
+    json: { scenario: sc, candidates: cands },
+  });
+
+  const diffTable = (): ExportTable => ({
+    columns: [...current.q.map((_, i) => `x_${itemLabel(current.names, i)}`), "emotion_A", "emotion_B", ...EMOTIONS.map((e) => `A_P_${e}`), ...EMOTIONS.map((e) => `B_P_${e}`)],
+    rows: (diff?.changes ?? []).map((c) => [...c.x, c.a.emotion, c.b.emotion, ...EMOTIONS.map((e) => c.a.probs[e]), ...EMOTIONS.map((e) => c.b.probs[e])]),
+    json: { a: pinned, b: current, transitions: diff?.transitions, changes: diff?.changes },
+  });
+
+  return (
+    <Card className="shadow-md">
+      <CardContent className="pt-6 space-y-6">
+        <div className="flex items-center justify-between">
+          <h2 className="text-lg font-medium">{t("compare.title")}</h2>
+          <div className="flex items-center gap-2">
+            <Button variant="outline" size="sm" onClick={onLoadPinned}><ArrowDownToLine />{t("compare.loadA")}</Button>
+            <Button variant="ghost" size="sm" onClick={onUnpin}><PinOff />{t("compare.unpin")}</Button>
+          </div>
+        </div>
+
+        {/* ---- θ-scan の重ね描き ---- */}
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-4">
+              <h3 className="text-sm font-medium">{t("compare.scan")}</h3>
+              <JobStatus pending={pinnedStatus.pending || status.pending} progress={Math.min(pinnedStatus.progress, status.progress)}
+                error={pinnedStatus.error ?? status.error} />
+            </div>
+            <ChartExportButtons chartRef={chartRef} filename="compare-theta-scan" table={overlayTable} legend={overlayLegend} />
+          </div>
+          <div ref={chartRef} className="h-[320px]">
+            <ResponsiveContainer width="100%" height="100%">
+              <LineChart data={overlay} margin={{ left: 8, right: 8, top: 8, bottom: 8 }}>
+                <XAxis dataKey="theta" type="number" domain={[-90, 90]} tickCount={13}
+                  label={{ value: t("axis.theta"), position: "insideBottom", dy: 10 }} />
+                <YAxis domain={[0, 1]} tickCount={6}
+                  label={{ value: t("compare.scanYAxis"), angle: -90, position: "insideLeft" }} />
+                <Tooltip formatter={(v: number) => v.toFixed(3)} />
+                <Legend />
+                <ReferenceLine x={pinned.thetaDeg} stroke={A_COLOR} strokeDasharray="4 3"
+                  label={{ value: `A ${pinned.thetaDeg}°`, position: "top", fill: A_COLOR, fontSize: 12 }} />
+                <ReferenceLine x={current.thetaDeg} stroke={B_COLOR}
+                  label={{ value: `B ${current.thetaDeg}°`, position: "insideTopRight", fill: B_COLOR, fontSize: 12 }} />
+                {EMOTIONS.map((e) => (
+                  <Line key={`A_${e}`} type="monotone" dataKey={`A_${e}`} name={`A ${t(emotionKey(e))}`} stroke={EMO_COLORS[e]} strokeDasharray="5 3"
+                    dot={false} strokeWidth={2} connectNulls isAnimationActive={false} />
+                ))}
+                {EMOTIONS.map((e) => (
+                  <Line key={`B_${e}`} type="monotone" dataKey={`B_${e}`} name={`B ${t(emotionKey(e))}`} stroke={EMO_COLORS[e]}
+                    dot={false} strokeWidth={2} connectNulls isAnimationActive={false} />
+                ))}
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            {t("compare.scanNote")}
+          </p>
+        </div>
+
+        {/* ---- 候補の比較 ---- */}
+        <div className="space-y-3">
+          <div className="flex flex-wrap items-center gap-3 text-sm">
+            <Label className="text-muted-foreground">{t("compare.candidates")}</Label>
+            <NativeSelect value={scatterMode} onChange={(e) => setScatterMode(e.target.value as ScatterMode)} className="w-52"
+              aria-label={t("compare.candidates")}>
+              <option value="diff">{t("compare.mode.diff")}</option>
+              <option value="side">{t("compare.mode.side")}</option>
+            </NativeSelect>
+            {scatterMode === "diff" && diff && (
+              <span className="text-xs text-muted-foreground">
+                {t("compare.changedCount", { changed: diff.changed.toLocaleString(), total: diff.changes.length.toLocaleString() })}
+              </span>
+            )}
+          </div>
+
+          {scatterMode === "side" && (
+            <div className="grid gap-6 xl:grid-cols-2">
+              <CandidateScatterCard title={t("compare.pinned")} candidates={pinnedCandidates} names={pinned.names} status={pinnedStatus}
+                current={pointOf(pinned)} onSelect={sameQ ? onSelect : () => {}} filename={`compare-A-theta${pinned.thetaDeg}`}
+                table={candidateTable(pinned, pinnedCandidates)} />
+              <CandidateScatterCard title={t("compare.current")} candidates={candidates} names={current.names} status={status}
+                current={pointOf(current)} onSelect={onSelect} filename={`compare-B-theta${current.thetaDeg}`}
+                table={candidateTable(current, candidates)} />
+            </div>
+          )}
+
+          {scatterMode === "diff" && !diff && (
+            <p className="text-sm text-muted-foreground">
+              {sameQ
+                ? t("compare.waiting")
+                : t("compare.qMismatch")}
+            </p>
+          )}
+
+          {scatterMode === "diff" && diff && (
+            <div className="grid gap-6 xl:grid-cols-3">
+              <div className="xl:col-span-2 space-y-2">
+                <div className="flex items-center justify-end">
+                  <ChartExportButtons chartRef={diffChartRef} filename="compare-emotion-changes" table={diffTable} legend={diffLegend} />
+                </div>
+                <div ref={diffChartRef} className="h-[440px]">
+                  <ResponsiveContainer width="100%" height="100%">
+                    <ScatterChart margin={{ left: 8, right: 8, top: 8, bottom: 8 }}>
+                      <CartesianGrid strokeDasharray="3 3" />
+                      <XAxis type="number" dataKey="sx" domain={["auto", "auto"]}
+                        label={{ value: t("compare.xAxis"), position: "insideBottom", dy: 10 }} />
+                      <YAxis type="number" dataKey="oy" domain={["auto", "auto"]}
+                        label={{ value: t("compare.yAxis"), angle: -90, position: "insideLeft" }} />
+                      <ZAxis type="number" dataKey="count" domain={[1, maxCount]} range={[30, 300]} />
+                      <Legend />
+                      <Tooltip cursor={{ strokeDasharray: "3 3" }} content={<DiffTooltip names={current.names} />} />
+                      <Scatter name={t("compare.unchanged")} data={unchangedPoints} fill={UNCHANGED_COLOR} isAnimationActive={false} />
+                      <Scatter name={t("compare.changed")} data={changedPoints} fill={B_COLOR} isAnimationActive={false}
+                        className="cursor-pointer"
+                        onClick={(item: { payload?: DiffPoint }) => { if (item.payload?.changed[0]) onSelect(item.payload.changed[0].x); }}>
+                        {changedPoints.map((p) => (
+                          <Cell key={`${p.sx},${p.oy}`} fill={EMO_COLORS[p.emotion]} stroke={EMO_COLORS[p.from]} strokeWidth={3} />
+                        ))}
+                      </Scatter>
+                    </ScatterChart>
+                  </ResponsiveContainer>
+                </div>
+              </div>
+              <div className="space-y-2">
+                <h3 className="text-sm font-medium">{t("compare.transitions")}</h3>
+                <table className="w-full text-xs tabular-nums">
+                  <thead>
+                    <tr className="text-left text-muted-foreground">
+                      <th className="font-normal">A \ B</th>
+                      {EMOTIONS.map((e) => <th key={e} className="font-normal">{t(emotionKey(e))}</th>)}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {EMOTIONS.map((from) => (
+                      <tr key={from}>
+                        <td className="py-0.5">
+                          <span className="inline-block size-2 rounded-full mr-1" style={{ background: EMO_COLORS[from] }} />{t(emotionKey(from))}
+                        </td>
+                        {EMOTIONS.map((to) => (
+                          <td key={to} className={from !== to && diff.transitions[from][to] > 0 ? "font-semibold" : "text-muted-foreground"}>
+                            {diff.transitions[from][to].toLocaleString()}
+                          </td>
+                        ))}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+                <p className="text-xs text-muted-foreground">
+                  {t("compare.transitionsNote")}
+                </p>
+              </div>
+            </div>
+          )}
+        </div>
+
+        {/* ---- パラメータの差分 ---- */}
+        <div className="space-y-2">
+          <h3 className="text-sm font-medium">{t("compare.params")}</h3>
+          <table className="w-full text-xs tabular-nums">
+            <thead>
+              <tr className="text-left text-muted-foreground">
+                <th className="font-normal w-40">{t("col.parameter")}</th>
+                <th className="font-normal">A</th>
+                <th className="font-normal">B</th>
+              </tr>
+            </thead>
+            <tbody>
+              {paramDiff.map((r) => (
+                <tr key={r.key} className={r.changed ? "bg-amber-50 dark:bg-amber-950/30" : "text-muted-foreground"}>
+                  <td className="py-0.5">{t(`diff.${r.key}`)}</td>
+                  <td>{r.a ?? t("diff.equalSplit")}</td>
+                  <td className={r.changed ? "font-semibold" : ""}>{r.b ?? t("diff.equalSplit")}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <p className="text-xs text-muted-foreground">
+            {t("compare.differ", { changed: paramDiff.filter((r) => r.changed).length, total: paramDiff.length })}
+          </p>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
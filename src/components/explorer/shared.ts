@@ -0,0 +1,37 @@
+import { EMOTIONS, type Emotion, type EmotionProbs } from "@/lib/emotion-model";
+
+export const EMO_COLORS: Record<Emotion, string> = {
+  Anger: "#f28e8e",   // pinkish red
+  Sad: "#7d7aa6",     // muted purple
+  Neutral: "#bfecc5", // pale green
+  Joy: "#f5c04a",     // warm yellow
+};
+
+// x が現在の q の格子上にあるか
+export const fitsQuantities = (xs: number[], q: number[]) =>
+  xs.length === q.length && xs.every((xi, i) => Number.isInteger(xi) && xi >= 0 && xi <= q[i]);
+
+const hexToRgb = (hex: string) => [1, 3, 5].map((i) => parseInt(hex.slice(i, i + 2), 16));
+const rgbToHex = (rgb: number[]) => `#${rgb.map((v) => Math.round(v).toString(16).padStart(2, "0")).join("")}`;
+
+// 感情色を確率で混ぜた色
+export function blendEmotionColor(probs: EmotionProbs) {
+  const rgb = [0, 0, 0];
+  for (const e of EMOTIONS) {
+    hexToRgb(EMO_COLORS[e]).forEach((v, i) => { rgb[i] += probs[e] * v; });
+  }
+  return rgbToHex(rgb);
+}
+
+// P(E) を白 → 感情色の濃淡に
+export function heatColor(p: number, emotion: Emotion) {
+  const target = hexToRgb(EMO_COLORS[emotion]).map((v) => v * 0.8); // 最大値は少し濃く
+  return rgbToHex(target.map((v) => 255 + (v - 255) * Math.max(0, Math.min(1, p))));
+}
+
+const UNCERTAIN_RGB = hexToRgb("#1f2937");
+
+// 不確かさ [0, 1] を白 → 濃い灰色に
+export function uncertaintyColor(v: number) {
+  return rgbToHex(UNCERTAIN_RGB.map((c) => 255 + (c - 255) * Math.max(0, Math.min(1, v))));
+}
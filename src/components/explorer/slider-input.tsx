@@ -0,0 +1,83 @@
+"use client";
+
+import React, { useState } from "react";
+import { Slider } from "@/components/ui/slider";
+import { Input } from "@/components/ui/input";
+import { cn } from "@/lib/utils";
+
+// Shift + 矢印で動かす刻みの倍数（Radix の Slider と同じ）
+const BIG_STEP = 10;
+
+// 刻みの小数桁数（0.005 → 3）
+const stepDecimals = (step: number) => String(step).split(".")[1]?.length ?? 0;
+
+// min から step 刻みの格子に丸めて [min, max] に収める（浮動小数の端数も落とす）
+export function snapToStep(v: number, min: number, max: number, step: number) {
+  const snapped = min + Math.round((v - min) / step) * step;
+  return Number(Math.min(max, Math.max(min, snapped)).toFixed(stepDecimals(step)));
+}
+
+// スライダーと数値入力の組（どちらも label を aria-label に持つ）
+// 数値入力は矢印キーで ±step、Shift + 矢印で ±10 step。範囲外・数値でない入力は確定しない
+export function SliderInput({
+  label,
+  value,
+  min,
+  max,
+  step,
+  onChange,
+  disabled,
+  digits = stepDecimals(step),
+  className,
+  inputClassName,
+}: {
+  label: string;
+  value: number;
+  min: number;
+  max: number;
+  step: number;
+  onChange: (value: number) => void;
+  disabled?: boolean;
+  digits?: number; // 数値入力に表示する小数桁数
+  className?: string;
+  inputClassName?: string;
+}) {
+  const [draft, setDraft] = useState<string | null>(null); // 入力中の文字列（フォーカスを外すと value の表示に戻す）
+
+  const parse = (s: string) => {
+    const v = Number(s);
+    return s.trim() !== "" && Number.isFinite(v) && v >= min && v <= max ? v : null;
+  };
+  const invalid = draft !== null && parse(draft) === null;
+  const commit = (v: number) => onChange(snapToStep(v, min, max, step));
+
+  const onKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === "Enter") {
+      setDraft(null);
+      return;
+    }
+    if (e.key !== "ArrowUp" && e.key !== "ArrowDown") return;
+    e.preventDefault();
+    const base = (draft !== null ? parse(draft) : null) ?? value;
+    const delta = (e.key === "ArrowUp" ? 1 : -1) * step * (e.shiftKey ? BIG_STEP : 1);
+    setDraft(null);
+    commit(base + delta);
+  };
+
+  return (
+    <div className={cn("flex items-center gap-2", className)}>
+      <Slider aria-label={label} value={[value]} min={min} max={max} step={step} disabled={disabled} className="flex-1"
+        onValueChange={([v]) => commit(v)} />
+      <Input type="number" aria-label={label} aria-invalid={invalid} disabled={disabled} min={min} max={max} step={step}
+        value={draft ?? value.toFixed(digits)}
+        className={cn("h-7 w-20 px-2 text-right text-xs md:text-xs tabular-nums", inputClassName)}
+        onChange={(e) => {
+          setDraft(e.target.value);
+          const v = parse(e.target.value);
+          if (v !== null) commit(v);
+        }}
+        onBlur={() => setDraft(null)}
+        onKeyDown={onKeyDown} />
+    </div>
+  );
+}
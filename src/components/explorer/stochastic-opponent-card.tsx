@@ -0,0 +1,240 @@
+"use client";
+
+import React, { useMemo, useRef, useState } from "react";
+import {
+  ScatterChart,
+  Scatter,
+  XAxis,
+  YAxis,
+  ZAxis,
+  Tooltip,
+  CartesianGrid,
+  ReferenceLine,
+  ResponsiveContainer,
+} from "recharts";
+import { Card, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Button } from "@/components/ui/button";
+import {
+  EMOTIONS,
+  emotionEntropy,
+  emotionMargin,
+  type CandidateEval,
+} from "@/lib/emotion-model";
+import type { LegendEntry } from "@/lib/chart-export";
+import { emotionKey } from "@/lib/i18n";
+import { formatAllocation, itemLabel } from "@/lib/scenario-state";
+import { useI18n } from "@/hooks/use-i18n";
+import { useModelJob } from "@/hooks/use-model-job";
+import { ChartExportButtons, type ExportTable } from "./chart-export-buttons";
+import { JobStatus } from "./job-status";
+import { EMO_COLORS } from "./shared";
+
+const MAX_DRAWS = 10000;
+const MAX_TOTAL_DRAWS = 20_000_000; // 候補数 × M の上限（ワーカーでも数十秒かかるので）
+const FRAGILE_MARGIN = 0.1;
+const FRAGILE_ROWS = 15;
+
+const CALIBRATION_COLOR = "#2563eb";
+
+export function StochasticOpponentCard({
+  candidates,
+  names,
+  thetaDeg,
+  onSelect,
+}: {
+  candidates: CandidateEval[];
+  names: string[];
+  thetaDeg: number;
+  onSelect: (x: number[]) => void;
+}) {
+  const { t } = useI18n();
+  const chartRef = useRef<HTMLDivElement>(null);
+  const [draws, setDraws] = useState(200);
+  const [seed, setSeed] = useState(1);
+  const [job, setJob] = useState<{ kind: "sample"; candidates: CandidateEval[]; draws: number; seed: number; thetaDeg: number } | null>(null);
+  const state = useModelJob(job);
+  const result = useMemo(
+    () => (state.result && state.resultJob
+      ? { sampling: state.result.sampling, from: state.resultJob.candidates, thetaDeg: state.resultJob.thetaDeg }
+      : null),
+    [state.result, state.resultJob],
+  );
+
+  // モデル確率だけで決まる量（サンプリング前から出す）
+  const uncertainty = useMemo(() => {
+    const margins = candidates.map((c) => emotionMargin(c.probs));
+    const entropies = candidates.map((c) => emotionEntropy(c.probs));
+    const mean = (v: number[]) => (v.length > 0 ? v.reduce((s, a) => s + a, 0) / v.length : 0);
+    return {
+      meanEntropy: mean(entropies),
+      meanMargin: mean(margins),
+      fragile: margins.filter((m) => m < FRAGILE_MARGIN).length,
+    };
+  }, [candidates]);
+
+  const tooMany = candidates.length * draws > MAX_TOTAL_DRAWS;
+  const stale = result !== null && result.from !== candidates;
+
+  // 候補数 × M 回引くので明示的に実行（Web Worker で計算）
+  const run = () => setJob({ kind: "sample", candidates, draws, seed, thetaDeg });
+
+  // 際どい順（マージンの小さい順）
+  const fragileRows = useMemo(
+    () => (result ? [...result.sampling.samples].sort((a, b) => emotionMargin(a.candidate.probs) - emotionMargin(b.candidate.probs)).slice(0, FRAGILE_ROWS) : []),
+    [result],
+  );
+
+  const calibrationPoints = useMemo(
+    () => (result ? result.sampling.calibration.filter((b) => b.n > 0) : []),
+    [result],
+  );
+
+  const legend: LegendEntry[] = [
+    { label: t("stochastic.binnedLegend"), color: CALIBRATION_COLOR, marker: "circle" },
+    { label: t("stochastic.perfect"), color: "#9ca3af", dashed: true },
+  ];
+
+  const table = (): ExportTable => {
+    const samples = result?.sampling.samples ?? [];
+    const first = samples[0]?.candidate.x ?? [];
+    return {
+      columns: [
+        ...first.map((_, i) => `x_${itemLabel(names, i)}`),
+        "emotion", "entropy", "margin",
+        ...EMOTIONS.map((e) => `P_${e}`), ...EMOTIONS.map((e) => `freq_${e}`), "sampled_mode",
+      ],
+      rows: samples.map((s) => [
+        ...s.candidate.x, s.candidate.emotion, emotionEntropy(s.candidate.probs), emotionMargin(s.candidate.probs),
+        ...EMOTIONS.map((e) => s.candidate.probs[e]), ...EMOTIONS.map((e) => s.freq[e]), s.sampledMode,
+      ]),
+      json: result && { thetaDeg: result.thetaDeg, draws: result.sampling.draws, seed: result.sampling.seed, calibration: result.sampling.calibration, samples },
+    };
+  };
+
+  return (
+    <Card className="shadow-md">
+      <CardContent className="pt-6 space-y-4">
+        <h2 className="text-lg font-medium">{t("stochastic.title")}</h2>
+
+        <div className="grid sm:grid-cols-3 gap-3 text-sm tabular-nums">
+          <div className="rounded-md border p-3">
+            <div className="text-muted-foreground text-xs">{t("stochastic.meanEntropy")}</div>
+            {t("stochastic.entropyValue", { value: uncertainty.meanEntropy.toFixed(3) })}
+          </div>
+          <div className="rounded-md border p-3">
+            <div className="text-muted-foreground text-xs">{t("stochastic.meanMargin")}</div>
+            {uncertainty.meanMargin.toFixed(3)}
+          </div>
+          <div className="rounded-md border p-3">
+            <div className="text-muted-foreground text-xs">{t("stochastic.closeCalls", { margin: FRAGILE_MARGIN })}</div>
+            {t("stochastic.closeCallsValue", { count: uncertainty.fragile.toLocaleString(), total: candidates.length.toLocaleString() })}
+          </div>
+        </div>
+
+        <div className="flex flex-wrap items-end gap-3">
+          <div className="space-y-1">
+            <Label className="text-sm text-muted-foreground">{t("stochastic.draws")}</Label>
+            <Input type="number" min={1} max={MAX_DRAWS} step={50} value={draws} className="w-32" aria-label={t("stochastic.draws")}
+              onChange={(e) => setDraws(Math.max(1, Math.min(MAX_DRAWS, parseInt(e.target.value) || 1)))} />
+          </div>
+          <div className="space-y-1">
+            <Label className="text-sm text-muted-foreground">{t("common.seed")}</Label>
+            <Input type="number" step={1} value={seed} className="w-28" aria-label={t("common.seed")} onChange={(e) => setSeed(parseInt(e.target.value) || 0)} />
+          </div>
+          {state.pending
+            ? <Button variant="outline" onClick={() => setJob(null)}>{t("common.cancel")}</Button>
+            : <Button disabled={candidates.length === 0 || tooMany} onClick={run}>{t("stochastic.sample")}</Button>}
+          <JobStatus {...state} />
+          {tooMany && (
+            <span className="text-xs text-destructive">
+              {t("stochastic.tooMany", { candidates: candidates.length.toLocaleString(), draws, limit: MAX_TOTAL_DRAWS.toLocaleString() })}
+            </span>
+          )}
+          {stale && <span className="text-xs text-muted-foreground">{t("stochastic.stale")}</span>}
+        </div>
+        <p className="text-xs text-muted-foreground">
+          {t("stochastic.explain", { theta: result?.thetaDeg ?? thetaDeg })}
+        </p>
+
+        {result && (
+          <div className="space-y-4">
+            <div className="grid sm:grid-cols-3 gap-3 text-sm tabular-nums">
+              <div className="rounded-md border p-3">
+                <div className="text-muted-foreground text-xs">{t("stochastic.totalDraws")}</div>
+                {(result.sampling.samples.length * result.sampling.draws).toLocaleString()}
+              </div>
+              <div className="rounded-md border p-3">
+                <div className="text-muted-foreground text-xs">{t("stochastic.flipped")}</div>
+                {t("stochastic.flippedValue", { count: result.sampling.flipped.toLocaleString() })}
+              </div>
+              <div className="rounded-md border p-3">
+                <div className="text-muted-foreground text-xs">{t("stochastic.meanAbsError")}</div>
+                {result.sampling.meanAbsError.toFixed(4)}
+              </div>
+            </div>
+
+            <div className="grid lg:grid-cols-2 gap-6">
+              <div className="space-y-1">
+                <div className="flex items-center justify-between">
+                  <h3 className="text-sm font-medium">{t("stochastic.calibration")}</h3>
+                  <ChartExportButtons chartRef={chartRef} filename={`stochastic-theta${result.thetaDeg}-M${result.sampling.draws}`}
+                    table={table} legend={legend} />
+                </div>
+                <div ref={chartRef} className="h-[280px]">
+                  <ResponsiveContainer width="100%" height="100%">
+                    <ScatterChart margin={{ left: 8, right: 8, top: 8, bottom: 8 }}>
+                      <CartesianGrid strokeDasharray="3 3" />
+                      <XAxis type="number" dataKey="predicted" domain={[0, 1]} tickCount={6}
+                        label={{ value: t("stochastic.xAxis"), position: "insideBottom", dy: 10 }} />
+                      <YAxis type="number" dataKey="observed" domain={[0, 1]} tickCount={6}
+                        label={{ value: t("stochastic.yAxis"), angle: -90, position: "insideLeft" }} />
+                      <ZAxis type="number" dataKey="n" range={[40, 240]} />
+                      <Tooltip formatter={(v: number) => v.toFixed(3)} />
+                      <ReferenceLine segment={[{ x: 0, y: 0 }, { x: 1, y: 1 }]} stroke="#9ca3af" strokeDasharray="4 3" />
+                      <Scatter name={t("stochastic.binned")} data={calibrationPoints} fill={CALIBRATION_COLOR} isAnimationActive={false} />
+                    </ScatterChart>
+                  </ResponsiveContainer>
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  {t("stochastic.binsNote")}
+                </p>
+              </div>
+
+              <div className="space-y-1">
+                <h3 className="text-sm font-medium">{t("stochastic.closest")}</h3>
+                <table className="w-full text-xs tabular-nums">
+                  <thead>
+                    <tr className="text-left text-muted-foreground">
+                      <th className="font-normal">{t("col.offerX")}</th>
+                      <th className="font-normal">{t("stochastic.colArgmax")}</th>
+                      <th className="font-normal">{t("col.margin")}</th>
+                      {EMOTIONS.map((e) => <th key={e} className="font-normal">{t("stochastic.colPFreq", { emotion: t(emotionKey(e)) })}</th>)}
+                      <th className="font-normal">{t("stochastic.colSampled")}</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {fragileRows.map((s) => (
+                      <tr key={s.candidate.x.join(",")} className="cursor-pointer hover:bg-muted/50" onClick={() => onSelect(s.candidate.x)}>
+                        <td className="py-0.5 max-w-48 truncate" title={formatAllocation(s.candidate.x, names)}>[{s.candidate.x.join(", ")}]</td>
+                        <td>
+                          <span className="inline-block size-2 rounded-full mr-1" style={{ background: EMO_COLORS[s.candidate.emotion] }} />
+                          {t(emotionKey(s.candidate.emotion))}
+                        </td>
+                        <td>{emotionMargin(s.candidate.probs).toFixed(3)}</td>
+                        {EMOTIONS.map((e) => <td key={e}>{s.candidate.probs[e].toFixed(2)} / {s.freq[e].toFixed(2)}</td>)}
+                        <td className={s.sampledMode !== s.candidate.emotion ? "font-semibold text-destructive" : ""}>{t(emotionKey(s.sampledMode))}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+                <p className="text-xs text-muted-foreground">{t("stochastic.rowHint")}</p>
+              </div>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,274 @@
+"use client";
+
+import React, { useEffect, useRef, useState } from "react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Button } from "@/components/ui/button";
+import { NativeSelect } from "@/components/ui/native-select";
+import {
+  EMOTIONS,
+  argmaxEmotion,
+  isWeightParam,
+  type Emotion,
+  type ModelParams,
+  type Scenario,
+  type SweepAxis,
+  type SweepMetric,
+  type SweepParam,
+  type SweepSpec,
+} from "@/lib/emotion-model";
+import type { LegendEntry } from "@/lib/chart-export";
+import { emotionKey } from "@/lib/i18n";
+import { itemLabel } from "@/lib/scenario-state";
+import { useI18n } from "@/hooks/use-i18n";
+import { useModelJob } from "@/hooks/use-model-job";
+import { ChartExportButtons, type ExportTable } from "./chart-export-buttons";
+import { JobStatus } from "./job-status";
+import { EMO_COLORS, blendEmotionColor, heatColor } from "./shared";
+
+type ColorMode = "blend" | "heat";
+
+// select の値 "beta" / "wSelf:2" などと SweepParam の相互変換
+const paramKey = (p: SweepParam) => ("index" in p ? `${p.kind}:${p.index}` : p.kind);
+
+function parseParamKey(key: string): SweepParam {
+  const [kind, index] = key.split(":");
+  if (kind === "wSelf" || kind === "wOther") return { kind, index: Number(index) };
+  return { kind: kind as "beta" | "tau1" | "theta" };
+}
+
+// 書き出す表の列名は英語のまま、画面の軸名だけ thetaLabel を差し替える
+function paramLabel(p: SweepParam, names: string[], thetaLabel = "θ (deg)") {
+  switch (p.kind) {
+    case "beta": return "β";
+    case "tau1": return "τ1";
+    case "theta": return thetaLabel;
+    case "wSelf": return `w_self[${itemLabel(names, p.index)}]`;
+    case "wOther": return `w_other[${itemLabel(names, p.index)}]`;
+  }
+}
+
+function defaultAxis(param: SweepParam, wMax: number): SweepAxis {
+  switch (param.kind) {
+    case "beta": return { param, from: 0, to: 2, steps: 21 };
+    case "tau1": return { param, from: 0.05, to: 0.9, steps: 18 };
+    case "theta": return { param, from: -90, to: 90, steps: 37 };
+    default: return { param, from: -wMax, to: wMax, steps: 2 * wMax + 1 };
+  }
+}
+
+const MAX_STEPS = 101;
+
+// 品目数・w_max の変更に合わせる: 消えた品目の重みの軸は null、重みの範囲は ±w_max の整数に（変わらなければ同じ軸を返す）
+function fitAxis(axis: SweepAxis, n: number, wMax: number): SweepAxis | null {
+  if (!isWeightParam(axis.param)) return axis;
+  if (axis.param.index >= n) return null;
+  const clampW = (v: number) => Math.max(-wMax, Math.min(wMax, Math.round(v)));
+  const from = clampW(axis.from);
+  const to = clampW(axis.to);
+  const steps = Math.abs(to - from) + 1;
+  return from === axis.from && to === axis.to && steps === axis.steps ? axis : { ...axis, from, to, steps };
+}
+
+const fmt = (v: number) => (Number.isInteger(v) ? String(v) : v.toFixed(3));
+
+function AxisEditor({ axis, onChange, names, n, wMax, allowNone }: {
+  axis: SweepAxis | null;
+  onChange: (axis: SweepAxis | null) => void;
+  names: string[];
+  n: number;
+  wMax: number;
+  allowNone: boolean;
+}) {
+  const { t } = useI18n();
+  const options: SweepParam[] = [
+    { kind: "beta" },
+    { kind: "tau1" },
+    { kind: "theta" },
+    ...Array.from({ length: n }, (_, i) => ({ kind: "wSelf" as const, index: i })),
+    ...Array.from({ length: n }, (_, i) => ({ kind: "wOther" as const, index: i })),
+  ];
+  const num = (v: string, fallback: number) => (Number.isFinite(parseFloat(v)) ? parseFloat(v) : fallback);
+  // 重みの軸は整数の端点だけ編集でき、点の数は端点から決まる
+  const weight = axis !== null && isWeightParam(axis.param);
+  const setEnds = (next: SweepAxis) => onChange(fitAxis(next, n, wMax) ?? next);
+  return (
+    <div className="flex flex-wrap items-center gap-2 text-sm">
+      <NativeSelect value={axis ? paramKey(axis.param) : ""} className="w-40" aria-label={t("col.parameter")}
+        onChange={(e) => onChange(e.target.value === "" ? null : defaultAxis(parseParamKey(e.target.value), wMax))}>
+        {allowNone && <option value="">{t("sweep.none")}</option>}
+        {options.map((p) => <option key={paramKey(p)} value={paramKey(p)}>{paramLabel(p, names, t("axis.theta"))}</option>)}
+      </NativeSelect>
+      {axis && (
+        <>
+          <Input type="number" value={axis.from} className="w-20" aria-label={t("sweep.from")}
+            step={weight ? 1 : "any"} min={weight ? -wMax : undefined} max={weight ? wMax : undefined}
+            onChange={(e) => setEnds({ ...axis, from: num(e.target.value, axis.from) })} />
+          <span className="text-muted-foreground">{t("sweep.to")}</span>
+          <Input type="number" value={axis.to} className="w-20" aria-label={t("sweep.toLabel")}
+            step={weight ? 1 : "any"} min={weight ? -wMax : undefined} max={weight ? wMax : undefined}
+            onChange={(e) => setEnds({ ...axis, to: num(e.target.value, axis.to) })} />
+          <Input type="number" min={1} max={MAX_STEPS} step={1} value={axis.steps} className="w-20" aria-label={t("sweep.stepsLabel")}
+            disabled={weight}
+            onChange={(e) => onChange({ ...axis, steps: Math.max(1, Math.min(MAX_STEPS, parseInt(e.target.value) || 1)) })} />
+          <span className="text-xs text-muted-foreground">{t("sweep.steps")}</span>
+        </>
+      )}
+    </div>
+  );
+}
+
+const PLOT_W = 640;
+const PLOT_H = 360;
+const MARGIN = { left: 88, right: 12, top: 8, bottom: 40 };
+
+export function SweepCard({
+  scenario,
+  params,
+  thetaDeg,
+  names,
+  wMax,
+}: {
+  scenario: Scenario;
+  params: ModelParams;
+  thetaDeg: number;
+  names: string[];
+  wMax: number;
+}) {
+  const { t } = useI18n();
+  const chartRef = useRef<HTMLDivElement>(null);
+  const [metric, setMetric] = useState<SweepMetric>("offer");
+  const [xAxis, setXAxis] = useState<SweepAxis | null>(defaultAxis({ kind: "beta" }, wMax));
+  const [yAxis, setYAxis] = useState<SweepAxis | null>(defaultAxis({ kind: "tau1" }, wMax));
+  const [colorMode, setColorMode] = useState<ColorMode>("blend");
+  const [heatEmotion, setHeatEmotion] = useState<Emotion>("Anger");
+  const [job, setJob] = useState<{ kind: "sweep"; spec: SweepSpec } | null>(null);
+  const state = useModelJob(job);
+  const result = state.result?.result ?? null;
+  const ran = job?.spec;
+
+  const n = scenario.q.length;
+  // 品目を減らしたあとに範囲外の成分を指していたら無効
+  const valid = (a: SweepAxis | null) => a === null || !("index" in a.param) || a.param.index < n;
+
+  // 品目数・w_max が変わったら軸を合わせる（x 軸が消えたら β に戻す）
+  useEffect(() => {
+    setXAxis((a) => (a ? fitAxis(a, n, wMax) ?? defaultAxis({ kind: "beta" }, wMax) : a));
+    setYAxis((a) => (a ? fitAxis(a, n, wMax) : a));
+  }, [n, wMax]);
+
+  // 全候補を評価する share は重いので明示的に実行
+  const run = () => {
+    if (!xAxis || !valid(xAxis) || !valid(yAxis)) return;
+    setJob({ kind: "sweep", spec: { scenario, params, thetaDeg, metric, x: xAxis, y: yAxis } });
+  };
+
+  const cellColor = (dist: Record<Emotion, number>) =>
+    colorMode === "blend" ? blendEmotionColor(dist) : heatColor(dist[heatEmotion], heatEmotion);
+
+  const legend: LegendEntry[] = colorMode === "blend"
+    ? EMOTIONS.map((e) => ({ label: t(emotionKey(e)), color: EMO_COLORS[e], marker: "circle" as const }))
+    : [{ label: `P(${t(emotionKey(heatEmotion))})`, color: EMO_COLORS[heatEmotion], marker: "circle" as const }];
+
+  const table = (): ExportTable => {
+    const xLabel = ran ? paramLabel(ran.x.param, names) : "x";
+    const yLabel = ran?.y ? paramLabel(ran.y.param, names) : null;
+    const cells = result?.cells.flat() ?? [];
+    return {
+      columns: [xLabel, ...(yLabel ? [yLabel] : []), ...EMOTIONS.map((e) => `${ran?.metric === "share" ? "share" : "P"}_${e}`), "argmax"],
+      rows: cells.map((c) => [c.xValue, ...(yLabel ? [c.yValue ?? ""] : []), ...EMOTIONS.map((e) => c.dist[e]), argmaxEmotion(c.dist)]),
+      json: { spec: ran ? { metric: ran.metric, thetaDeg: ran.thetaDeg, x: ran.x, y: ran.y } : null, result },
+    };
+  };
+
+  const rows = result?.cells ?? [];
+  const cols = result?.xValues.length ?? 0;
+  const cellW = cols > 0 ? PLOT_W / cols : 0;
+  const cellH = rows.length > 0 ? PLOT_H / rows.length : 0;
+  const width = MARGIN.left + PLOT_W + MARGIN.right;
+  const height = MARGIN.top + PLOT_H + MARGIN.bottom;
+  const tickEvery = (len: number) => Math.max(1, Math.ceil(len / 8));
+  const axisLabel = (p: SweepParam) => paramLabel(p, names, t("axis.theta"));
+
+  return (
+    <Card className="shadow-md">
+      <CardContent className="pt-6 space-y-4">
+        <div className="flex items-center justify-between">
+          <h2 className="text-lg font-medium">{t("sweep.title")}</h2>
+          <div className="flex items-center gap-3">
+            <JobStatus {...state} />
+            <ChartExportButtons chartRef={chartRef} filename="sweep" table={table} legend={legend} />
+          </div>
+        </div>
+
+        <div className="grid lg:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <div className="flex items-center gap-3">
+              <Label className="w-16 text-sm text-muted-foreground">{t("sweep.xAxis")}</Label>
+              <AxisEditor axis={xAxis} onChange={setXAxis} names={names} n={n} wMax={wMax} allowNone={false} />
+            </div>
+            <div className="flex items-center gap-3">
+              <Label className="w-16 text-sm text-muted-foreground">{t("sweep.yAxis")}</Label>
+              <AxisEditor axis={yAxis} onChange={setYAxis} names={names} n={n} wMax={wMax} allowNone />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <div className="flex items-center gap-3 text-sm">
+              <Label className="w-16 text-muted-foreground">{t("sweep.metric")}</Label>
+              <NativeSelect value={metric} className="w-72" aria-label={t("sweep.metric")} onChange={(e) => setMetric(e.target.value as SweepMetric)}>
+                <option value="offer">{t("sweep.metric.offer")}</option>
+                <option value="share">{t("sweep.metric.share")}</option>
+              </NativeSelect>
+            </div>
+            <div className="flex items-center gap-3 text-sm">
+              <Label className="w-16 text-muted-foreground">{t("common.color")}</Label>
+              <NativeSelect value={colorMode} className="w-44" aria-label={t("common.color")} onChange={(e) => setColorMode(e.target.value as ColorMode)}>
+                <option value="blend">{t("common.blend")}</option>
+                <option value="heat">{t("sweep.heat")}</option>
+              </NativeSelect>
+              {colorMode === "heat" && (
+                <NativeSelect value={heatEmotion} className="w-28" aria-label={t("common.heatmapEmotion")}
+                  onChange={(e) => setHeatEmotion(e.target.value as Emotion)}>
+                  {EMOTIONS.map((emo) => <option key={emo} value={emo}>{t(emotionKey(emo))}</option>)}
+                </NativeSelect>
+              )}
+              <Button className="ml-auto" disabled={!xAxis || !valid(xAxis) || !valid(yAxis)} onClick={run}>{t("sweep.run")}</Button>
+            </div>
+          </div>
+        </div>
+
+        <p className="text-xs text-muted-foreground">
+          {t("sweep.explain", { theta: thetaDeg })}
+        </p>
+
+        {result && ran && (
+          <div ref={chartRef} className="overflow-x-auto">
+            <svg data-export-surface width={width} height={height} className="text-xs">
+              {rows.map((row, r) => row.map((c, k) => (
+                <rect key={`${r}:${k}`} x={MARGIN.left + k * cellW} y={MARGIN.top + (rows.length - 1 - r) * cellH}
+                  width={cellW + 0.5} height={cellH + 0.5} fill={cellColor(c.dist)}>
+                  <title>
+                    {`${axisLabel(ran.x.param)} = ${fmt(c.xValue)}${c.yValue !== null && ran.y ? `, ${axisLabel(ran.y.param)} = ${fmt(c.yValue)}` : ""}\n`
+                      + EMOTIONS.map((e) => `${t(emotionKey(e))}: ${c.dist[e].toFixed(3)}`).join("\n")}
+                  </title>
+                </rect>
+              )))}
+              {result.xValues.map((v, k) => k % tickEvery(cols) === 0 && (
+                <text key={k} x={MARGIN.left + (k + 0.5) * cellW} y={MARGIN.top + PLOT_H + 14} textAnchor="middle" fill="currentColor">{fmt(v)}</text>
+              ))}
+              <text x={MARGIN.left + PLOT_W / 2} y={height - 6} textAnchor="middle" fill="currentColor">{axisLabel(ran.x.param)}</text>
+              {result.yValues?.map((v, r) => r % tickEvery(rows.length) === 0 && (
+                <text key={r} x={MARGIN.left - 6} y={MARGIN.top + (rows.length - 0.5 - r) * cellH + 4} textAnchor="end" fill="currentColor">{fmt(v)}</text>
+              ))}
+              {ran.y && (
+                <text x={14} y={MARGIN.top + PLOT_H / 2} textAnchor="middle" fill="currentColor"
+                  transform={`rotate(-90 14 ${MARGIN.top + PLOT_H / 2})`}>{axisLabel(ran.y.param)}</text>
+              )}
+            </svg>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
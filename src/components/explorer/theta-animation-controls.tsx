@@ -0,0 +1,194 @@
+"use client";
+
+import React, { useEffect, useRef, useState } from "react";
+import { animate } from "framer-motion";
+import { Film, Pause, Play, Square } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { NativeSelect } from "@/components/ui/native-select";
+import { canvasToPng, chartToSvg, svgToCanvas, type LegendEntry } from "@/lib/chart-export";
+import {
+  framesToGif,
+  framesToWebm,
+  framesToZip,
+  webmSupported,
+  type AnimationFormat,
+  type AnimationFrame,
+} from "@/lib/animation-export";
+import { downloadBlob } from "@/lib/download";
+import { useI18n } from "@/hooks/use-i18n";
+
+type PlayMode = "loop" | "bounce";
+
+const SPEEDS = [5, 10, 20, 45, 90]; // °/s
+const FRAME_STEPS = [1, 2, 5, 10]; // 書き出しの θ 刻み
+const FRAME_RATES = [5, 10, 15, 25];
+
+const FORMAT_EXT: Record<AnimationFormat, string> = { gif: "gif", webm: "webm", zip: "zip" };
+
+const nextFrame = () => new Promise<void>((resolve) => requestAnimationFrame(() => resolve()));
+
+// 書き出すフレームの θ 列（bounce なら −90 → 90 → −90 の往復、端は重複させない）
+function frameThetas(step: number, mode: PlayMode) {
+  const up: number[] = [];
+  for (let t = -90; t < 90; t += step) up.push(t);
+  up.push(90);
+  return mode === "bounce" ? [...up, ...up.slice(1, -1).reverse()] : up;
+}
+
+// θ の再生・一時停止と、θ ごとのフレームの書き出し（chartRef のグラフを撮る）
+export function ThetaAnimationControls({
+  thetaDeg,
+  onThetaChange,
+  pending,
+  chartRef,
+  legend,
+  filename,
+  onCapturingChange,
+}: {
+  thetaDeg: number;
+  onThetaChange: (thetaDeg: number) => void;
+  pending: boolean; // ワーカーが計算中（終わるまで θ を進めない）
+  chartRef: React.RefObject<HTMLDivElement | null>;
+  legend: LegendEntry[];
+  filename: string;
+  onCapturingChange: (capturing: boolean) => void;
+}) {
+  const { t } = useI18n();
+  const [playing, setPlaying] = useState(false);
+  const [speed, setSpeed] = useState(20);
+  const [mode, setMode] = useState<PlayMode>("loop");
+  const [format, setFormat] = useState<AnimationFormat>("gif");
+  const [frameStep, setFrameStep] = useState(2);
+  const [fps, setFps] = useState(10);
+  const [capture, setCapture] = useState<{ done: number; total: number; phase: "frames" | "encoding" } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const cancelRef = useRef(false);
+  // MediaRecorder はブラウザにしかないので、マウント後に調べる（サーバーの描画と合わせる）
+  const [webmOk, setWebmOk] = useState(false);
+  useEffect(() => setWebmOk(webmSupported()), []);
+
+  // アニメーションのコールバックからは最新の値を参照する
+  const latest = useRef({ thetaDeg, onThetaChange, pending, legend });
+  useEffect(() => {
+    latest.current = { thetaDeg, onThetaChange, pending, legend };
+  });
+
+  useEffect(() => {
+    if (!playing) return;
+    let last = latest.current.thetaDeg;
+    const controls = animate(-90, 90, {
+      duration: 180 / speed,
+      ease: "linear",
+      repeat: Infinity,
+      repeatType: mode === "bounce" ? "reverse" : "loop",
+      onUpdate: (v) => {
+        const th = Math.round(v);
+        // 前の θ の計算が終わっていなければ飛ばす（重いシナリオでも表示が止まらないように）
+        if (th === last || latest.current.pending) return;
+        last = th;
+        latest.current.onThetaChange(th);
+      },
+    });
+    controls.time = (last + 90) / speed; // 現在の θ から再生
+    return () => controls.stop();
+  }, [playing, speed, mode]);
+
+  // θ を設定 → ワーカーの結果が描かれるまで待つ
+  const settle = async (th: number) => {
+    latest.current.onThetaChange(th);
+    await nextFrame();
+    await nextFrame();
+    while (latest.current.pending) await nextFrame();
+    await nextFrame();
+  };
+
+  const exportAnimation = async () => {
+    const container = chartRef.current;
+    if (!container) return;
+    const start = latest.current.thetaDeg;
+    setPlaying(false);
+    setError(null);
+    cancelRef.current = false;
+    onCapturingChange(true);
+    const thetas = frameThetas(frameStep, mode);
+    try {
+      const frames: AnimationFrame[] = [];
+      for (const th of thetas) {
+        if (cancelRef.current) return;
+        setCapture({ done: frames.length, total: thetas.length, phase: "frames" });
+        await settle(th);
+        const { svg, width, height } = chartToSvg(container, latest.current.legend);
+        const canvas = await svgToCanvas(svg, width, height, 1);
+        const ctx = canvas.getContext("2d");
+        if (ctx) {
+          ctx.font = "bold 14px sans-serif";
+          ctx.fillStyle = "#111827";
+          ctx.fillText(`θ = ${th}°`, 12, 20);
+        }
+        frames.push({ thetaDeg: th, png: await canvasToPng(canvas) });
+      }
+      setCapture({ done: frames.length, total: thetas.length, phase: "encoding" });
+      const isCancelled = () => cancelRef.current;
+      const blob = format === "gif" ? await framesToGif(frames, fps, isCancelled)
+        : format === "webm" ? await framesToWebm(frames, fps, isCancelled)
+          : await framesToZip(frames);
+      if (!blob || isCancelled()) return;
+      downloadBlob(`${filename}.${FORMAT_EXT[format]}`, blob);
+    } catch (e) {
+      setError((e as Error).message);
+    } finally {
+      setCapture(null);
+      onCapturingChange(false);
+      latest.current.onThetaChange(start);
+    }
+  };
+
+  const capturing = capture !== null;
+
+  return (
+    <div className="flex flex-wrap items-center gap-3 text-sm">
+      <Button variant="outline" size="sm" disabled={capturing} onClick={() => setPlaying(!playing)}
+        aria-label={t(playing ? "anim.pauseLabel" : "anim.playLabel")}>
+        {playing ? <Pause /> : <Play />}{t(playing ? "anim.pause" : "anim.play")}
+      </Button>
+      <Label className="text-muted-foreground">{t("anim.speed")}</Label>
+      <NativeSelect value={speed} onChange={(e) => setSpeed(Number(e.target.value))} className="w-24" aria-label={t("anim.speedLabel")}>
+        {SPEEDS.map((s) => <option key={s} value={s}>{s}°/s</option>)}
+      </NativeSelect>
+      <NativeSelect value={mode} onChange={(e) => setMode(e.target.value as PlayMode)} className="w-28" aria-label={t("anim.mode")}>
+        <option value="loop">{t("anim.loop")}</option>
+        <option value="bounce">{t("anim.bounce")}</option>
+      </NativeSelect>
+
+      <span className="ml-auto flex flex-wrap items-center gap-2">
+        <NativeSelect value={format} onChange={(e) => setFormat(e.target.value as AnimationFormat)} className="w-36" aria-label={t("anim.format")}
+          disabled={capturing}>
+          <option value="gif">{t("anim.gif")}</option>
+          <option value="webm" disabled={!webmOk}>{t("anim.webm")}</option>
+          <option value="zip">{t("anim.zip")}</option>
+        </NativeSelect>
+        <NativeSelect value={frameStep} onChange={(e) => setFrameStep(Number(e.target.value))} className="w-24" aria-label={t("anim.frameStep")}
+          disabled={capturing}>
+          {FRAME_STEPS.map((s) => <option key={s} value={s}>{t("anim.every", { step: s })}</option>)}
+        </NativeSelect>
+        {format !== "zip" && (
+          <NativeSelect value={fps} onChange={(e) => setFps(Number(e.target.value))} className="w-24" aria-label={t("anim.fps")}
+            disabled={capturing}>
+            {FRAME_RATES.map((r) => <option key={r} value={r}>{r} fps</option>)}
+          </NativeSelect>
+        )}
+        {capturing
+          ? <Button variant="ghost" size="sm" onClick={() => { cancelRef.current = true; }}><Square />{t("common.cancel")}</Button>
+          : <Button variant="outline" size="sm" onClick={() => void exportAnimation()}><Film />{t("anim.export")}</Button>}
+      </span>
+
+      {capture && (
+        <span className="w-full text-xs text-muted-foreground" role="status">
+          {capture.phase === "frames" ? t("anim.capturing", { done: capture.done + 1, total: capture.total }) : t("anim.encoding", { total: capture.total })}
+        </span>
+      )}
+      {error && <span className="w-full text-xs text-destructive">{error}</span>}
+    </div>
+  );
+}
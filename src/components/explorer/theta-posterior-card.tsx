@@ -0,0 +1,204 @@
+"use client";
+
+import React, { useMemo, useState } from "react";
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  Tooltip,
+  Legend,
+  ResponsiveContainer,
+  ReferenceArea,
+  ReferenceLine,
+} from "recharts";
+import { X } from "lucide-react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Button } from "@/components/ui/button";
+import { NativeSelect } from "@/components/ui/native-select";
+import {
+  EMOTIONS,
+  summarizePosterior,
+  type Emotion,
+  type EmotionObservation,
+  type ThetaPosterior,
+  type ThetaPrior,
+} from "@/lib/emotion-model";
+import { emotionKey } from "@/lib/i18n";
+import { formatAllocation } from "@/lib/scenario-state";
+import { useI18n } from "@/hooks/use-i18n";
+import { JobStatus } from "./job-status";
+import { EMO_COLORS, fitsQuantities } from "./shared";
+import { SliderInput } from "./slider-input";
+
+// "1, 2, 0.5" → [1, 2, 0.5]（非負の数のみ）
+function parseKnots(text: string): number[] | null {
+  const parts = text.split(/[\s,]+/).filter((p) => p !== "");
+  if (parts.length === 0) return null;
+  const knots = parts.map(Number);
+  return knots.every((v) => Number.isFinite(v) && v >= 0) && knots.some((v) => v > 0) ? knots : null;
+}
+
+export function ThetaPosteriorCard({
+  q,
+  x,
+  names,
+  observations,
+  setObservations,
+  prior,
+  setPrior,
+  posterior,
+  status,
+}: {
+  q: number[];
+  x: number[];
+  names: string[];
+  observations: EmotionObservation[];
+  setObservations: (obs: EmotionObservation[]) => void;
+  prior: ThetaPrior;
+  setPrior: (prior: ThetaPrior) => void;
+  posterior: ThetaPosterior | null; // 計算が終わるまでは null
+  status: { pending: boolean; progress: number; error: string | null };
+}) {
+  const { t } = useI18n();
+  const [emotion, setEmotion] = useState<Emotion>("Anger");
+  const [knotsText, setKnotsText] = useState("1, 1, 1");
+  const [level, setLevel] = useState(0.95);
+
+  const summary = useMemo(
+    () => (posterior ? summarizePosterior(posterior.theta, posterior.posterior, level) : null),
+    [posterior, level],
+  );
+
+  const chartData = useMemo(
+    () => (posterior
+      ? posterior.theta.map((th, j) => ({ theta: th, prior: posterior.prior[j], posterior: posterior.posterior[j] }))
+      : []),
+    [posterior],
+  );
+
+  const ignored = observations.filter((o) => !fitsQuantities(o.x, q)).length;
+  const knotsError = prior.kind === "custom" && parseKnots(knotsText) === null;
+
+  return (
+    <Card className="shadow-md">
+      <CardContent className="pt-6 space-y-4">
+        <h2 className="text-lg font-medium">{t("posterior.title")}</h2>
+        <JobStatus {...status} />
+
+        <div className="h-[260px]">
+          <ResponsiveContainer width="100%" height="100%">
+            <LineChart data={chartData} margin={{ left: 8, right: 8, top: 8, bottom: 8 }}>
+              <XAxis dataKey="theta" type="number" domain={[-90, 90]} tickCount={13}
+                label={{ value: t("axis.theta"), position: "insideBottom", dy: 10 }} />
+              <YAxis label={{ value: t("posterior.yAxis"), angle: -90, position: "insideLeft" }} />
+              <Tooltip formatter={(v: number) => v.toFixed(4)} />
+              <Legend />
+              {summary && <ReferenceArea x1={summary.lower} x2={summary.upper} fill="#93c5fd" fillOpacity={0.2} />}
+              {summary && <ReferenceLine x={summary.map} stroke="#2563eb" strokeDasharray="3 3" />}
+              <Line type="monotone" dataKey="prior" name={t("posterior.prior")} stroke="#9ca3af" strokeDasharray="4 4" dot={false} strokeWidth={1.5} />
+              <Line type="monotone" dataKey="posterior" name={t("posterior.posterior")} stroke="#2563eb" dot={false} strokeWidth={2} />
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+
+        {posterior && summary && (
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-2 text-sm tabular-nums">
+            <div>{t("posterior.map", { value: summary.map.toFixed(1) })}</div>
+            <div>{t("posterior.mean", { mean: summary.mean.toFixed(1), sd: summary.sd.toFixed(1) })}</div>
+            <div>
+              {t("posterior.ci", { level: Math.round(summary.level * 100), lower: summary.lower.toFixed(1), upper: summary.upper.toFixed(1) })}
+            </div>
+            <div>{t("posterior.logEvidence", { value: posterior.logEvidence.toFixed(3) })}</div>
+          </div>
+        )}
+
+        <div className="grid md:grid-cols-2 gap-6">
+          {/* --- 観測 --- */}
+          <div className="space-y-3">
+            <div className="flex items-center gap-2">
+              <NativeSelect value={emotion} onChange={(e) => setEmotion(e.target.value as Emotion)} className="w-32"
+                aria-label={t("col.emotion")}>
+                {EMOTIONS.map((emo) => <option key={emo} value={emo}>{t(emotionKey(emo))}</option>)}
+              </NativeSelect>
+              <Button variant="outline" size="sm" onClick={() => setObservations([...observations, { x: [...x], emotion }])}>
+                {t("posterior.observe")}
+              </Button>
+              <Button variant="ghost" size="sm" disabled={observations.length === 0} onClick={() => setObservations([])}>
+                {t("common.clear")}
+              </Button>
+            </div>
+            {observations.length === 0 ? (
+              <p className="text-xs text-muted-foreground">{t("posterior.empty")}</p>
+            ) : (
+              <ul className="space-y-1 text-xs">
+                {observations.map((o, i) => (
+                  <li key={i} className={`flex items-center gap-2 ${fitsQuantities(o.x, q) ? "" : "opacity-50 line-through"}`}>
+                    <span className="inline-block size-2.5 rounded-full" style={{ background: EMO_COLORS[o.emotion] }} />
+                    <span className="w-14">{t(emotionKey(o.emotion))}</span>
+                    <span className="flex-1 text-muted-foreground">{formatAllocation(o.x, names)}</span>
+                    <Button variant="ghost" size="icon" className="size-6" aria-label={t("posterior.remove", { n: i + 1 })}
+                      onClick={() => setObservations(observations.filter((_, j) => j !== i))}><X /></Button>
+                  </li>
+                ))}
+              </ul>
+            )}
+            {ignored > 0 && (
+              <p className="text-xs text-destructive">{t("posterior.ignored", { count: ignored })}</p>
+            )}
+          </div>
+
+          {/* --- 事前分布 --- */}
+          <div className="space-y-3">
+            <div className="flex items-center gap-3">
+              <Label className="w-28 text-sm text-muted-foreground">{t("posterior.priorLabel")}</Label>
+              <NativeSelect value={prior.kind} className="flex-1" aria-label={t("posterior.priorLabel")} onChange={(e) => {
+                const kind = e.target.value as ThetaPrior["kind"];
+                if (kind === "uniform") setPrior({ kind });
+                else if (kind === "vonMises") setPrior({ kind, mu: 0, kappa: 2 });
+                else setPrior({ kind, knots: parseKnots(knotsText) ?? [1] });
+              }}>
+                <option value="uniform">{t("posterior.uniform")}</option>
+                <option value="vonMises">{t("posterior.vonMises")}</option>
+                <option value="custom">{t("posterior.custom")}</option>
+              </NativeSelect>
+            </div>
+            {prior.kind === "vonMises" && (
+              <>
+                <div className="flex items-center gap-3">
+                  <Label className="w-28 text-sm text-muted-foreground">{t("posterior.mu")}</Label>
+                  <SliderInput label={t("posterior.mu")} value={prior.mu} min={-90} max={90} step={1} className="flex-1"
+                    onChange={(v) => setPrior({ ...prior, mu: v })} />
+                </div>
+                <div className="flex items-center gap-3">
+                  <Label className="w-28 text-sm text-muted-foreground">{t("posterior.kappa")}</Label>
+                  <SliderInput label={t("posterior.kappa")} value={prior.kappa} min={0} max={20} step={0.5} className="flex-1"
+                    onChange={(v) => setPrior({ ...prior, kappa: v })} />
+                </div>
+              </>
+            )}
+            {prior.kind === "custom" && (
+              <div className="space-y-1">
+                <Input value={knotsText} aria-invalid={knotsError} aria-label={t("posterior.custom")} onChange={(e) => {
+                  setKnotsText(e.target.value);
+                  const knots = parseKnots(e.target.value);
+                  if (knots) setPrior({ kind: "custom", knots });
+                }} />
+                <p className={`text-xs ${knotsError ? "text-destructive" : "text-muted-foreground"}`}>
+                  {t("posterior.knotsHint")}
+                </p>
+              </div>
+            )}
+            <div className="flex items-center gap-3">
+              <Label className="w-28 text-sm text-muted-foreground">{t("posterior.level")}</Label>
+              <SliderInput label={t("posterior.level")} value={level} min={0.5} max={0.99} step={0.01} className="flex-1"
+                onChange={setLevel} />
+            </div>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
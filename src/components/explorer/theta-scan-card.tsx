@@ -0,0 +1,152 @@
+"use client";
+
+import React, { useMemo, useRef, useState } from "react";
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  Tooltip,
+  Legend,
+  ResponsiveContainer,
+  ReferenceArea,
+  ReferenceLine,
+  type MouseHandlerDataParam,
+} from "recharts";
+import { Card, CardContent } from "@/components/ui/card";
+import { argmaxBands, type EmotionProbs, type ThetaScanRow } from "@/lib/emotion-model";
+import type { LegendEntry } from "@/lib/chart-export";
+import { emotionKey } from "@/lib/i18n";
+import { useI18n } from "@/hooks/use-i18n";
+import { ChartExportButtons, type ExportTable } from "./chart-export-buttons";
+import { JobStatus } from "./job-status";
+import { EMO_COLORS } from "./shared";
+
+const LINE_ORDER = ["Anger", "Sad", "Neutral", "Joy"] as const;
+
+const THETA_COLOR = "#2563eb";
+const S_COLOR = "#0f766e";
+const U_COLOR = "#6b7280";
+const UMAX_COLOR = "#111827";
+const OBSERVED_COLOR = "#6b7280";
+
+export function ThetaScanCard({
+  title,
+  rows,
+  thetaDeg,
+  onThetaChange,
+  status,
+  filename,
+  table,
+  observed = null,
+}: {
+  title?: string;
+  rows: ThetaScanRow[];
+  thetaDeg: number;
+  onThetaChange: (thetaDeg: number) => void;
+  status: { pending: boolean; progress: number; error: string | null };
+  filename: string;
+  table: () => ExportTable;
+  observed?: { freq: EmotionProbs; n: number } | null; // 現在の提案と同じ試行での感情の頻度
+}) {
+  const { t } = useI18n();
+  const chartRef = useRef<HTMLDivElement>(null);
+  const draggingRef = useRef(false);
+  const [showS, setShowS] = useState(true);
+  const [showU, setShowU] = useState(false);
+  const [showBands, setShowBands] = useState(true);
+  const [showObserved, setShowObserved] = useState(true);
+  const overlay = showObserved ? observed : null;
+
+  const bands = useMemo(() => argmaxBands(rows), [rows]);
+
+  // チャート上のドラッグで θ を動かす（スライダーと同じ 1° 刻み）
+  const thetaFromPointer = (state: MouseHandlerDataParam) => {
+    const i = Number(state.activeTooltipIndex);
+    if (!Number.isInteger(i) || !rows[i]) return;
+    onThetaChange(Math.round(rows[i].theta));
+  };
+
+  const legend: LegendEntry[] = [
+    ...LINE_ORDER.map((e) => ({ label: t(emotionKey(e)), color: EMO_COLORS[e] })),
+    ...(showS ? [{ label: "S(θ)", color: S_COLOR, dashed: true }] : []),
+    ...(showU ? [{ label: "U(θ)", color: U_COLOR }, { label: "U_max(θ)", color: UMAX_COLOR, dashed: true }] : []),
+    ...(overlay ? [{ label: t("scan.observedLegend", { n: overlay.n }), color: OBSERVED_COLOR, dashed: true }] : []),
+  ];
+
+  return (
+    <Card className="shadow-md">
+      <CardContent className="pt-6 space-y-2">
+        {title && <h2 className="text-lg font-medium">{title}</h2>}
+        <div className="flex items-center justify-between">
+          <JobStatus {...status} />
+          <ChartExportButtons chartRef={chartRef} filename={filename} table={table} legend={legend} />
+        </div>
+        <div className="flex flex-wrap items-center gap-4 text-sm">
+          <label className="flex items-center gap-1.5">
+            <input type="checkbox" checked={showS} onChange={(e) => setShowS(e.target.checked)} />
+            S(θ)
+          </label>
+          <label className="flex items-center gap-1.5">
+            <input type="checkbox" checked={showU} onChange={(e) => setShowU(e.target.checked)} />
+            U(θ) vs U_max(θ)
+          </label>
+          <label className="flex items-center gap-1.5">
+            <input type="checkbox" checked={showBands} onChange={(e) => setShowBands(e.target.checked)} />
+            {t("scan.bands")}
+          </label>
+          {observed && (
+            <label className="flex items-center gap-1.5">
+              <input type="checkbox" checked={showObserved} onChange={(e) => setShowObserved(e.target.checked)} />
+              {t("scan.observed", { n: observed.n })}
+            </label>
+          )}
+          <span className="text-xs text-muted-foreground">{t("scan.dragHint")}</span>
+        </div>
+        <div ref={chartRef} className="h-[320px] select-none">
+          <ResponsiveContainer width="100%" height="100%">
+            <LineChart data={rows} margin={{ left: 8, right: 8, top: 8, bottom: 8 }} className="cursor-ew-resize"
+              onMouseDown={(state) => { draggingRef.current = true; thetaFromPointer(state); }}
+              onMouseMove={(state) => { if (draggingRef.current) thetaFromPointer(state); }}
+              onMouseUp={() => { draggingRef.current = false; }}
+              onMouseLeave={() => { draggingRef.current = false; }}>
+              <XAxis dataKey="theta" type="number" domain={[-90, 90]} tickCount={13}
+                label={{ value: t("axis.theta"), position: "insideBottom", dy: 10 }} />
+              <YAxis yAxisId="prob" domain={[0, 1]} tickCount={6}
+                label={{ value: t("scan.yAxis"), angle: -90, position: "insideLeft" }} />
+              {showU && (
+                <YAxis yAxisId="utility" orientation="right" domain={["auto", "auto"]}
+                  label={{ value: t("scan.uAxis"), angle: 90, position: "insideRight" }} />
+              )}
+              <Tooltip formatter={(v: number) => v.toFixed(3)} />
+              <Legend />
+              {showBands && bands.map((b) => (
+                <ReferenceArea key={`${b.from}:${b.emotion}`} yAxisId="prob" x1={b.from} x2={b.to}
+                  fill={EMO_COLORS[b.emotion]} fillOpacity={0.15} strokeOpacity={0} ifOverflow="hidden" />
+              ))}
+              <ReferenceLine yAxisId="prob" x={0} strokeDasharray="3 3" />
+              <ReferenceLine yAxisId="prob" x={thetaDeg} stroke={THETA_COLOR} strokeWidth={2}
+                label={{ value: `θ = ${thetaDeg}°`, position: "top", fill: THETA_COLOR, fontSize: 12 }} />
+              {overlay && LINE_ORDER.map((e) => (
+                <ReferenceLine key={`obs:${e}`} yAxisId="prob" y={overlay.freq[e]} stroke={EMO_COLORS[e]} strokeDasharray="2 4" strokeWidth={2}
+                  label={{ value: t("scan.observedLine", { emotion: t(emotionKey(e)) }), position: "insideRight", fill: EMO_COLORS[e], fontSize: 11 }} />
+              ))}
+              {LINE_ORDER.map((e) => (
+                <Line key={e} yAxisId="prob" type="monotone" dataKey={e} name={t(emotionKey(e))} stroke={EMO_COLORS[e]} dot={false} strokeWidth={2} isAnimationActive={false} />
+              ))}
+              {showS && (
+                <Line yAxisId="prob" type="monotone" dataKey="S" name="S(θ)" stroke={S_COLOR} strokeDasharray="5 3" dot={false} strokeWidth={1.5} isAnimationActive={false} />
+              )}
+              {showU && (
+                <>
+                  <Line yAxisId="utility" type="monotone" dataKey="u" name="U(θ)" stroke={U_COLOR} dot={false} strokeWidth={1.5} isAnimationActive={false} />
+                  <Line yAxisId="utility" type="monotone" dataKey="umax" name="U_max(θ)" stroke={UMAX_COLOR} strokeDasharray="5 3" dot={false} strokeWidth={1.5} isAnimationActive={false} />
+                </>
+              )}
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
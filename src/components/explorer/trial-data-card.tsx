@@ -0,0 +1,125 @@
+"use client";
+
+import React, { useRef, useState } from "react";
+import { Download, Trash2, Upload } from "lucide-react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { EMOTIONS } from "@/lib/emotion-model";
+import { toCsv } from "@/lib/csv";
+import { downloadText } from "@/lib/download";
+import { parseTrialCsv, trialColumns, type Trial, type TrialFit } from "@/lib/trial-data";
+import { useI18n } from "@/hooks/use-i18n";
+
+export function TrialDataCard({
+  q,
+  x,
+  trials,
+  setTrials,
+  fit,
+  matched,
+}: {
+  q: number[];
+  x: number[];
+  trials: Trial[];
+  setTrials: (trials: Trial[]) => void;
+  fit: TrialFit | null;
+  matched: number; // 現在の q と同じ試行の数（グラフに重ねる対象）
+}) {
+  const { t } = useI18n();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [errors, setErrors] = useState<string[] | null>(null);
+
+  const importFile = async (file: File) => {
+    const parsed = parseTrialCsv(await file.text(), q.length);
+    if (parsed.ok) {
+      setTrials(parsed.value);
+      setFileName(file.name);
+      setErrors(null);
+    } else {
+      setErrors(parsed.errors.map((e) => `${file.name}: ${e}`));
+    }
+  };
+
+  const downloadTemplate = () => {
+    downloadText("trials-template.csv", toCsv(trialColumns(q.length), [["P01", ...q, ...x, "Neutral"]]), "text/csv");
+  };
+
+  const clear = () => {
+    setTrials([]);
+    setFileName(null);
+  };
+
+  return (
+    <Card className="shadow-md">
+      <CardContent className="pt-6 space-y-4">
+        <div className="flex items-center justify-between">
+          <h2 className="text-lg font-medium">{t("trials.title")}</h2>
+          <div className="flex items-center gap-2">
+            <Button variant="outline" size="sm" onClick={downloadTemplate}><Download />{t("trials.template")}</Button>
+            <Button variant="outline" size="sm" onClick={() => fileInputRef.current?.click()}><Upload />{t("trials.import")}</Button>
+            <input ref={fileInputRef} type="file" accept="text/csv,.csv" className="hidden" onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) void importFile(file);
+              e.target.value = "";
+            }} />
+            <Button variant="ghost" size="sm" disabled={trials.length === 0} onClick={clear}><Trash2 />{t("common.clear")}</Button>
+          </div>
+        </div>
+
+        <p className="text-xs text-muted-foreground">
+          {t("trials.columns", { columns: trialColumns(q.length).join(", "), n: q.length, emotions: EMOTIONS.join(" / ") })}
+        </p>
+
+        {errors && (
+          <ul className="rounded-md border border-destructive/50 p-3 text-sm text-destructive list-disc pl-8">
+            {errors.map((err, i) => <li key={i}>{err}</li>)}
+          </ul>
+        )}
+
+        {!fit && trials.length > 0 && (
+          <p className="text-sm text-destructive">
+            {t("trials.mismatch", { loaded: trials[0].q.length, n: q.length })}
+          </p>
+        )}
+
+        {fit && trials.length > 0 && (
+          <div className="grid lg:grid-cols-2 gap-6">
+            <div className="space-y-1 text-sm tabular-nums">
+              <p>
+                {t("trials.summary", { n: trials.length, source: fileName ? t("trials.source", { file: fileName }) : "", matched })}
+              </p>
+              <p>
+                {t("trials.logLik")} <span className="font-semibold">{fit.total.toFixed(3)}</span>{" "}
+                {t("trials.perTrial", { mean: (fit.total / trials.length).toFixed(3) })}
+              </p>
+              <p className="text-muted-foreground">
+                {t("trials.baseline", { baseline: fit.baseline.toFixed(3), delta: (fit.total - fit.baseline).toFixed(3) })}
+              </p>
+            </div>
+            <table className="w-full text-xs tabular-nums">
+              <thead>
+                <tr className="text-left text-muted-foreground">
+                  <th className="font-normal">{t("trials.colParticipant")}</th>
+                  <th className="font-normal">{t("trials.colTrials")}</th>
+                  <th className="font-normal">{t("col.logLik")}</th>
+                  <th className="font-normal">{t("trials.colMean")}</th>
+                </tr>
+              </thead>
+              <tbody>
+                {fit.byParticipant.map((p) => (
+                  <tr key={p.participant}>
+                    <td className="py-0.5">{p.participant || t("trials.blank")}</td>
+                    <td>{p.n}</td>
+                    <td>{p.logLik.toFixed(3)}</td>
+                    <td>{(p.logLik / p.n).toFixed(3)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,207 @@
+"use client";
+
+import React, { useState } from "react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Button } from "@/components/ui/button";
+import { NativeSelect } from "@/components/ui/native-select";
+import {
+  summarizePosterior,
+  weightLatticeSize,
+  type EmotionObservation,
+  type ModelParams,
+  type ThetaPrior,
+  type WeightInferenceOptions,
+} from "@/lib/emotion-model";
+import { itemLabel } from "@/lib/scenario-state";
+import { useI18n } from "@/hooks/use-i18n";
+import { useModelJob } from "@/hooks/use-model-job";
+import { JobStatus } from "./job-status";
+
+type WeightPosteriorJob = {
+  kind: "weightPosterior";
+  q: number[];
+  wSelf: number[];
+  params: ModelParams;
+  observations: EmotionObservation[];
+  options: WeightInferenceOptions;
+};
+
+const MAX_HYPOTHESES = 20000;
+
+export function WeightPosteriorCard({
+  q,
+  wSelf,
+  wMax,
+  names,
+  params,
+  observations,
+  thetaDeg,
+  thetaPrior,
+  thetaStep,
+  onApply,
+}: {
+  q: number[];
+  wSelf: number[];
+  wMax: number;
+  names: string[];
+  params: ModelParams;
+  observations: EmotionObservation[];
+  thetaDeg: number;
+  thetaPrior: ThetaPrior;
+  thetaStep: number;
+  onApply: (wOther: number[]) => void;
+}) {
+  const { t } = useI18n();
+  const [thetaMode, setThetaMode] = useState<"fixed" | "unknown">("fixed");
+  const [topK, setTopK] = useState(5);
+  const [seed, setSeed] = useState(1);
+  const [job, setJob] = useState<WeightPosteriorJob | null>(null);
+  const state = useModelJob(job);
+  // 品目数か w_max が変わったら古い結果は（長さ・目盛りが合わないので）出さない
+  const ran = state.resultJob?.options;
+  const current = ran !== undefined && state.resultJob?.q.length === q.length && ran.wMax === wMax;
+  const result = current ? state.result?.posterior ?? null : null;
+
+  const latticeSize = weightLatticeSize(q.length, wMax);
+
+  // 格子が大きいと重いので明示的に実行（Web Worker で計算）
+  const run = () => {
+    setJob({
+      kind: "weightPosterior",
+      q,
+      wSelf,
+      params,
+      observations,
+      options: {
+        wMax,
+        thetaDeg: thetaMode === "fixed" ? thetaDeg : null,
+        thetaPrior,
+        thetaStep,
+        maxHypotheses: MAX_HYPOTHESES,
+        seed,
+        topK,
+      },
+    });
+  };
+
+  const values = result && ran ? Array.from({ length: 2 * ran.wMax + 1 }, (_, k) => k - ran.wMax) : [];
+  const thetaSummary = result?.thetaMarginal
+    ? summarizePosterior(result.thetaMarginal.theta, result.thetaMarginal.mass)
+    : null;
+
+  return (
+    <Card className="shadow-md">
+      <CardContent className="pt-6 space-y-4">
+        <h2 className="text-lg font-medium">{t("wp.title")}</h2>
+
+        <div className="grid md:grid-cols-4 gap-3 items-end">
+          <div className="space-y-1">
+            <Label className="text-sm text-muted-foreground">θ</Label>
+            <NativeSelect value={thetaMode} aria-label="θ" onChange={(e) => setThetaMode(e.target.value as "fixed" | "unknown")}>
+              <option value="fixed">{t("wp.fixed", { theta: thetaDeg })}</option>
+              <option value="unknown">{t("wp.unknown", { step: thetaStep })}</option>
+            </NativeSelect>
+          </div>
+          <div className="space-y-1">
+            <Label className="text-sm text-muted-foreground">{t("wp.topK")}</Label>
+            <Input type="number" min={1} max={50} step={1} value={topK} aria-label={t("wp.topK")}
+              onChange={(e) => setTopK(Math.max(1, Math.min(50, parseInt(e.target.value) || 1)))} />
+          </div>
+          <div className="space-y-1">
+            <Label className="text-sm text-muted-foreground">{t("wp.seed")}</Label>
+            <Input type="number" step={1} value={seed} aria-label={t("wp.seed")} disabled={latticeSize <= MAX_HYPOTHESES}
+              onChange={(e) => setSeed(parseInt(e.target.value) || 0)} />
+          </div>
+          {state.pending
+            ? <Button variant="outline" onClick={() => setJob(null)}>{t("common.cancel")}</Button>
+            : <Button onClick={run}>{t("wp.run")}</Button>}
+        </div>
+
+        <div className="flex items-center justify-between gap-3">
+          <p className="text-xs text-muted-foreground">
+            {t("wp.summary", {
+              count: observations.length,
+              size: latticeSize.toLocaleString(),
+              detail: latticeSize > MAX_HYPOTHESES ? t("wp.sampled", { max: MAX_HYPOTHESES.toLocaleString() }) : t("wp.enumerated"),
+            })}
+          </p>
+          <JobStatus {...state} />
+        </div>
+
+        {result && (
+          <div className="grid lg:grid-cols-2 gap-6">
+            <div className="space-y-2">
+              <h3 className="text-sm font-medium">{t("wp.top", { count: result.top.length })}</h3>
+              <table className="w-full text-xs tabular-nums">
+                <thead>
+                  <tr className="text-left text-muted-foreground">
+                    <th className="font-normal">w_other</th>
+                    <th className="font-normal">p</th>
+                    <th className="font-normal">{t("col.logLik")}</th>
+                    {result.thetaMarginal && <th className="font-normal">θ MAP</th>}
+                    <th />
+                  </tr>
+                </thead>
+                <tbody>
+                  {result.top.map((h) => (
+                    <tr key={h.wOther.join(",")}>
+                      <td>[{h.wOther.join(", ")}]</td>
+                      <td>{h.prob.toFixed(4)}</td>
+                      <td>{h.logLik.toFixed(3)}</td>
+                      {result.thetaMarginal && <td>{h.thetaMap}°</td>}
+                      <td className="text-right">
+                        <Button variant="ghost" size="sm" className="h-6" onClick={() => onApply(h.wOther)}>{t("common.use")}</Button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              {thetaSummary && (
+                <p className="text-xs tabular-nums">
+                  {t("wp.thetaMarginal", {
+                    map: thetaSummary.map.toFixed(1),
+                    mean: thetaSummary.mean.toFixed(1),
+                    lower: thetaSummary.lower.toFixed(1),
+                    upper: thetaSummary.upper.toFixed(1),
+                  })}
+                </p>
+              )}
+              {result.sampled && (
+                <p className="text-xs text-muted-foreground">
+                  {t("wp.normalized", { count: result.evaluated.toLocaleString() })}
+                </p>
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <h3 className="text-sm font-medium">{t("wp.marginals")}</h3>
+              <table className="w-full text-xs tabular-nums">
+                <thead>
+                  <tr className="text-muted-foreground">
+                    <th />
+                    {values.map((v) => <th key={v} className="font-normal">{v}</th>)}
+                  </tr>
+                </thead>
+                <tbody>
+                  {result.marginals.map((row, i) => (
+                    <tr key={i}>
+                      <td className="pr-2 truncate">{itemLabel(names, i)}</td>
+                      {row.map((p, k) => (
+                        <td key={k} className="text-center" title={p.toFixed(4)}
+                          style={{ background: `rgba(37, 99, 235, ${p.toFixed(3)})`, color: p > 0.5 ? "white" : undefined }}>
+                          {p >= 0.005 ? p.toFixed(2) : ""}
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,58 @@
+"use client";
+
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useState } from "react";
+import { isLocale, translate, type Locale, type MessageKey, type MessageVars } from "@/lib/i18n";
+
+const STORAGE_KEY = "emotion-likelihood:locale";
+
+export interface I18n {
+  locale: Locale;
+  setLocale: (locale: Locale) => void;
+  t: (key: MessageKey, vars?: MessageVars) => string;
+}
+
+// Provider の外では英語のまま
+const I18nContext = createContext<I18n>({
+  locale: "en",
+  setLocale: () => {},
+  t: (key, vars) => translate("en", key, vars),
+});
+
+// 表示言語を保持し、localStorage と <html lang> に反映する
+export function I18nProvider({ children }: { children: React.ReactNode }) {
+  const [locale, setLocaleState] = useState<Locale>("en");
+
+  // localStorage はクライアントでのみ読む（使えなければ英語のまま）
+  useEffect(() => {
+    try {
+      const saved = window.localStorage.getItem(STORAGE_KEY);
+      if (isLocale(saved)) setLocaleState(saved);
+    } catch {
+      // プライベートモードや sandbox の iframe では読めない
+    }
+  }, []);
+
+  useEffect(() => {
+    document.documentElement.lang = locale;
+  }, [locale]);
+
+  const setLocale = useCallback((next: Locale) => {
+    setLocaleState(next);
+    try {
+      window.localStorage.setItem(STORAGE_KEY, next);
+    } catch {
+      // 保存できなくても今のページでは切り替える
+    }
+  }, []);
+
+  const value = useMemo<I18n>(
+    () => ({ locale, setLocale, t: (key, vars) => translate(locale, key, vars) }),
+    [locale, setLocale],
+  );
+
+  return <I18nContext.Provider value={value}>{children}</I18nContext.Provider>;
+}
+
+export function useI18n(): I18n {
+  return useContext(I18nContext);
+}
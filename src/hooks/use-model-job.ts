@@ -0,0 +1,60 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import type { ModelJob, ModelJobResult, WorkerRequest, WorkerResponse } from "@/lib/emotion-model/worker-protocol";
+
+type ResultOf<K extends ModelJob["kind"]> = Extract<ModelJobResult, { kind: K }>;
+
+type JobOf<K extends ModelJob["kind"]> = Extract<ModelJob, { kind: K }>;
+
+export interface ModelJobState<K extends ModelJob["kind"]> {
+  result: ResultOf<K> | null; // 計算中・キャンセル後も直前の結果を残す
+  resultJob: JobOf<K> | null; // result を出したジョブ
+  pending: boolean;
+  progress: number; // [0, 1]
+  error: string | null;
+}
+
+// job が変わるたびに専用ワーカーへ投げ、古いジョブは打ち切る（job = null で停止）
+export function useModelJob<K extends ModelJob["kind"]>(job: JobOf<K> | null): ModelJobState<K> {
+  const workerRef = useRef<Worker | null>(null);
+  const idRef = useRef(0);
+  const runningRef = useRef<JobOf<K> | null>(null);
+  const [state, setState] = useState<ModelJobState<K>>({ result: null, resultJob: null, pending: false, progress: 0, error: null });
+
+  useEffect(() => {
+    const worker = new Worker(new URL("../lib/emotion-model/model.worker.ts", import.meta.url));
+    worker.onmessage = (e: MessageEvent<WorkerResponse>) => {
+      const msg = e.data;
+      if (msg.id !== idRef.current) return; // 古いジョブの応答
+      if (msg.type === "progress") {
+        setState((s) => ({ ...s, progress: msg.total > 0 ? msg.done / msg.total : 1 }));
+      } else if (msg.type === "result") {
+        setState({ result: msg.result as ResultOf<K>, resultJob: runningRef.current, pending: false, progress: 1, error: null });
+      } else {
+        setState((s) => ({ ...s, pending: false, error: msg.message }));
+      }
+    };
+    workerRef.current = worker;
+    return () => {
+      worker.terminate();
+      workerRef.current = null;
+    };
+  }, []);
+
+  useEffect(() => {
+    const worker = workerRef.current;
+    if (!worker) return;
+    const id = ++idRef.current;
+    if (job === null) {
+      worker.postMessage({ type: "cancel", id: id - 1 } satisfies WorkerRequest);
+      setState((s) => ({ ...s, pending: false }));
+      return;
+    }
+    runningRef.current = job;
+    setState((s) => ({ ...s, pending: true, progress: 0, error: null }));
+    worker.postMessage({ type: "run", id, job } satisfies WorkerRequest);
+  }, [job]);
+
+  return state;
+}
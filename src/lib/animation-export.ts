@@ -0,0 +1,80 @@
+/*
+  θ アニメーションの書き出し
+  - フレームは θ ごとの PNG（chartToSvg → svgToCanvas で作ったもの）
+  - ZIP（フレームごとの PNG）、GIF（自前エンコード）、WebM（MediaRecorder で canvas を録画）
+*/
+
+import { GIF_TRAILER, gifFrame, gifHeader } from "@/lib/gif";
+import { zipStore } from "@/lib/zip";
+
+export interface AnimationFrame {
+  thetaDeg: number;
+  png: Blob;
+}
+
+export type AnimationFormat = "gif" | "webm" | "zip";
+
+export const webmSupported = () =>
+  typeof MediaRecorder !== "undefined" && MediaRecorder.isTypeSupported("video/webm");
+
+// 000_theta-90.png のように並び順と θ が分かる名前
+const frameName = (f: AnimationFrame, i: number) => `${String(i).padStart(3, "0")}_theta${f.thetaDeg}.png`;
+
+// エンコード中のキャンセル確認（true なら途中でやめて null を返す）
+export type IsCancelled = () => boolean;
+
+export async function framesToZip(frames: AnimationFrame[]): Promise<Blob> {
+  const entries = await Promise.all(
+    frames.map(async (f, i) => ({ name: frameName(f, i), data: new Uint8Array(await f.png.arrayBuffer()) })),
+  );
+  return zipStore(entries);
+}
+
+async function decodeFrame(png: Blob, canvas: HTMLCanvasElement) {
+  const bitmap = await createImageBitmap(png);
+  canvas.width = bitmap.width;
+  canvas.height = bitmap.height;
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("canvas 2D context unavailable");
+  ctx.drawImage(bitmap, 0, 0);
+  bitmap.close();
+  return ctx;
+}
+
+// 1 フレームずつ復号してエンコード（全フレームの画素を同時に持たない）
+export async function framesToGif(frames: AnimationFrame[], fps: number, isCancelled: IsCancelled = () => false): Promise<Blob | null> {
+  if (frames.length === 0) throw new Error("no frames");
+  const canvas = document.createElement("canvas");
+  const parts: Uint8Array[] = [];
+  for (const f of frames) {
+    if (isCancelled()) return null;
+    const ctx = await decodeFrame(f.png, canvas);
+    const { width, height } = canvas;
+    if (parts.length === 0) parts.push(gifHeader(width, height));
+    parts.push(gifFrame(ctx.getImageData(0, 0, width, height).data, width, height, 100 / fps));
+    await new Promise((r) => setTimeout(r, 0)); // 画面を固めない
+  }
+  parts.push(GIF_TRAILER);
+  return new Blob(parts as BlobPart[], { type: "image/gif" });
+}
+
+// 実時間で再生しながら録画するので、所要時間 ≒ フレーム数 / fps
+export async function framesToWebm(frames: AnimationFrame[], fps: number, isCancelled: IsCancelled = () => false): Promise<Blob | null> {
+  if (frames.length === 0) throw new Error("no frames");
+  if (!webmSupported()) throw new Error("WebM recording is not supported in this browser");
+  const canvas = document.createElement("canvas");
+  await decodeFrame(frames[0].png, canvas);
+  const recorder = new MediaRecorder(canvas.captureStream(fps), { mimeType: "video/webm" });
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (e) => chunks.push(e.data);
+  const stopped = new Promise<void>((resolve) => { recorder.onstop = () => resolve(); });
+  recorder.start();
+  for (const f of frames) {
+    if (isCancelled()) break;
+    await decodeFrame(f.png, canvas);
+    await new Promise((r) => setTimeout(r, 1000 / fps));
+  }
+  recorder.stop();
+  await stopped;
+  return isCancelled() ? null : new Blob(chunks, { type: "video/webm" });
+}
@@ -0,0 +1,86 @@
+import { describe, expect, it } from "vitest";
+import { MAX_CANDIDATES } from "@/lib/emotion-model";
+import { DEFAULT_SCENARIO } from "@/lib/scenario-state";
+import { MAX_THETAS, parseEvaluateRequest } from "./batch-evaluate";
+
+const errorsOf = (raw: unknown) => {
+  const r = parseEvaluateRequest(raw);
+  return r.ok ? [] : r.errors;
+};
+
+describe("parseEvaluateRequest", () => {
+  it("scenario だけなら θ は thetaStep 刻み、候補あり、JSON の θ 表", () => {
+    const r = parseEvaluateRequest({ scenario: DEFAULT_SCENARIO });
+    expect(r.ok).toBe(true);
+    if (!r.ok) return;
+    expect(r.value.thetas).toHaveLength(181);
+    expect(r.value).toMatchObject({ candidates: true, format: "json", table: "theta" });
+  });
+
+  it("Export JSON のファイル（version 付き）もそのまま受け付ける", () => {
+    expect(parseEvaluateRequest({ version: 1, scenario: DEFAULT_SCENARIO }).ok).toBe(true);
+  });
+
+  it("{ from, to, step } は両端を含む θ 列になる", () => {
+    const r = parseEvaluateRequest({ scenario: DEFAULT_SCENARIO, thetas: { from: 0, to: 1, step: 0.25 } });
+    expect(r.ok && r.value.thetas).toEqual([0, 0.25, 0.5, 0.75, 1]);
+  });
+
+  it("オブジェクトでない要求と未対応の version は断る", () => {
+    expect(errorsOf([])).toEqual(["request must be a JSON object"]);
+    expect(errorsOf(null)).toEqual(["request must be a JSON object"]);
+    expect(errorsOf({ version: 2, scenario: DEFAULT_SCENARIO })).toEqual(["unsupported version 2 (expected 1)"]);
+  });
+
+  it("シナリオのエラーには scenario. を付ける", () => {
+    expect(errorsOf({ scenario: { ...DEFAULT_SCENARIO, beta: -1 } })).toEqual(["scenario.beta must be a number between 0 and 100 (got -1)"]);
+  });
+
+  it("θ 列の範囲外・非有限の値は実際の値を示す", () => {
+    expect(errorsOf({ scenario: DEFAULT_SCENARIO, thetas: [0, 91, NaN, "5"] })).toEqual([
+      "thetas[1] must be a number between -90 and 90 (got 91)",
+      "thetas[2] must be a number between -90 and 90 (got NaN)",
+      "thetas[3] must be a number between -90 and 90 (got \"5\")",
+    ]);
+    expect(errorsOf({ scenario: DEFAULT_SCENARIO, thetas: { step: Infinity } })).toEqual(["thetas.step must be a positive number (got Infinity)"]);
+  });
+
+  it("θ 列が空・多すぎる・逆順なら断る", () => {
+    expect(errorsOf({ scenario: DEFAULT_SCENARIO, thetas: [] })).toEqual([`thetas must have between 1 and ${MAX_THETAS} entries (got 0)`]);
+    expect(errorsOf({ scenario: DEFAULT_SCENARIO, thetas: { from: -90, to: 90, step: 0.001 } }))
+      .toEqual([`thetas gives more than ${MAX_THETAS} angles; use a larger step`]);
+    expect(errorsOf({ scenario: DEFAULT_SCENARIO, thetas: { from: 10, to: 0, step: 1 } })).toEqual(["thetas.to must not be less than thetas.from"]);
+    expect(errorsOf({ scenario: DEFAULT_SCENARIO, thetas: 45 })).toEqual(["thetas must be an array of angles or { from, to, step } (got 45)"]);
+  });
+
+  it("オプションのエラーはまとめて返す", () => {
+    expect(errorsOf({ scenario: DEFAULT_SCENARIO, candidates: "yes", format: "xml", table: "rows" })).toEqual([
+      "candidates must be true or false (got \"yes\")",
+      "format must be one of json, csv (got \"xml\")",
+      "table must be one of theta, candidates (got \"rows\")",
+    ]);
+  });
+
+  it("候補の CSV には candidates: true が要る", () => {
+    expect(errorsOf({ scenario: DEFAULT_SCENARIO, format: "csv", table: "candidates", candidates: false }))
+      .toEqual(["table \"candidates\" needs candidates: true"]);
+  });
+
+  it("候補数が上限を超えるなら candidates: false でだけ受け付ける", () => {
+    const n = 6;
+    const zeros = new Array<number>(n).fill(0);
+    const scenario = {
+      ...DEFAULT_SCENARIO,
+      names: undefined,
+      q: new Array<number>(n).fill(9),
+      x: zeros,
+      wSelf: zeros,
+      wOther: zeros,
+      satisfaction: { ...DEFAULT_SCENARIO.satisfaction, reference: [] },
+    };
+    expect(errorsOf({ scenario })).toEqual([
+      `scenario has 1,000,000 candidate offers (limit ${MAX_CANDIDATES.toLocaleString("en-US")}); reduce q or set candidates: false`,
+    ]);
+    expect(parseEvaluateRequest({ scenario, candidates: false }).ok).toBe(true);
+  });
+});
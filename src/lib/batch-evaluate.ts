@@ -0,0 +1,148 @@
+/*
+  ブラウザなしの一括評価（API ルート /api/evaluate と CLI scripts/evaluate.ts で共用）
+  - 入力はシナリオ JSON（Export JSON のファイルそのまま、または { scenario } だけ）に任意のオプションを足したもの
+      thetas: θ 列（deg）の配列、または { from, to, step }。省略時は画面と同じ [−90, 90] の thetaStep 刻み
+      candidates: false で候補の分類を省く
+      format: "json"（既定）| "csv"、table: CSV にする表 "theta"（既定）| "candidates"
+  - 計算は画面と同じ関数（重みの切り詰め → thetaScanAt / evaluateCandidates）なので、同じシナリオなら同じ数値になる
+*/
+
+import {
+  EMOTIONS,
+  MAX_CANDIDATES,
+  countCandX,
+  evaluateCandidates,
+  thetaGrid,
+  thetaScanAt,
+  type CandidateEval,
+  type ThetaScanRow,
+} from "@/lib/emotion-model";
+import { toCsv, type CsvValue } from "@/lib/csv";
+import {
+  SCENARIO_VERSION,
+  describeValue,
+  itemLabel,
+  scenarioModelInputs,
+  validateScenarioState,
+  type ParseResult,
+  type ScenarioState,
+} from "@/lib/scenario-state";
+
+export type EvaluateFormat = "json" | "csv";
+export type EvaluateTable = "theta" | "candidates";
+
+export interface EvaluateRequest {
+  scenario: ScenarioState;
+  thetas: number[];
+  candidates: boolean;
+  format: EvaluateFormat;
+  table: EvaluateTable;
+}
+
+export interface EvaluateResult {
+  scenario: ScenarioState;
+  thetaScan: ThetaScanRow[];
+  candidates: CandidateEval[] | null; // scenario.thetaDeg での全候補
+}
+
+export const MAX_THETAS = 10000;
+
+const isNum = (v: unknown): v is number => typeof v === "number" && Number.isFinite(v);
+
+function parseThetas(errors: string[], v: unknown, fallbackStep: number): number[] {
+  if (v === undefined) return thetaGrid(fallbackStep);
+  if (Array.isArray(v)) {
+    if (v.length === 0 || v.length > MAX_THETAS) errors.push(`thetas must have between 1 and ${MAX_THETAS} entries (got ${v.length})`);
+    v.forEach((t, i) => {
+      if (!isNum(t) || t < -90 || t > 90) errors.push(`thetas[${i}] must be a number between -90 and 90 (got ${describeValue(t)})`);
+    });
+    return v as number[];
+  }
+  if (typeof v === "object" && v !== null) {
+    const { from = -90, to = 90, step } = v as Record<string, unknown>;
+    const before = errors.length;
+    if (!isNum(from) || from < -90 || from > 90) errors.push(`thetas.from must be a number between -90 and 90 (got ${describeValue(from)})`);
+    if (!isNum(to) || to < -90 || to > 90) errors.push(`thetas.to must be a number between -90 and 90 (got ${describeValue(to)})`);
+    if (!isNum(step) || step <= 0) errors.push(`thetas.step must be a positive number (got ${describeValue(step)})`);
+    if (errors.length > before) return [];
+    const [lo, hi, s] = [from as number, to as number, step as number];
+    if (hi < lo) errors.push("thetas.to must not be less than thetas.from");
+    else if ((hi - lo) / s + 1 > MAX_THETAS) errors.push(`thetas gives more than ${MAX_THETAS} angles; use a larger step`);
+    if (errors.length > before) return [];
+    // 刻みの誤差が溜まらないよう添字から計算
+    return Array.from({ length: Math.floor((hi - lo) / s + 1e-9) + 1 }, (_, k) => lo + k * s);
+  }
+  errors.push(`thetas must be an array of angles or { from, to, step } (got ${describeValue(v)})`);
+  return [];
+}
+
+function checkChoice<T extends string>(errors: string[], key: string, v: unknown, choices: readonly T[], fallback: T): T {
+  if (v === undefined) return fallback;
+  if (choices.includes(v as T)) return v as T;
+  errors.push(`${key} must be one of ${choices.join(", ")} (got ${describeValue(v)})`);
+  return fallback;
+}
+
+// 任意の値を一括評価の要求として検証（エラーはまとめて返す）
+export function parseEvaluateRequest(raw: unknown): ParseResult<EvaluateRequest> {
+  if (typeof raw !== "object" || raw === null || Array.isArray(raw)) {
+    return { ok: false, errors: ["request must be a JSON object"] };
+  }
+  const r = raw as Record<string, unknown>;
+  if (r.version !== undefined && r.version !== SCENARIO_VERSION) {
+    return { ok: false, errors: [`unsupported version ${describeValue(r.version)} (expected ${SCENARIO_VERSION})`] };
+  }
+  const scenario = validateScenarioState(r.scenario);
+  if (!scenario.ok) return { ok: false, errors: scenario.errors.map((e) => `scenario.${e}`) };
+
+  const errors: string[] = [];
+  const thetas = parseThetas(errors, r.thetas, scenario.value.thetaStep);
+  if (r.candidates !== undefined && typeof r.candidates !== "boolean") {
+    errors.push(`candidates must be true or false (got ${describeValue(r.candidates)})`);
+  }
+  const candidates = r.candidates !== false;
+  const format = checkChoice(errors, "format", r.format, ["json", "csv"] as const, "json");
+  const table = checkChoice(errors, "table", r.table, ["theta", "candidates"] as const, "theta");
+  if (format === "csv" && table === "candidates" && !candidates) errors.push("table \"candidates\" needs candidates: true");
+  const count = countCandX(scenario.value.q);
+  if (candidates && count > MAX_CANDIDATES) {
+    errors.push(`scenario has ${count.toLocaleString("en-US")} candidate offers (limit ${MAX_CANDIDATES.toLocaleString("en-US")}); reduce q or set candidates: false`);
+  }
+  if (errors.length > 0) return { ok: false, errors };
+  return { ok: true, value: { scenario: scenario.value, thetas, candidates, format, table } };
+}
+
+export function evaluateScenario(req: EvaluateRequest): EvaluateResult {
+  const { scenario, params } = scenarioModelInputs(req.scenario);
+  return {
+    scenario: req.scenario,
+    thetaScan: thetaScanAt(scenario, params, req.thetas),
+    candidates: req.candidates ? evaluateCandidates(req.scenario.thetaDeg, scenario, params) : null,
+  };
+}
+
+// ---- 表（画面の CSV 書き出しと同じ列） ----
+
+export function thetaScanTable(rows: ThetaScanRow[]): { columns: string[]; rows: CsvValue[][] } {
+  return {
+    columns: ["theta", "U", "U_max", "S", ...EMOTIONS.map((e) => `P_${e}`)],
+    rows: rows.map((r) => [r.theta, r.u, r.umax, r.S, ...EMOTIONS.map((e) => r[e])]),
+  };
+}
+
+export function candidateTable(candidates: CandidateEval[], itemLabels: string[]): { columns: string[]; rows: CsvValue[][] } {
+  return {
+    columns: [...itemLabels.map((l) => `x_${l}`), "selfValue", "otherValue", "U", "S", ...EMOTIONS.map((e) => `P_${e}`), "emotion"],
+    rows: candidates.map((c) => [...c.x, c.selfValue, c.otherValue, c.u, c.S, ...EMOTIONS.map((e) => c.probs[e]), c.emotion]),
+  };
+}
+
+// 要求の format / table に従った本文
+export function formatEvaluateResult(req: EvaluateRequest, result: EvaluateResult): { body: string; contentType: string } {
+  if (req.format === "json") {
+    return { body: JSON.stringify(result, null, 2) + "\n", contentType: "application/json" };
+  }
+  const labels = result.scenario.q.map((_, i) => itemLabel(result.scenario.names, i));
+  const t = req.table === "candidates" ? candidateTable(result.candidates ?? [], labels) : thetaScanTable(result.thetaScan);
+  return { body: toCsv(t.columns, t.rows), contentType: "text/csv; charset=utf-8" };
+}
@@ -0,0 +1,101 @@
+/*
+  Recharts のグラフを SVG / PNG として書き出す
+  - Recharts の Legend は HTML なので、凡例は SVG 要素として描き直して下に足す
+*/
+
+export interface LegendEntry {
+  label: string;
+  color: string;
+  dashed?: boolean;
+  marker?: "line" | "circle";
+}
+
+const SVG_NS = "http://www.w3.org/2000/svg";
+const LEGEND_ROW = 20;
+
+// container 内の最初の recharts-surface（または data-export-surface を付けた SVG）を複製し、白背景と凡例を付けた SVG 文字列を返す
+export function chartToSvg(container: HTMLElement, legend: LegendEntry[]): { svg: string; width: number; height: number } {
+  const surface = container.querySelector<SVGSVGElement>("svg.recharts-surface, svg[data-export-surface]");
+  if (!surface) throw new Error("chart SVG not found");
+  const { width, height: chartHeight } = surface.getBoundingClientRect();
+  const height = chartHeight + (legend.length > 0 ? LEGEND_ROW + 8 : 0);
+
+  const svg = surface.cloneNode(true) as SVGSVGElement;
+  svg.setAttribute("xmlns", SVG_NS);
+  svg.setAttribute("width", String(width));
+  svg.setAttribute("height", String(height));
+  svg.setAttribute("viewBox", `0 0 ${width} ${height}`);
+  svg.setAttribute("font-family", getComputedStyle(container).fontFamily);
+  svg.setAttribute("font-size", "12");
+
+  const bg = document.createElementNS(SVG_NS, "rect");
+  bg.setAttribute("width", "100%");
+  bg.setAttribute("height", "100%");
+  bg.setAttribute("fill", "white");
+  svg.insertBefore(bg, svg.firstChild);
+
+  // 凡例を 1 行で中央寄せ（全角文字は幅 2 文字分で見積もる）
+  const textWidth = (s: string) => [...s].reduce((w, ch) => w + (ch.charCodeAt(0) > 0x2e7f ? 12 : 7), 0);
+  const itemWidth = (e: LegendEntry) => 24 + textWidth(e.label) + 16;
+  const total = legend.reduce((s, e) => s + itemWidth(e), 0);
+  let cx = Math.max(0, (width - total) / 2);
+  const y = chartHeight + LEGEND_ROW / 2 + 4;
+  for (const e of legend) {
+    let mark: SVGElement;
+    if (e.marker === "circle") {
+      mark = document.createElementNS(SVG_NS, "circle");
+      mark.setAttribute("cx", String(cx + 9));
+      mark.setAttribute("cy", String(y));
+      mark.setAttribute("r", "5");
+      mark.setAttribute("fill", e.color);
+    } else {
+      mark = document.createElementNS(SVG_NS, "line");
+      mark.setAttribute("x1", String(cx));
+      mark.setAttribute("x2", String(cx + 18));
+      mark.setAttribute("y1", String(y));
+      mark.setAttribute("y2", String(y));
+      mark.setAttribute("stroke", e.color);
+      mark.setAttribute("stroke-width", "4");
+      if (e.dashed) mark.setAttribute("stroke-dasharray", "4 3");
+    }
+    const text = document.createElementNS(SVG_NS, "text");
+    text.setAttribute("x", String(cx + 24));
+    text.setAttribute("y", String(y + 4));
+    text.setAttribute("fill", "#333");
+    text.textContent = e.label;
+    svg.append(mark, text);
+    cx += itemWidth(e);
+  }
+
+  return { svg: new XMLSerializer().serializeToString(svg), width, height };
+}
+
+// SVG 文字列を canvas に描く（scale 倍の解像度で）
+export function svgToCanvas(svg: string, width: number, height: number, scale = 2): Promise<HTMLCanvasElement> {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => {
+      const canvas = document.createElement("canvas");
+      canvas.width = Math.round(width * scale);
+      canvas.height = Math.round(height * scale);
+      const ctx = canvas.getContext("2d");
+      if (!ctx) return reject(new Error("canvas 2D context unavailable"));
+      ctx.scale(scale, scale);
+      ctx.drawImage(img, 0, 0, width, height);
+      resolve(canvas);
+    };
+    img.onerror = () => reject(new Error("could not rasterize SVG"));
+    img.src = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+  });
+}
+
+export function canvasToPng(canvas: HTMLCanvasElement): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob((b) => (b ? resolve(b) : reject(new Error("PNG encoding failed"))), "image/png");
+  });
+}
+
+// SVG 文字列を canvas に描いて PNG にする
+export async function svgToPng(svg: string, width: number, height: number, scale = 2): Promise<Blob> {
+  return canvasToPng(await svgToCanvas(svg, width, height, scale));
+}
@@ -0,0 +1,30 @@
+import { describe, expect, it } from "vitest";
+import { parseCsv, toCsv } from "./csv";
+
+describe("parseCsv", () => {
+  it("引用セル内の , \"\" 改行はセルの一部", () => {
+    expect(parseCsv('a,"b,c","say ""hi""","two\nlines"\n')).toEqual([["a", "b,c", 'say "hi"', "two\nlines"]]);
+  });
+
+  it("CRLF・CR 改行を受け付け、空行は飛ばす", () => {
+    expect(parseCsv("a,b\r\n\r\n1,2\r3,4")).toEqual([["a", "b"], ["1", "2"], ["3", "4"]]);
+  });
+
+  it("空のセルは残す（全部空の行だけ飛ばす）", () => {
+    expect(parseCsv("a,,c\n,,\n,b,")).toEqual([["a", "", "c"], ["", "b", ""]]);
+  });
+
+  it("空の入力は行なし", () => {
+    expect(parseCsv("")).toEqual([]);
+  });
+});
+
+describe("toCsv", () => {
+  it("parseCsv で元の値（文字列）に戻る", () => {
+    const rows = [["x,y", 'q"uote', "line\nbreak", 1.5, true, null]];
+    expect(parseCsv(toCsv(["a", "b", "c", "d", "e", "f"], rows))).toEqual([
+      ["a", "b", "c", "d", "e", "f"],
+      ["x,y", 'q"uote', "line\nbreak", "1.5", "true", ""],
+    ]);
+  });
+});
@@ -0,0 +1,12 @@
+// ブラウザでファイルとして保存
+export function downloadBlob(filename: string, blob: Blob) {
+  const a = document.createElement("a");
+  a.href = URL.createObjectURL(blob);
+  a.download = filename;
+  a.click();
+  setTimeout(() => URL.revokeObjectURL(a.href), 0);
+}
+
+export function downloadText(filename: string, text: string, type = "text/plain") {
+  downloadBlob(filename, new Blob([text], { type }));
+}
@@ -0,0 +1,54 @@
+import { argmaxEmotion } from "./model";
+import { EMOTIONS, type CandidateEval, type Emotion, type EmotionProbs } from "./types";
+
+// 同じ (selfValue, otherValue) に落ちる候補の集約
+export interface PointAggregate {
+  sx: number;
+  oy: number;
+  count: number;
+  members: CandidateEval[];
+  probs: EmotionProbs; // 候補間の平均
+  emotion: Emotion; // 平均確率の argmax
+  emotionCounts: Record<Emotion, number>; // 候補ごとの argmax の内訳
+}
+
+export function aggregateCandidates(candidates: CandidateEval[]): PointAggregate[] {
+  const byPoint = new Map<string, CandidateEval[]>();
+  for (const c of candidates) {
+    const key = `${c.selfValue},${c.otherValue}`;
+    const list = byPoint.get(key);
+    if (list) list.push(c);
+    else byPoint.set(key, [c]);
+  }
+  return [...byPoint.values()].map((members) => {
+    const probs = Object.fromEntries(EMOTIONS.map((e) => [e, 0])) as EmotionProbs;
+    const emotionCounts = Object.fromEntries(EMOTIONS.map((e) => [e, 0])) as Record<Emotion, number>;
+    for (const m of members) {
+      for (const e of EMOTIONS) probs[e] += m.probs[e] / members.length;
+      emotionCounts[m.emotion]++;
+    }
+    return {
+      sx: members[0].selfValue,
+      oy: members[0].otherValue,
+      count: members.length,
+      members,
+      probs,
+      emotion: argmaxEmotion(probs),
+      emotionCounts,
+    };
+  });
+}
+
+// (sx, oy) を両方最大化する意味での非劣解（sx 昇順）
+export function paretoFrontier<T extends { sx: number; oy: number }>(points: T[]): T[] {
+  const sorted = [...points].sort((a, b) => b.sx - a.sx || b.oy - a.oy);
+  const front: T[] = [];
+  let bestOy = -Infinity;
+  for (const p of sorted) {
+    if (p.oy > bestOy) {
+      front.push(p);
+      bestOy = p.oy;
+    }
+  }
+  return front.reverse();
+}
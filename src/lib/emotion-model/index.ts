@@ -0,0 +1,15 @@
+export * from "./types";
+export * from "./math";
+export * from "./steps";
+export * from "./model";
+export * from "./scan";
+export * from "./inference";
+export * from "./random";
+export * from "./weight-inference";
+export * from "./recommend";
+export * from "./aggregate";
+export * from "./mapping";
+export * from "./satisfaction";
+export * from "./simulation";
+export * from "./sweep";
+export * from "./uncertainty";
@@ -0,0 +1,122 @@
+import { deg2rad } from "./math";
+import { satisfactionModel } from "./satisfaction";
+import { emotionProbsAt, thetaGrid } from "./scan";
+import type { Emotion, ModelParams, ScenarioSetup } from "./types";
+
+// 観測: 提案 x に対して other が表出した感情
+export interface EmotionObservation {
+  x: number[];
+  emotion: Emotion;
+}
+
+// θ の事前分布
+//   vonMises: p(θ) ∝ exp(κ cos(θ − μ))（μ は deg）
+//   custom:   [−90, 90] に等間隔に置いた節点の重みを線形補間
+export type ThetaPrior =
+  | { kind: "uniform" }
+  | { kind: "vonMises"; mu: number; kappa: number }
+  | { kind: "custom"; knots: number[] };
+
+export interface ThetaPosterior {
+  theta: number[]; // deg
+  prior: number[]; // 正規化済み（グリッド上の確率質量）
+  posterior: number[];
+  logEvidence: number; // log Σ_θ p(θ) Π p(E | θ, x)
+}
+
+export interface PosteriorSummary {
+  map: number;
+  mean: number;
+  sd: number;
+  level: number;
+  lower: number; // 等裾信用区間
+  upper: number;
+}
+
+function normalize(w: number[]) {
+  const total = w.reduce((s, v) => s + v, 0);
+  return total > 0 ? w.map((v) => v / total) : w.map(() => 1 / w.length);
+}
+
+// 節点列を θ ∈ [−90, 90] 上で線形補間
+function interpolateKnots(knots: number[], th: number) {
+  if (knots.length === 0) return 1;
+  if (knots.length === 1) return knots[0];
+  const pos = ((th + 90) / 180) * (knots.length - 1);
+  const i = Math.min(knots.length - 2, Math.floor(pos));
+  const t = pos - i;
+  return knots[i] * (1 - t) + knots[i + 1] * t;
+}
+
+export function priorWeights(prior: ThetaPrior, theta: number[]): number[] {
+  switch (prior.kind) {
+    case "uniform":
+      return normalize(theta.map(() => 1));
+    case "vonMises":
+      return normalize(theta.map((th) => Math.exp(prior.kappa * Math.cos(deg2rad(th - prior.mu)))));
+    case "custom":
+      return normalize(theta.map((th) => Math.max(0, interpolateKnots(prior.knots, th))));
+  }
+}
+
+// 観測列の下での θ 事後分布（θ グリッドは thetaScan と同じ）
+export function thetaPosterior(
+  setup: ScenarioSetup,
+  params: ModelParams,
+  observations: EmotionObservation[],
+  prior: ThetaPrior,
+  thetaStep: number,
+): ThetaPosterior {
+  const theta = thetaGrid(thetaStep);
+  const priorW = priorWeights(prior, theta);
+  const satisfaction = satisfactionModel(setup, params);
+  // 対数空間で尤度を積む
+  const logPost = theta.map((th, j) => {
+    const at = satisfaction(deg2rad(th));
+    let lp = Math.log(priorW[j]);
+    for (const obs of observations) {
+      lp += Math.log(emotionProbsAt(at, obs.x, params)[obs.emotion]);
+    }
+    return lp;
+  });
+  const m = Math.max(...logPost);
+  const unnorm = logPost.map((lp) => Math.exp(lp - m));
+  const z = unnorm.reduce((s, v) => s + v, 0);
+  return {
+    theta,
+    prior: priorW,
+    posterior: unnorm.map((v) => v / z),
+    logEvidence: m + Math.log(z),
+  };
+}
+
+export function summarizePosterior(theta: number[], mass: number[], level = 0.95): PosteriorSummary {
+  let best = 0;
+  let mean = 0;
+  for (let j = 0; j < theta.length; j++) {
+    if (mass[j] > mass[best]) best = j;
+    mean += theta[j] * mass[j];
+  }
+  let variance = 0;
+  for (let j = 0; j < theta.length; j++) variance += mass[j] * (theta[j] - mean) ** 2;
+
+  // 累積質量が (1 − level)/2 と (1 + level)/2 を越える点
+  const lo = (1 - level) / 2;
+  const hi = (1 + level) / 2;
+  let cum = 0;
+  let lower = theta[0];
+  let upper = theta[theta.length - 1];
+  let foundLower = false;
+  for (let j = 0; j < theta.length; j++) {
+    cum += mass[j];
+    if (!foundLower && cum >= lo) {
+      lower = theta[j];
+      foundLower = true;
+    }
+    if (cum >= hi) {
+      upper = theta[j];
+      break;
+    }
+  }
+  return { map: theta[best], mean, sd: Math.sqrt(variance), level, lower, upper };
+}
@@ -0,0 +1,92 @@
+import { emotionScoresFromS } from "./model";
+import {
+  EMOTIONS,
+  type EmotionMappingConfig,
+  type EmotionMappingId,
+  type EmotionScores,
+  type EmotionThresholds,
+  type ModelParamSpec,
+} from "./types";
+
+export interface EmotionMapping {
+  id: EmotionMappingId;
+  label: string;
+  params: ModelParamSpec[];
+  scores: (S: number, th: EmotionThresholds, params: Record<string, number>) => EmotionScores;
+}
+
+const sigmoid = (z: number) => 1 / (1 + Math.exp(-z));
+
+// 各感情の代表的な S（しきい値から決める）
+const prototypes = (th: EmotionThresholds): EmotionScores => ({
+  Anger: th.tau1 / 2,
+  Sad: th.tau1 + th.sadBand / 2,
+  Neutral: (th.tau1 + th.sadBand + th.tau2) / 2,
+  Joy: (th.tau2 + 1) / 2,
+});
+
+export const EMOTION_MAPPINGS: EmotionMapping[] = [
+  {
+    id: "piecewise",
+    label: "Piecewise (hard thresholds)",
+    params: [],
+    scores: (S, th) => emotionScoresFromS(S, th),
+  },
+  {
+    // logit_E = −|S − c_E| / T（c_E は代表 S）
+    id: "softmax",
+    label: "Softmax over logits of S",
+    params: [{ key: "temperature", label: "T (softmax)", min: 0.005, max: 0.5, step: 0.005, default: 0.05 }],
+    scores: (S, th, p) => {
+      const c = prototypes(th);
+      const T = Math.max(1e-6, p.temperature);
+      const logits = EMOTIONS.map((e) => -Math.abs(S - c[e]) / T);
+      const m = Math.max(...logits);
+      const w = logits.map((l) => Math.exp(l - m));
+      const z = w.reduce((a, b) => a + b, 0);
+      return Object.fromEntries(EMOTIONS.map((e, i) => [e, w[i] / z])) as EmotionScores;
+    },
+  },
+  {
+    // 順序ロジット: τ1, τ1 + sadBand, τ2 を越える確率を σ((S − τ) / k) で与える
+    id: "sigmoid",
+    label: "Sigmoid thresholds (ordinal)",
+    params: [{ key: "width", label: "k (sigmoid)", min: 0.002, max: 0.2, step: 0.002, default: 0.02 }],
+    scores: (S, th, p) => {
+      const k = Math.max(1e-6, p.width);
+      const aboveAnger = sigmoid((S - th.tau1) / k);
+      const aboveSad = Math.min(aboveAnger, sigmoid((S - th.tau1 - th.sadBand) / k));
+      const aboveNeutral = Math.min(aboveSad, sigmoid((S - th.tau2) / k));
+      return {
+        Anger: 1 - aboveAnger,
+        Sad: aboveAnger - aboveSad,
+        Neutral: aboveSad - aboveNeutral,
+        Joy: aboveNeutral,
+      };
+    },
+  },
+];
+
+export function getEmotionMapping(id: EmotionMappingId): EmotionMapping {
+  return EMOTION_MAPPINGS.find((m) => m.id === id) ?? EMOTION_MAPPINGS[0];
+}
+
+export function defaultMappingParams(id: EmotionMappingId): Record<string, number> {
+  return Object.fromEntries(getEmotionMapping(id).params.map((p) => [p.key, p.default]));
+}
+
+export const DEFAULT_MAPPING: EmotionMappingConfig = { id: "piecewise", params: {} };
+
+// 既定値を補ったパラメータ（候補ごとに呼ばれるので設定オブジェクト単位で使い回す）
+const resolvedParams = new WeakMap<EmotionMappingConfig, Record<string, number>>();
+
+// 選択中の写像で S → 感情スコア（未指定のパラメータは既定値）
+export function emotionScores(S: number, th: EmotionThresholds, mapping: EmotionMappingConfig): EmotionScores {
+  const m = getEmotionMapping(mapping.id);
+  let params = resolvedParams.get(mapping);
+  if (!params) {
+    params = { ...defaultMappingParams(m.id), ...mapping.params };
+    resolvedParams.set(mapping, params);
+  }
+  return m.scores(S, th, params);
+}
@@ -0,0 +1,44 @@
+import { describe, expect, it } from "vitest";
+import { MAX_CANDIDATES, candXRange, candidateLimitError, countCandX, enumerateCandX } from "./math";
+
+describe("enumerateCandX", () => {
+  it("0 ≤ x_i ≤ q_i の格子を末尾の次元から順に列挙する", () => {
+    expect(enumerateCandX([1, 2])).toEqual([
+      [0, 0], [0, 1], [0, 2],
+      [1, 0], [1, 1], [1, 2],
+    ]);
+  });
+
+  it("候補数は Π (q_i + 1)", () => {
+    const q = [7, 5, 5, 5];
+    expect(enumerateCandX(q)).toHaveLength(countCandX(q));
+    expect(countCandX(q)).toBe(8 * 6 * 6 * 6);
+  });
+
+  it("q_i = 0 の品目は 0 だけ、品目なしは空の提案 1 つ", () => {
+    expect(enumerateCandX([0, 1])).toEqual([[0, 0], [0, 1]]);
+    expect(enumerateCandX([])).toEqual([[]]);
+  });
+
+  it("負の個数があれば候補なし", () => {
+    expect(enumerateCandX([2, -1])).toEqual([]);
+  });
+});
+
+describe("candXRange", () => {
+  it("小分けに作った候補をつなぐと enumerateCandX と同じ順序", () => {
+    const q = [2, 0, 3, 1];
+    const all = enumerateCandX(q);
+    const chunks = [0, 5, 11, all.length].flatMap((end, k, ends) => (k === 0 ? [] : candXRange(q, ends[k - 1], end)));
+    expect(chunks).toEqual(all);
+  });
+});
+
+describe("candidateLimitError", () => {
+  it("候補数が MAX_CANDIDATES を超えたときだけエラー", () => {
+    expect(candidateLimitError([9, 9, 9, 9])).toBeNull();
+    const q = new Array<number>(6).fill(9);
+    expect(countCandX(q)).toBeGreaterThan(MAX_CANDIDATES);
+    expect(candidateLimitError(q)).toContain("1,000,000");
+  });
+});
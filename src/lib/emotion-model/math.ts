@@ -0,0 +1,70 @@
+export const deg2rad = (d: number) => (Math.PI / 180) * d;
+
+export function dot(a: number[], b: number[]) {
+  let s = 0;
+  for (let i = 0; i < a.length; i++) s += a[i] * b[i];
+  return s;
+}
+
+export function add(a: number[], b: number[], sign = 1) {
+  return a.map((ai, i) => ai + sign * b[i]);
+}
+
+export function clamp(v: number, lo: number, hi: number) {
+  return Math.max(lo, Math.min(hi, v));
+}
+
+export function clampWeights(w: number[], wmax: number) {
+  return w.map((wi) => Math.round(clamp(wi, -wmax, wmax))); // ← 1刻み想定
+}
+
+// 0 ≤ x_i ≤ q_i の整数格子を列挙（N 次元、末尾の次元が最も速く回る）
+export function enumerateCandX(q: number[]): number[][] {
+  const xs: number[][] = [];
+  if (q.some((qi) => qi < 0)) return xs;
+  const cur = q.map(() => 0);
+  for (;;) {
+    xs.push([...cur]);
+    let i = q.length - 1;
+    while (i >= 0 && cur[i] === q[i]) {
+      cur[i] = 0;
+      i--;
+    }
+    if (i < 0) return xs;
+    cur[i]++;
+  }
+}
+
+// 候補数 Π (q_i + 1)
+export function countCandX(q: number[]) {
+  return q.reduce((n, qi) => n * (Math.max(0, qi) + 1), 1);
+}
+
+// 1 回に評価する候補数の上限（ワーカー・API 共通）。これを超える q は全候補を扱う計算を断る
+export const MAX_CANDIDATES = 200000;
+
+export function candidateLimitError(q: number[]): string | null {
+  const count = countCandX(q);
+  return count > MAX_CANDIDATES
+    ? `scenario has ${count.toLocaleString("en-US")} candidate offers (limit ${MAX_CANDIDATES.toLocaleString("en-US")}); reduce q`
+    : null;
+}
+
+// enumerateCandX の index 番目の候補（全候補を持たずに小分けで列挙する）
+export function candXAt(q: number[], index: number): number[] {
+  const x = new Array<number>(q.length);
+  let rest = index;
+  for (let i = q.length - 1; i >= 0; i--) {
+    const base = q[i] + 1;
+    x[i] = rest % base;
+    rest = Math.floor(rest / base);
+  }
+  return x;
+}
+
+// index が [start, end) の候補
+export function candXRange(q: number[], start: number, end: number): number[][] {
+  const xs: number[][] = [];
+  for (let k = start; k < end; k++) xs.push(candXAt(q, k));
+  return xs;
+}
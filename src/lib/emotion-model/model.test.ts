@@ -0,0 +1,171 @@
+import { describe, expect, it } from "vitest";
+import { deg2rad, enumerateCandX } from "./math";
+import {
+  argmaxEmotion,
+  emotionScoresFromS,
+  maxUtility,
+  maxUtilityBruteForce,
+  satisfactionGivenUmax,
+  scoresToProbs,
+  utility,
+} from "./model";
+import { DEFAULT_MAPPING } from "./mapping";
+import { getSatisfactionModel, satisfactionModel } from "./satisfaction";
+import { EMOTIONS, type ModelParams, type SatisfactionConfig } from "./types";
+
+const th = { tau1: 0.4, tau2: 0.7, sadBand: 0.02 };
+
+describe("utility", () => {
+  const q = [7, 5, 5, 5];
+  const wSelf = [4, 0, 2, -2];
+  const wOther = [4, 1, -2, 0];
+  const x = [3, 2, 2, 1];
+
+  it("θ = 0 は other の取り分 q − x の価値", () => {
+    // wOther · (q − x) = 4·4 + 1·3 − 2·3 + 0·4
+    expect(utility(0, wSelf, wOther, x, q)).toBeCloseTo(13);
+  });
+
+  it("θ = 90° は self の取り分 x の価値", () => {
+    // wSelf · x = 4·3 + 0·2 + 2·2 − 2·1
+    expect(utility(deg2rad(90), wSelf, wOther, x, q)).toBeCloseTo(14);
+  });
+
+  it("θ = −90° は self の価値の符号反転", () => {
+    expect(utility(deg2rad(-90), wSelf, wOther, x, q)).toBeCloseTo(-14);
+  });
+});
+
+describe("maxUtility", () => {
+  const cases = [
+    { q: [7, 5, 5, 5], wSelf: [4, 0, 2, -2], wOther: [4, 1, -2, 0] },
+    { q: [3, 0, 4], wSelf: [-1, 3, 2], wOther: [2, -3, 1] },
+    { q: [2], wSelf: [0], wOther: [0] },
+  ];
+
+  it.each(cases)("全候補の総当たりと一致する（q = $q）", ({ q, wSelf, wOther }) => {
+    const candX = enumerateCandX(q);
+    for (let deg = -90; deg <= 90; deg += 15) {
+      const t = deg2rad(deg);
+      expect(maxUtility(t, wSelf, wOther, q)).toBeCloseTo(maxUtilityBruteForce(t, wSelf, wOther, q, candX), 10);
+    }
+  });
+
+  it("候補がなければ総当たりは −∞", () => {
+    expect(maxUtilityBruteForce(0, [1], [1], [1], [])).toBe(-Infinity);
+  });
+});
+
+describe("satisfactionGivenUmax", () => {
+  it("U = U_max で 1、下回ると exp(β (U − U_max))", () => {
+    expect(satisfactionGivenUmax(5, 5, 0.1)).toBe(1);
+    expect(satisfactionGivenUmax(3, 5, 0.1)).toBeCloseTo(Math.exp(-0.2));
+  });
+});
+
+describe("emotionScoresFromS", () => {
+  it("S ≤ τ1 は Anger = 1（境界を含む）", () => {
+    expect(emotionScoresFromS(0, th)).toEqual({ Anger: 1, Neutral: 0, Joy: 0, Sad: 0 });
+    expect(emotionScoresFromS(th.tau1, th)).toEqual({ Anger: 1, Neutral: 0, Joy: 0, Sad: 0 });
+  });
+
+  it("τ1 の直上は Sad = 1（τ1 + sadBand まで）", () => {
+    expect(emotionScoresFromS(th.tau1 + 1e-6, th)).toEqual({ Anger: 0, Neutral: 0, Joy: 0, Sad: 1 });
+    expect(emotionScoresFromS(th.tau1 + th.sadBand, th)).toEqual({ Anger: 0, Neutral: 0, Joy: 0, Sad: 1 });
+  });
+
+  it("Sad 帯から τ2 までは Neutral から Joy へ線形に移る", () => {
+    const mid = (th.tau1 + th.sadBand + th.tau2) / 2;
+    const s = emotionScoresFromS(mid, th);
+    expect(s.Anger).toBe(0);
+    expect(s.Sad).toBe(0);
+    expect(s.Neutral).toBeCloseTo(0.5);
+    expect(s.Joy).toBeCloseTo(0.5);
+  });
+
+  it("S ≥ τ2 は Joy = 1", () => {
+    expect(emotionScoresFromS(th.tau2, th)).toEqual({ Anger: 0, Neutral: 0, Joy: 1, Sad: 0 });
+    expect(emotionScoresFromS(1, th)).toEqual({ Anger: 0, Neutral: 0, Joy: 1, Sad: 0 });
+  });
+
+  it("sadBand = 0 なら Sad 帯はない", () => {
+    const s = emotionScoresFromS(th.tau1 + 1e-6, { ...th, sadBand: 0 });
+    expect(s.Sad).toBe(0);
+    expect(s.Neutral).toBeCloseTo(1);
+  });
+});
+
+describe("scoresToProbs", () => {
+  it("g_k + eps を正規化する（0 のスコアも確率 > 0）", () => {
+    const p = scoresToProbs({ Anger: 1, Neutral: 0, Joy: 0, Sad: 0 });
+    const total = 1 + 4e-9;
+    expect(p.Anger).toBeCloseTo((1 + 1e-9) / total, 15);
+    expect(p.Joy).toBeCloseTo(1e-9 / total, 20);
+    expect(p.Joy).toBeGreaterThan(0);
+  });
+
+  it("合計は 1", () => {
+    const p = scoresToProbs({ Anger: 0, Neutral: 0.3, Joy: 0.7, Sad: 0 });
+    expect(EMOTIONS.reduce((s, e) => s + p[e], 0)).toBeCloseTo(1, 12);
+  });
+
+  it("スコアがすべて 0 なら一様", () => {
+    const p = scoresToProbs({ Anger: 0, Neutral: 0, Joy: 0, Sad: 0 });
+    for (const e of EMOTIONS) expect(p[e]).toBeCloseTo(0.25);
+  });
+
+  it("eps を大きくすると分布がならされる", () => {
+    const p = scoresToProbs({ Anger: 1, Neutral: 0, Joy: 0, Sad: 0 }, 1);
+    expect(p.Anger).toBeCloseTo(2 / 5);
+    expect(p.Sad).toBeCloseTo(1 / 5);
+  });
+});
+
+describe("argmaxEmotion", () => {
+  it("同点は EMOTIONS の順（Joy 優先）", () => {
+    expect(argmaxEmotion({ Joy: 0.25, Neutral: 0.25, Sad: 0.25, Anger: 0.25 })).toBe("Joy");
+    expect(argmaxEmotion({ Joy: 0.1, Neutral: 0.2, Sad: 0.2, Anger: 0.5 })).toBe("Anger");
+  });
+});
+
+describe("satisfactionModel", () => {
+  // 1 品目 q = 2、重み 1 ずつ: x = 0, 1, 2 で (self, other) = (0, 2), (1, 1), (2, 0)。θ = 0 なら U = other
+  const setup = { q: [2], wSelf: [1], wOther: [1] };
+  const paramsFor = (satisfaction: SatisfactionConfig, beta = 1): ModelParams =>
+    ({ beta, ...th, mapping: DEFAULT_MAPPING, satisfaction });
+  const S = (satisfaction: SatisfactionConfig, x: number, beta = 1) =>
+    satisfactionModel(setup, paramsFor(satisfaction, beta))(0).evaluate([x]).S;
+
+  it("inequity: U は Fehr–Schmidt の補正込み、U_max は取りうる組の最大", () => {
+    const inequity = { id: "inequity" as const, params: { alpha: 0.5, betaFs: 0.25 }, reference: [] };
+    // x = 0: 2 − 0.25·2 = 1.5（最大）、x = 1: 1、x = 2: 0 − 0.5·2 = −1
+    expect(satisfactionModel(setup, paramsFor(inequity))(0).umax).toBeCloseTo(1.5, 12);
+    expect(S(inequity, 0)).toBeCloseTo(1, 12);
+    expect(S(inequity, 1)).toBeCloseTo(Math.exp(-0.5), 12);
+    expect(S(inequity, 2, 2)).toBeCloseTo(Math.exp(2 * -2.5), 12);
+  });
+
+  it("reference: 参照点（省略時は均等割り）との差のロジスティック、損失側は λ 倍", () => {
+    const reference = { id: "reference" as const, params: { lossAversion: 2 }, reference: [] };
+    const sigma = (z: number) => 1 / (1 + Math.exp(-z));
+    expect(S(reference, 1)).toBeCloseTo(0.5, 12);
+    expect(S(reference, 0, 0.5)).toBeCloseTo(sigma(0.5), 12);
+    expect(S(reference, 2, 0.5)).toBeCloseTo(sigma(-1), 12);
+    // 参照点を x = 2 にすると U_ref = 0 なので x = 1 は利得側
+    expect(S({ ...reference, reference: [2] }, 1, 0.5)).toBeCloseTo(sigma(0.5), 12);
+  });
+
+  it("rank: U 以下の候補の割合で、β は効かない", () => {
+    const rank = { id: "rank" as const, params: {}, reference: [] };
+    expect(getSatisfactionModel("rank").usesBeta).toBe(false);
+    for (const beta of [0, 1, 50]) {
+      expect([0, 1, 2].map((x) => S(rank, x, beta))).toEqual([1, 2 / 3, 1 / 3]);
+    }
+  });
+
+  it("rank: 同じ U の候補は同順位（すべて上位に数える）", () => {
+    const flat = { q: [2], wSelf: [0], wOther: [0] };
+    const at = satisfactionModel(flat, paramsFor({ id: "rank", params: {}, reference: [] }))(0);
+    expect([0, 1, 2].map((x) => at.evaluate([x]).S)).toEqual([1, 1, 1]);
+  });
+});
@@ -0,0 +1,79 @@
+import { add, dot } from "./math";
+import { EMOTIONS, type Emotion, type EmotionProbs, type EmotionScores, type EmotionThresholds } from "./types";
+
+// 効用（other 視点; self/other 役割分離）
+export function utility(thetaRad: number, wSelf: number[], wOther: number[], x: number[], q: number[]) {
+  const xOther = add(q, x, -1); // other の取り分 = q − x
+  return Math.cos(thetaRad) * dot(wOther, xOther) + Math.sin(thetaRad) * dot(wSelf, x);
+}
+
+// 候補が 0 ≤ x_i ≤ q_i の全格子なら U は x について線形・分離可能なので、
+// 各品目で x_i = q_i か 0 の良い方を取れば U_max になる（O(N)、候補の列挙不要）
+export function maxUtility(thetaRad: number, wSelf: number[], wOther: number[], q: number[]) {
+  const c = Math.cos(thetaRad);
+  const s = Math.sin(thetaRad);
+  let umax = 0;
+  for (let i = 0; i < q.length; i++) {
+    umax += c * wOther[i] * q[i] + q[i] * Math.max(0, s * wSelf[i] - c * wOther[i]);
+  }
+  return umax;
+}
+
+// 候補を総当たりした U_max（検算用）
+export function maxUtilityBruteForce(thetaRad: number, wSelf: number[], wOther: number[], q: number[], candX: number[][]) {
+  let umax = -Infinity;
+  for (const xx of candX) {
+    const u = utility(thetaRad, wSelf, wOther, xx, q);
+    if (u > umax) umax = u;
+  }
+  return umax;
+}
+
+// 満足度 S = exp(β (U − Umax))
+export function satisfactionGivenUmax(
+  u: number,
+  umax: number,
+  beta: number,
+) {
+  return Math.exp(beta * (u - umax));
+}
+
+export function emotionScoresFromS(S: number, th: EmotionThresholds): EmotionScores {
+  const clamp01 = (v: number) => Math.max(0, Math.min(1, v));
+  if (S <= th.tau1) {
+    // しきい値以下は Anger = 1、他は 0
+    return { Anger: 1, Neutral: 0, Joy: 0, Sad: 0 };
+  }
+  const sadTop = th.tau1 + th.sadBand;
+  if (S <= sadTop) {
+    // Anger 直上の狭い帯は Sad = 1
+    return { Anger: 0, Neutral: 0, Joy: 0, Sad: 1 };
+  }
+  if (S >= th.tau2) {
+    return { Anger: 0, Neutral: 0, Joy: 1, Sad: 0 };
+  }
+  const lambda = (S - sadTop) / (th.tau2 - sadTop); // [0,1]
+  const neutral = clamp01(1 - lambda);
+  const joy = clamp01(lambda);
+  return { Anger: 0, Neutral: neutral, Joy: joy, Sad: 0 };
+}
+
+// g_k + eps を正規化（0 確率を避ける）
+export function scoresToProbs(scores: EmotionScores, eps = 1e-9): EmotionProbs {
+  const total = (scores.Anger + eps) + (scores.Sad + eps) + (scores.Neutral + eps) + (scores.Joy + eps);
+  return {
+    Anger: (scores.Anger + eps) / total,
+    Sad: (scores.Sad + eps) / total,
+    Neutral: (scores.Neutral + eps) / total,
+    Joy: (scores.Joy + eps) / total,
+  };
+}
+
+// 同点は EMOTIONS の順（Joy 優先）
+export function argmaxEmotion(probs: EmotionProbs): Emotion {
+  let best: Emotion = EMOTIONS[0];
+  for (const k of EMOTIONS) {
+    if (probs[k] > probs[best]) best = k;
+  }
+  return best;
+}
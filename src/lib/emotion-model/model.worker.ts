@@ -0,0 +1,140 @@
+/*
+  θ スキャン / 候補分類 / パラメータ掃引 / θ・w_other 事後分布 / 提案の推薦 / 交渉シミュレーション / 感情のサンプリング / 最尤推定を UI スレッドの外で計算する Web Worker
+  - 計算を小分けにし、合間にメッセージを受け取れるようにする
+  - 新しいジョブが来たら古いジョブは次の区切りで打ち切る
+  - 全候補を扱うジョブは候補を通し番号から小分けに作り、MAX_CANDIDATES を超える q は断る
+*/
+import { fitModelSteps } from "@/lib/model-fit";
+import { thetaPosterior } from "./inference";
+import { candXRange, candidateLimitError, countCandX } from "./math";
+import { mergeRecommendations, recommendOffers, type OfferRecommendation } from "./recommend";
+import { evaluateCandidates, thetaGrid, thetaScanAt } from "./scan";
+import { simulateNegotiationSteps } from "./simulation";
+import type { Steps } from "./steps";
+import { sweepRow, sweepValues, type SweepCell } from "./sweep";
+import type { CandidateEval, ThetaScanRow } from "./types";
+import { sampleCandidatesSteps } from "./uncertainty";
+import { weightPosteriorSteps } from "./weight-inference";
+import type { ModelJob, ModelJobResult, WorkerRequest, WorkerResponse } from "./worker-protocol";
+
+const THETA_CHUNK = 30;
+const CANDIDATE_CHUNK = 5000;
+
+let latest = 0;
+
+const post = (msg: WorkerResponse) => self.postMessage(msg);
+
+// 溜まったメッセージ（新ジョブ・キャンセル）を処理させる
+const yieldToEvents = () => new Promise<void>((resolve) => setTimeout(resolve, 0));
+
+// generator の区切りごとに進捗を送り、打ち切られたら null
+async function drive<T>(id: number, steps: Steps<T>): Promise<T | null> {
+  for (;;) {
+    const r = steps.next();
+    if (r.done) return r.value;
+    post({ type: "progress", id, ...r.value });
+    await yieldToEvents();
+    if (latest !== id) return null;
+  }
+}
+
+// 打ち切られたら null
+async function runJob(id: number, job: ModelJob): Promise<ModelJobResult | null> {
+  if (job.kind === "thetaScan") {
+    const grid = thetaGrid(job.thetaStep);
+    const rows: ThetaScanRow[] = [];
+    for (let i = 0; i < grid.length; i += THETA_CHUNK) {
+      rows.push(...thetaScanAt(job.scenario, job.params, grid.slice(i, i + THETA_CHUNK)));
+      post({ type: "progress", id, done: rows.length, total: grid.length });
+      await yieldToEvents();
+      if (latest !== id) return null;
+    }
+    return { kind: "thetaScan", rows };
+  }
+
+  if (job.kind === "sweep") {
+    const { spec } = job;
+    const yValues = spec.y ? sweepValues(spec.y) : null;
+    const cells: SweepCell[][] = [];
+    for (const y of yValues ?? [null]) {
+      cells.push(sweepRow(spec, y));
+      post({ type: "progress", id, done: cells.length, total: yValues?.length ?? 1 });
+      await yieldToEvents();
+      if (latest !== id) return null;
+    }
+    return { kind: "sweep", result: { xValues: sweepValues(spec.x), yValues, cells } };
+  }
+
+  // θ グリッド × 観測数なので一度に計算
+  if (job.kind === "posterior") {
+    return {
+      kind: "posterior",
+      posterior: thetaPosterior(job.setup, job.params, job.observations, job.prior, job.thetaStep),
+    };
+  }
+
+  if (job.kind === "weightPosterior") {
+    const posterior = await drive(id, weightPosteriorSteps(job.q, job.wSelf, job.params, job.observations, job.options));
+    return posterior && { kind: "weightPosterior", posterior };
+  }
+
+  if (job.kind === "sample") {
+    const sampling = await drive(id, sampleCandidatesSteps(job.candidates, job.draws, job.seed));
+    return sampling && { kind: "sample", sampling };
+  }
+
+  if (job.kind === "fit") {
+    const result = await drive(id, fitModelSteps(job.trials, job.wSelf, job.wOther, job.params, job.start, job.free, job.options));
+    return result && { kind: "fit", result };
+  }
+
+  const limitError = candidateLimitError(job.setup.q);
+
+  // 全候補を使うのは bayesian 戦略だけ
+  if (job.kind === "simulate") {
+    if (job.options.strategy.kind === "bayesian" && limitError) throw new Error(limitError);
+    const result = await drive(id, simulateNegotiationSteps(job.setup, job.params, job.options));
+    return result && { kind: "simulate", result };
+  }
+
+  if (limitError) throw new Error(limitError);
+  const total = countCandX(job.setup.q);
+
+  if (job.kind === "recommend") {
+    let recommendation: OfferRecommendation = { suggestions: [], feasible: 0 };
+    for (let i = 0; i < total; i += CANDIDATE_CHUNK) {
+      const chunk = candXRange(job.setup.q, i, Math.min(total, i + CANDIDATE_CHUNK));
+      const part = recommendOffers(job.setup, job.params, job.belief, job.constraints, job.limit, chunk);
+      recommendation = mergeRecommendations(recommendation, part, job.limit);
+      post({ type: "progress", id, done: i + chunk.length, total });
+      await yieldToEvents();
+      if (latest !== id) return null;
+    }
+    return { kind: "recommend", recommendation };
+  }
+
+  const candidates: CandidateEval[] = [];
+  for (let i = 0; i < total; i += CANDIDATE_CHUNK) {
+    const chunk = candXRange(job.setup.q, i, Math.min(total, i + CANDIDATE_CHUNK));
+    for (const c of evaluateCandidates(job.thetaDeg, job.setup, job.params, chunk)) candidates.push(c);
+    post({ type: "progress", id, done: candidates.length, total });
+    await yieldToEvents();
+    if (latest !== id) return null;
+  }
+  return { kind: "candidates", candidates };
+}
+
+self.onmessage = async (e: MessageEvent<WorkerRequest>) => {
+  const msg = e.data;
+  if (msg.type === "cancel") {
+    if (latest === msg.id) latest = 0;
+    return;
+  }
+  latest = msg.id;
+  try {
+    const result = await runJob(msg.id, msg.job);
+    if (result) post({ type: "result", id: msg.id, result });
+  } catch (err) {
+    post({ type: "error", id: msg.id, message: (err as Error).message });
+  }
+};
@@ -0,0 +1,16 @@
+// 再現可能な乱数（mulberry32）。[0, 1) を返す
+export function mulberry32(seed: number): () => number {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// [lo, hi] の整数
+export function randomInt(rng: () => number, lo: number, hi: number) {
+  return lo + Math.floor(rng() * (hi - lo + 1));
+}
@@ -0,0 +1,57 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_SCENARIO, scenarioModelInputs } from "@/lib/scenario-state";
+import { candXRange, countCandX, deg2rad, enumerateCandX } from "./math";
+import { mergeRecommendations, recommendOffers, type OfferConstraint, type OfferRecommendation } from "./recommend";
+import { satisfactionModel } from "./satisfaction";
+import { emotionProbsAt } from "./scan";
+
+const { scenario, params } = scenarioModelInputs(DEFAULT_SCENARIO);
+const setup = { q: scenario.q, wSelf: scenario.wSelf, wOther: scenario.wOther };
+const point = { kind: "point" as const, thetaDeg: 45 };
+const total = countCandX(setup.q);
+
+describe("recommendOffers", () => {
+  it("self 価値の降順、同じなら other 価値の降順に limit 件", () => {
+    const { suggestions, feasible } = recommendOffers(setup, params, point, [], 50);
+    expect(feasible).toBe(total);
+    expect(suggestions).toHaveLength(50);
+    // 正の重みの品目は全部取り、負の重みの品目は取らない。self 重み 0 の品目は相手に渡す方が先
+    expect(suggestions[0].x).toEqual([7, 0, 5, 0]);
+    expect(suggestions[1].x).toEqual([7, 1, 5, 0]);
+    suggestions.slice(1).forEach((s, k) => {
+      const prev = suggestions[k];
+      expect(s.selfValue < prev.selfValue || (s.selfValue === prev.selfValue && s.otherValue <= prev.otherValue)).toBe(true);
+    });
+  });
+
+  it("制約を満たす候補だけを数え、その上位を返す", () => {
+    const constraints: OfferConstraint[] = [{ kind: "maxProb", emotion: "Anger", value: 0.3 }, { kind: "minProb", emotion: "Joy", value: 0.2 }];
+    const at = satisfactionModel(setup, params)(deg2rad(point.thetaDeg));
+    const ok = enumerateCandX(setup.q).filter((x) => {
+      const p = emotionProbsAt(at, x, params);
+      return p.Anger < 0.3 && p.Joy > 0.2;
+    });
+    const r = recommendOffers(setup, params, point, constraints, 5);
+    expect(r.feasible).toBe(ok.length);
+    expect(r.feasible).toBeGreaterThan(0);
+    expect(r.feasible).toBeLessThan(total);
+    expect(r.suggestions[0].selfValue).toBe(Math.max(...ok.map((x) => x.reduce((s, xi, i) => s + xi * setup.wSelf[i], 0))));
+    for (const s of r.suggestions) expect(s.probs.Anger < 0.3 && s.probs.Joy > 0.2).toBe(true);
+  });
+
+  it("1 点に質量のある分布は点の信念と同じ", () => {
+    const dist = { kind: "distribution" as const, theta: [-45, 45, 60], mass: [0, 1, 0] };
+    expect(recommendOffers(setup, params, dist, [], 10)).toEqual(recommendOffers(setup, params, point, [], 10));
+  });
+
+  it("小分けに評価して mergeRecommendations でまとめても同じ", () => {
+    const constraints: OfferConstraint[] = [{ kind: "argmax", emotion: "Joy" }];
+    const whole = recommendOffers(setup, params, point, constraints, 10);
+    let merged: OfferRecommendation = { suggestions: [], feasible: 0 };
+    for (let i = 0; i < total; i += 100) {
+      const part = recommendOffers(setup, params, point, constraints, 10, candXRange(setup.q, i, Math.min(total, i + 100)));
+      merged = mergeRecommendations(merged, part, 10);
+    }
+    expect(merged).toEqual(whole);
+  });
+});
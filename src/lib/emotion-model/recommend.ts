@@ -0,0 +1,92 @@
+import { add, deg2rad, dot, enumerateCandX } from "./math";
+import { argmaxEmotion } from "./model";
+import { satisfactionModel } from "./satisfaction";
+import { emotionProbsAt } from "./scan";
+import { EMOTIONS, type Emotion, type EmotionProbs, type ModelParams, type ScenarioSetup } from "./types";
+
+// proposer が持つ θ についての信念
+export type ThetaBelief =
+  | { kind: "point"; thetaDeg: number }
+  | { kind: "distribution"; theta: number[]; mass: number[] };
+
+// 候補に課す制約
+//   maxProb: P(E) < value / minProb: P(E) > value / argmax: 期待確率の argmax が E
+export type OfferConstraint =
+  | { kind: "maxProb"; emotion: Emotion; value: number }
+  | { kind: "minProb"; emotion: Emotion; value: number }
+  | { kind: "argmax"; emotion: Emotion };
+
+export interface OfferSuggestion {
+  x: number[];
+  selfValue: number;
+  otherValue: number;
+  probs: EmotionProbs; // θ の信念で平均した P(E | x)
+  emotion: Emotion;
+}
+
+export interface OfferRecommendation {
+  suggestions: OfferSuggestion[];
+  feasible: number; // 制約を満たした候補数
+}
+
+// この質量未満の θ は期待値の計算から外す
+const MIN_MASS = 1e-6;
+
+export function satisfiesConstraint(probs: EmotionProbs, c: OfferConstraint) {
+  switch (c.kind) {
+    case "maxProb":
+      return probs[c.emotion] < c.value;
+    case "minProb":
+      return probs[c.emotion] > c.value;
+    case "argmax":
+      return argmaxEmotion(probs) === c.emotion;
+  }
+}
+
+// self 価値が同じなら other 価値の高い方（相手に優しい方）を先に
+const bySelfValue = (a: OfferSuggestion, b: OfferSuggestion) => b.selfValue - a.selfValue || b.otherValue - a.otherValue;
+
+// 候補を小分けに評価した結果をまとめる（各部分の上位 limit 件から全体の上位 limit 件が決まる）
+export function mergeRecommendations(a: OfferRecommendation, b: OfferRecommendation, limit: number): OfferRecommendation {
+  return {
+    suggestions: [...a.suggestions, ...b.suggestions].sort(bySelfValue).slice(0, limit),
+    feasible: a.feasible + b.feasible,
+  };
+}
+
+// 全候補について θ の信念の下での期待感情確率を計算し、制約を満たすものを self 価値の降順に並べる
+export function recommendOffers(
+  setup: ScenarioSetup,
+  params: ModelParams,
+  belief: ThetaBelief,
+  constraints: OfferConstraint[],
+  limit: number,
+  candX: number[][] = enumerateCandX(setup.q),
+): OfferRecommendation {
+  const { q, wSelf, wOther } = setup;
+  const points = belief.kind === "point"
+    ? [{ theta: belief.thetaDeg, mass: 1 }]
+    : belief.theta.map((theta, j) => ({ theta, mass: belief.mass[j] })).filter((p) => p.mass >= MIN_MASS);
+  const totalMass = points.reduce((s, p) => s + p.mass, 0);
+  const satisfaction = satisfactionModel(setup, params);
+  const grid = points.map((p) => ({ at: satisfaction(deg2rad(p.theta)), w: p.mass / totalMass }));
+
+  const out: OfferSuggestion[] = [];
+  for (const xx of candX) {
+    const probs = Object.fromEntries(EMOTIONS.map((e) => [e, 0])) as EmotionProbs;
+    for (const g of grid) {
+      const p = emotionProbsAt(g.at, xx, params);
+      for (const e of EMOTIONS) probs[e] += g.w * p[e];
+    }
+    if (!constraints.every((c) => satisfiesConstraint(probs, c))) continue;
+    out.push({
+      x: xx,
+      selfValue: dot(wSelf, xx),
+      otherValue: dot(wOther, add(q, xx, -1)),
+      probs,
+      emotion: argmaxEmotion(probs),
+    });
+  }
+  out.sort(bySelfValue);
+  return { suggestions: out.slice(0, limit), feasible: out.length };
+}
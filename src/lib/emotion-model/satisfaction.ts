@@ -0,0 +1,182 @@
+import { add, dot } from "./math";
+import { maxUtility, satisfactionGivenUmax, utility } from "./model";
+import type { ModelParamSpec, ModelParams, SatisfactionConfig, SatisfactionModelId, ScenarioSetup } from "./types";
+
+// 固定 θ での満足度の評価器（U_max などの前計算を θ ごとに 1 回だけ行う）
+export interface SatisfactionAt {
+  umax: number;
+  evaluate: (x: number[]) => { u: number; S: number };
+}
+
+export type SatisfactionFn = (thetaRad: number) => SatisfactionAt;
+
+export interface SatisfactionModel {
+  id: SatisfactionModelId;
+  label: string;
+  params: ModelParamSpec[];
+  usesReference: boolean;
+  usesBeta: boolean; // false なら β のスライダーは効かない
+  prepare: (setup: ScenarioSetup, beta: number, params: Record<string, number>, reference: number[]) => SatisfactionFn;
+}
+
+// 候補全体が取りうる (self 価値, other 価値) とその件数。品目ごとに畳み込むので候補の列挙は不要
+export interface ValuePoint {
+  self: number;
+  other: number;
+  count: number;
+}
+
+export function valueDistribution(setup: ScenarioSetup): ValuePoint[] {
+  let acc = new Map<string, ValuePoint>([["0,0", { self: 0, other: 0, count: 1 }]]);
+  setup.q.forEach((qi, i) => {
+    const next = new Map<string, ValuePoint>();
+    for (const p of acc.values()) {
+      for (let xi = 0; xi <= qi; xi++) {
+        const self = p.self + setup.wSelf[i] * xi;
+        const other = p.other + setup.wOther[i] * (qi - xi);
+        const key = `${self},${other}`;
+        const hit = next.get(key);
+        if (hit) hit.count += p.count;
+        else next.set(key, { self, other, count: p.count });
+      }
+    }
+    acc = next;
+  });
+  return [...acc.values()];
+}
+
+// 参照点: 長さが合わなければ均等割り（端数は other 側）
+export function referenceOffer(q: number[], reference: number[]): number[] {
+  if (reference.length !== q.length) return q.map((qi) => Math.floor(qi / 2));
+  return reference.map((r, i) => Math.max(0, Math.min(q[i], Math.round(r))));
+}
+
+const logistic = (z: number) => 1 / (1 + Math.exp(-z));
+
+const TIE_EPS = 1e-9;
+
+export const SATISFACTION_MODELS: SatisfactionModel[] = [
+  {
+    // S = exp(β (U − U_max))
+    id: "exponential",
+    label: "Relative to best offer (exp)",
+    params: [],
+    usesReference: false,
+    usesBeta: true,
+    prepare: (setup, beta) => (thetaRad) => {
+      const { q, wSelf, wOther } = setup;
+      const umax = maxUtility(thetaRad, wSelf, wOther, q);
+      return {
+        umax,
+        evaluate: (x) => {
+          const u = utility(thetaRad, wSelf, wOther, x, q);
+          return { u, S: satisfactionGivenUmax(u, umax, beta) };
+        },
+      };
+    },
+  },
+  {
+    // Fehr–Schmidt: U − α max(self − other, 0) − β_FS max(other − self, 0)。U_max は取りうる価値の組から
+    id: "inequity",
+    label: "Inequity aversion (Fehr–Schmidt)",
+    params: [
+      { key: "alpha", label: "α (disadv.)", min: 0, max: 2, step: 0.05, default: 0.5 },
+      { key: "betaFs", label: "β_FS (adv.)", min: 0, max: 1, step: 0.05, default: 0.25 },
+    ],
+    usesReference: false,
+    usesBeta: true,
+    prepare: (setup, beta, p) => {
+      const points = valueDistribution(setup);
+      const fs = (c: number, s: number, self: number, other: number) =>
+        c * other + s * self - p.alpha * Math.max(self - other, 0) - p.betaFs * Math.max(other - self, 0);
+      return (thetaRad) => {
+        const c = Math.cos(thetaRad);
+        const s = Math.sin(thetaRad);
+        let umax = -Infinity;
+        for (const pt of points) umax = Math.max(umax, fs(c, s, pt.self, pt.other));
+        return {
+          umax,
+          evaluate: (x) => {
+            const u = fs(c, s, dot(setup.wSelf, x), dot(setup.wOther, add(setup.q, x, -1)));
+            return { u, S: satisfactionGivenUmax(u, umax, beta) };
+          },
+        };
+      };
+    },
+  },
+  {
+    // 参照点（期待 / 直前の提案）との差: S = σ(β d)、損失側は λ 倍（d = U − U_ref）
+    id: "reference",
+    label: "Reference point (expected offer)",
+    params: [{ key: "lossAversion", label: "λ (loss aversion)", min: 1, max: 5, step: 0.1, default: 2 }],
+    usesReference: true,
+    usesBeta: true,
+    prepare: (setup, beta, p, reference) => {
+      const { q, wSelf, wOther } = setup;
+      const xRef = referenceOffer(q, reference);
+      return (thetaRad) => {
+        const uRef = utility(thetaRad, wSelf, wOther, xRef, q);
+        return {
+          umax: maxUtility(thetaRad, wSelf, wOther, q),
+          evaluate: (x) => {
+            const u = utility(thetaRad, wSelf, wOther, x, q);
+            const d = u - uRef;
+            return { u, S: logistic(beta * (d >= 0 ? d : p.lossAversion * d)) };
+          },
+        };
+      };
+    },
+  },
+  {
+    // 全候補の中での U の百分位（U 以下の候補の割合）。β は使わない
+    id: "rank",
+    label: "Rank among candidates (percentile)",
+    params: [],
+    usesReference: false,
+    usesBeta: false,
+    prepare: (setup) => {
+      const { q, wSelf, wOther } = setup;
+      const points = valueDistribution(setup);
+      const total = points.reduce((sum, pt) => sum + pt.count, 0);
+      return (thetaRad) => {
+        const c = Math.cos(thetaRad);
+        const s = Math.sin(thetaRad);
+        const sorted = points.map((pt) => ({ u: c * pt.other + s * pt.self, count: pt.count })).sort((a, b) => a.u - b.u);
+        const cum: number[] = [];
+        sorted.reduce((acc, pt) => { cum.push(acc + pt.count); return acc + pt.count; }, 0);
+        return {
+          umax: sorted[sorted.length - 1].u,
+          evaluate: (x) => {
+            const u = utility(thetaRad, wSelf, wOther, x, q);
+            // u + ε 以下の最後の位置を二分探索
+            let lo = 0;
+            let hi = sorted.length;
+            while (lo < hi) {
+              const mid = (lo + hi) >> 1;
+              if (sorted[mid].u <= u + TIE_EPS) lo = mid + 1;
+              else hi = mid;
+            }
+            return { u, S: lo === 0 ? 0 : cum[lo - 1] / total };
+          },
+        };
+      };
+    },
+  },
+];
+
+export function getSatisfactionModel(id: SatisfactionModelId): SatisfactionModel {
+  return SATISFACTION_MODELS.find((m) => m.id === id) ?? SATISFACTION_MODELS[0];
+}
+
+export function defaultSatisfactionParams(id: SatisfactionModelId): Record<string, number> {
+  return Object.fromEntries(getSatisfactionModel(id).params.map((p) => [p.key, p.default]));
+}
+
+export const DEFAULT_SATISFACTION: SatisfactionConfig = { id: "exponential", params: {}, reference: [] };
+
+// 選択中の定式化で θ → 満足度評価器（未指定のパラメータは既定値）
+export function satisfactionModel(setup: ScenarioSetup, params: ModelParams): SatisfactionFn {
+  const { id, params: p, reference } = params.satisfaction;
+  const model = getSatisfactionModel(id);
+  return model.prepare(setup, params.beta, { ...defaultSatisfactionParams(model.id), ...p }, reference);
+}
@@ -0,0 +1,55 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_SCENARIO, scenarioModelInputs } from "@/lib/scenario-state";
+import { deg2rad } from "./math";
+import { emotionScoresFromS, maxUtility, scoresToProbs, utility } from "./model";
+import { argmaxBands, evaluateCandidates, thetaGrid, thetaScan } from "./scan";
+import { EMOTIONS } from "./types";
+
+const { scenario, params } = scenarioModelInputs(DEFAULT_SCENARIO);
+
+describe("thetaGrid", () => {
+  it("−90° から 90° まで step 刻み（両端を含む）", () => {
+    expect(thetaGrid(45)).toEqual([-90, -45, 0, 45, 90]);
+    expect(thetaGrid(1)).toHaveLength(181);
+  });
+});
+
+describe("thetaScan", () => {
+  const rows = thetaScan(scenario, params, 5);
+
+  it("各行は U, U_max, S = exp(β (U − U_max)) と区分線形写像の確率", () => {
+    for (const r of rows) {
+      const t = deg2rad(r.theta);
+      const { q, x, wSelf, wOther } = scenario;
+      expect(r.u).toBeCloseTo(utility(t, wSelf, wOther, x, q), 10);
+      expect(r.umax).toBeCloseTo(maxUtility(t, wSelf, wOther, q), 10);
+      expect(r.S).toBeCloseTo(Math.exp(params.beta * (r.u - r.umax)), 12);
+      const expected = scoresToProbs(emotionScoresFromS(r.S, params));
+      for (const e of EMOTIONS) expect(r[e]).toBeCloseTo(expected[e], 12);
+    }
+  });
+
+  it("U ≤ U_max なので 0 < S ≤ 1", () => {
+    for (const r of rows) {
+      expect(r.S).toBeGreaterThan(0);
+      expect(r.S).toBeLessThanOrEqual(1 + 1e-12);
+    }
+  });
+
+  it("argmax 帯は走査範囲を隙間なく覆う", () => {
+    const bands = argmaxBands(rows);
+    expect(bands[0].from).toBe(-90);
+    expect(bands[bands.length - 1].to).toBe(90);
+    for (let i = 1; i < bands.length; i++) {
+      expect(bands[i].from).toBe(bands[i - 1].to);
+      expect(bands[i].emotion).not.toBe(bands[i - 1].emotion);
+    }
+  });
+});
+
+describe("evaluateCandidates", () => {
+  it("S の最大は 1（U_max を達成する候補がある）", () => {
+    const cands = evaluateCandidates(30, scenario, params);
+    expect(Math.max(...cands.map((c) => c.S))).toBeCloseTo(1, 12);
+  });
+});
@@ -0,0 +1,78 @@
+import { add, deg2rad, dot, enumerateCandX } from "./math";
+import { scoresToProbs, argmaxEmotion } from "./model";
+import { emotionScores } from "./mapping";
+import { satisfactionModel, type SatisfactionAt } from "./satisfaction";
+import type { CandidateEval, Emotion, EmotionProbs, ModelParams, Scenario, ScenarioSetup, ThetaScanRow } from "./types";
+
+// 固定 θ（の満足度評価器）での提案 x の感情確率
+export function emotionProbsAt(at: SatisfactionAt, x: number[], params: ModelParams): EmotionProbs {
+  const { S } = at.evaluate(x);
+  return scoresToProbs(emotionScores(S, params, params.mapping));
+}
+
+// θ グリッド [−90, 90]（deg）
+export function thetaGrid(thetaStep: number): number[] {
+  const grid: number[] = [];
+  for (let th = -90; th <= 90; th += thetaStep) grid.push(th);
+  return grid;
+}
+
+// 与えた θ 列（deg）での提案 x の P_other(E | θ)
+export function thetaScanAt(scenario: Scenario, params: ModelParams, thetas: number[]): ThetaScanRow[] {
+  const satisfaction = satisfactionModel(scenario, params);
+  return thetas.map((th) => {
+    const at = satisfaction(deg2rad(th));
+    const { u, S } = at.evaluate(scenario.x);
+    const umax = at.umax;
+    return { theta: th, u, umax, S, ...scoresToProbs(emotionScores(S, params, params.mapping)) };
+  });
+}
+
+// θ ∈ [−90, 90] を step 刻みで走査
+export function thetaScan(scenario: Scenario, params: ModelParams, thetaStep: number): ThetaScanRow[] {
+  return thetaScanAt(scenario, params, thetaGrid(thetaStep));
+}
+
+// 固定 θ で候補を評価（スキャッター用）。U_max などは候補全体から求めるので candX は一部でもよい
+export function evaluateCandidates(
+  thetaDeg: number,
+  scenario: ScenarioSetup,
+  params: ModelParams,
+  candX: number[][] = enumerateCandX(scenario.q),
+): CandidateEval[] {
+  const { q, wSelf, wOther } = scenario;
+  const at = satisfactionModel(scenario, params)(deg2rad(thetaDeg));
+  return candX.map((xx) => {
+    const { u, S } = at.evaluate(xx);
+    const probs = scoresToProbs(emotionScores(S, params, params.mapping));
+    return {
+      x: xx,
+      selfValue: dot(wSelf, xx),
+      otherValue: dot(wOther, add(q, xx, -1)),
+      u,
+      S,
+      probs,
+      emotion: argmaxEmotion(probs),
+    };
+  });
+}
+
+export interface EmotionBand {
+  from: number; // deg
+  to: number;
+  emotion: Emotion;
+}
+
+// θ スキャン上で argmax 感情が同じ区間（境界は隣接グリッド点の中点）
+export function argmaxBands(rows: ThetaScanRow[]): EmotionBand[] {
+  const bands: EmotionBand[] = [];
+  rows.forEach((r, j) => {
+    const emotion = argmaxEmotion(r);
+    const from = j === 0 ? r.theta : (rows[j - 1].theta + r.theta) / 2;
+    const to = j === rows.length - 1 ? r.theta : (r.theta + rows[j + 1].theta) / 2;
+    const last = bands[bands.length - 1];
+    if (last?.emotion === emotion) last.to = to;
+    else bands.push({ from, to, emotion });
+  });
+  return bands;
+}
@@ -0,0 +1,58 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_SCENARIO, scenarioModelInputs } from "@/lib/scenario-state";
+import { simulateNegotiation, simulateNegotiationSteps, type ProposerStrategy, type SimulationOptions } from "./simulation";
+import { EMOTIONS } from "./types";
+
+const { scenario, params } = scenarioModelInputs(DEFAULT_SCENARIO);
+const setup = { q: scenario.q, wSelf: scenario.wSelf, wOther: scenario.wOther };
+const strategies: ProposerStrategy[] = [
+  { kind: "fixed" },
+  { kind: "concede", step: 1 },
+  { kind: "bayesian", prior: { kind: "uniform" }, thetaStep: 15, maxAnger: 0.2 },
+];
+const options = (strategy: ProposerStrategy, seed: number): SimulationOptions =>
+  ({ rounds: 12, seed, trueThetaDeg: 45, initialX: [7, 5, 5, 5], strategy, stopOnJoy: false });
+
+describe("simulateNegotiation", () => {
+  it("seed が同じなら結果も同じ（どの戦略でも）", () => {
+    for (const strategy of strategies) {
+      expect(simulateNegotiation(setup, params, options(strategy, 7))).toEqual(simulateNegotiation(setup, params, options(strategy, 7)));
+    }
+  });
+
+  it("seed を変えると表出される感情の列が変わる", () => {
+    // 温度の高い softmax で感情の確率をならす
+    const flat = { ...params, mapping: { id: "softmax" as const, params: { temperature: 0.5 } } };
+    const emotions = (seed: number) => simulateNegotiation(setup, flat, options(strategies[0], seed)).rounds.map((r) => r.emotion).join();
+    expect(new Set([1, 2, 3, 4, 5].map(emotions)).size).toBeGreaterThan(1);
+  });
+
+  it("fixed は同じ提案を続け、感情の数は合計でラウンド数", () => {
+    const r = simulateNegotiation(setup, params, options(strategies[0], 1));
+    expect(r.rounds).toHaveLength(12);
+    for (const round of r.rounds) expect(round.x).toEqual([7, 5, 5, 5]);
+    expect(EMOTIONS.reduce((s, e) => s + r.emotionCounts[e], 0)).toBe(12);
+    expect(r.agreedAt).toBeNull();
+  });
+
+  it("stopOnJoy なら最初の Joy で合意して終わる", () => {
+    const r = simulateNegotiation(setup, params, { ...options(strategies[1], 3), rounds: 50, stopOnJoy: true });
+    const firstJoy = r.rounds.findIndex((round) => round.emotion === "Joy");
+    expect(firstJoy).toBe(r.rounds.length - 1);
+    expect(r.agreedAt).toBe(r.rounds.length);
+  });
+
+  it("bayesian は θ の事後平均を記録する", () => {
+    const r = simulateNegotiation(setup, params, options(strategies[2], 1));
+    for (const round of r.rounds) expect(round.thetaMean).not.toBeNull();
+  });
+
+  it("steps 版はラウンドごとに進捗を返し、同じ結果になる", () => {
+    const steps = simulateNegotiationSteps(setup, params, options(strategies[1], 5));
+    const done: number[] = [];
+    let r = steps.next();
+    for (; !r.done; r = steps.next()) done.push(r.value.done);
+    expect(done).toEqual(Array.from({ length: 12 }, (_, k) => k + 1));
+    expect(r.value).toEqual(simulateNegotiation(setup, params, options(strategies[1], 5)));
+  });
+});
@@ -0,0 +1,157 @@
+import { add, deg2rad, dot, enumerateCandX } from "./math";
+import { priorWeights, summarizePosterior, type ThetaPrior } from "./inference";
+import { mulberry32 } from "./random";
+import { recommendOffers } from "./recommend";
+import { satisfactionModel } from "./satisfaction";
+import { emotionProbsAt, thetaGrid } from "./scan";
+import { runSteps, type Steps } from "./steps";
+import { EMOTIONS, type Emotion, type EmotionProbs, type ModelParams, type ScenarioSetup } from "./types";
+
+// 提案者の戦略
+//   fixed: 初期提案を出し続ける / concede: Anger の後に譲歩 / bayesian: θ 事後分布を更新して最適提案
+export type ProposerStrategy =
+  | { kind: "fixed" }
+  | { kind: "concede"; step: number }
+  | { kind: "bayesian"; prior: ThetaPrior; thetaStep: number; maxAnger: number };
+
+export interface SimulationOptions {
+  rounds: number;
+  seed: number;
+  trueThetaDeg: number; // 応答者の真の θ
+  initialX: number[];
+  strategy: ProposerStrategy;
+  stopOnJoy: boolean; // Joy を合意とみなして終了
+}
+
+export interface SimulationRound {
+  round: number; // 1 始まり
+  x: number[];
+  selfValue: number;
+  otherValue: number;
+  probs: EmotionProbs;
+  emotion: Emotion; // 応答者が実際に表出した感情（サンプル）
+  thetaMean: number | null; // bayesian: 提案時点の θ 事後平均
+}
+
+export interface SimulationResult {
+  rounds: SimulationRound[];
+  agreedAt: number | null;
+  finalSelf: number;
+  finalOther: number;
+  emotionCounts: Record<Emotion, number>;
+}
+
+// probs に従って感情を 1 つ引く
+export function sampleEmotion(rng: () => number, probs: EmotionProbs): Emotion {
+  let r = rng();
+  for (const e of EMOTIONS) {
+    r -= probs[e];
+    if (r < 0) return e;
+  }
+  return EMOTIONS[EMOTIONS.length - 1];
+}
+
+// 自分の損失 w_self が最も小さい品目を 1 個ずつ相手に渡す（同点なら相手の得が大きい品目）
+export function concede(setup: ScenarioSetup, x: number[], units: number): number[] {
+  const next = [...x];
+  for (let k = 0; k < units; k++) {
+    let best = -1;
+    for (let i = 0; i < next.length; i++) {
+      if (next[i] <= 0) continue;
+      if (best < 0 || setup.wSelf[i] < setup.wSelf[best]
+        || (setup.wSelf[i] === setup.wSelf[best] && setup.wOther[i] > setup.wOther[best])) best = i;
+    }
+    if (best < 0) break;
+    next[best] -= 1;
+  }
+  return next;
+}
+
+// N ラウンドの交渉: 提案 → 応答者が感情を表出 → 提案者が更新
+export function simulateNegotiation(
+  setup: ScenarioSetup,
+  params: ModelParams,
+  opts: SimulationOptions,
+  candX?: number[][],
+): SimulationResult {
+  return runSteps(simulateNegotiationSteps(setup, params, opts, candX));
+}
+
+// ラウンドごとに進捗を返す版（ワーカー用）。全候補は bayesian のときだけ列挙する
+export function* simulateNegotiationSteps(
+  setup: ScenarioSetup,
+  params: ModelParams,
+  opts: SimulationOptions,
+  candX?: number[][],
+): Steps<SimulationResult> {
+  const rng = mulberry32(opts.seed);
+  const satisfaction = satisfactionModel(setup, params);
+  const truth = satisfaction(deg2rad(opts.trueThetaDeg));
+  const { strategy } = opts;
+
+  // bayesian 用の θ グリッドと対数事後
+  const theta = strategy.kind === "bayesian" ? thetaGrid(strategy.thetaStep) : [];
+  const atTheta = theta.map((th) => satisfaction(deg2rad(th)));
+  const logPost = strategy.kind === "bayesian" ? priorWeights(strategy.prior, theta).map(Math.log) : [];
+  const cands = strategy.kind === "bayesian" ? candX ?? enumerateCandX(setup.q) : [];
+  const posteriorMass = () => {
+    const m = Math.max(...logPost);
+    const w = logPost.map((lp) => Math.exp(lp - m));
+    const z = w.reduce((s, v) => s + v, 0);
+    return w.map((v) => v / z);
+  };
+
+  const rounds: SimulationRound[] = [];
+  let x = [...opts.initialX];
+  let agreedAt: number | null = null;
+
+  for (let round = 1; round <= opts.rounds; round++) {
+    let thetaMean: number | null = null;
+    if (strategy.kind === "bayesian") {
+      const mass = posteriorMass();
+      thetaMean = summarizePosterior(theta, mass).mean;
+      const belief = { kind: "distribution" as const, theta, mass };
+      const { suggestions } = recommendOffers(setup, params, belief, [{ kind: "maxProb", emotion: "Anger", value: strategy.maxAnger }], 1, cands);
+      if (suggestions.length > 0) {
+        x = suggestions[0].x;
+      } else {
+        // 制約を満たす提案が無ければ Anger の期待確率が最小の提案
+        const all = recommendOffers(setup, params, belief, [], cands.length, cands).suggestions;
+        x = all.reduce((best, s) => (s.probs.Anger < best.probs.Anger ? s : best)).x;
+      }
+    }
+
+    const probs = emotionProbsAt(truth, x, params);
+    const emotion = sampleEmotion(rng, probs);
+    rounds.push({
+      round,
+      x,
+      selfValue: dot(setup.wSelf, x),
+      otherValue: dot(setup.wOther, add(setup.q, x, -1)),
+      probs,
+      emotion,
+      thetaMean,
+    });
+
+    if (opts.stopOnJoy && emotion === "Joy") {
+      agreedAt = round;
+      break;
+    }
+    if (strategy.kind === "concede" && emotion === "Anger") x = concede(setup, x, strategy.step);
+    if (strategy.kind === "bayesian") {
+      atTheta.forEach((at, j) => { logPost[j] += Math.log(emotionProbsAt(at, x, params)[emotion]); });
+    }
+    yield { done: round, total: opts.rounds };
+  }
+
+  const emotionCounts = Object.fromEntries(EMOTIONS.map((e) => [e, 0])) as Record<Emotion, number>;
+  for (const r of rounds) emotionCounts[r.emotion] += 1;
+  const last = rounds[rounds.length - 1];
+  return {
+    rounds,
+    agreedAt,
+    finalSelf: last?.selfValue ?? 0,
+    finalOther: last?.otherValue ?? 0,
+    emotionCounts,
+  };
+}
@@ -0,0 +1,15 @@
+// 長い計算を小分けに進める generator（区切りごとに進捗を yield し、最後に結果を return）
+// ワーカーは区切りで打ち切りを確かめ、同期の呼び出しは runSteps で最後まで回す
+export interface StepProgress {
+  done: number;
+  total: number;
+}
+
+export type Steps<T> = Generator<StepProgress, T, void>;
+
+export function runSteps<T>(steps: Steps<T>): T {
+  for (;;) {
+    const r = steps.next();
+    if (r.done) return r.value;
+  }
+}
@@ -0,0 +1,14 @@
+import { describe, expect, it } from "vitest";
+import { sweepValues } from "./sweep";
+
+describe("sweepValues", () => {
+  it("連続パラメータは端点を含む steps 点の等間隔", () => {
+    expect(sweepValues({ param: { kind: "beta" }, from: 0, to: 2, steps: 5 })).toEqual([0, 0.5, 1, 1.5, 2]);
+    expect(sweepValues({ param: { kind: "theta" }, from: 30, to: 60, steps: 1 })).toEqual([30]);
+  });
+
+  it("重みは steps によらず 1 刻みの整数", () => {
+    expect(sweepValues({ param: { kind: "wSelf", index: 0 }, from: -2, to: 2, steps: 3 })).toEqual([-2, -1, 0, 1, 2]);
+    expect(sweepValues({ param: { kind: "wOther", index: 1 }, from: 1.4, to: -1.6, steps: 10 })).toEqual([1, 0, -1, -2]);
+  });
+});
@@ -0,0 +1,114 @@
+import { deg2rad } from "./math";
+import { satisfactionModel } from "./satisfaction";
+import { emotionProbsAt, evaluateCandidates } from "./scan";
+import { EMOTIONS, type Emotion, type EmotionProbs, type ModelParams, type Scenario } from "./types";
+
+// 掃引できるパラメータ（重みは成分ごと）
+export type SweepParam =
+  | { kind: "beta" }
+  | { kind: "tau1" }
+  | { kind: "theta" }
+  | { kind: "wSelf"; index: number }
+  | { kind: "wOther"; index: number };
+
+export interface SweepAxis {
+  param: SweepParam;
+  from: number;
+  to: number;
+  steps: number; // 格子点の数（端点を含む）。重みの軸では使わない
+}
+
+export const isWeightParam = (p: SweepParam): p is Extract<SweepParam, { index: number }> =>
+  p.kind === "wSelf" || p.kind === "wOther";
+
+// offer: 現在の x の P(E) / share: 全候補のうち argmax が各感情になる割合
+export type SweepMetric = "offer" | "share";
+
+export interface SweepSpec {
+  scenario: Scenario;
+  params: ModelParams;
+  thetaDeg: number;
+  metric: SweepMetric;
+  x: SweepAxis;
+  y: SweepAxis | null;
+}
+
+export interface SweepCell {
+  xValue: number;
+  yValue: number | null;
+  dist: EmotionProbs;
+}
+
+export interface SweepResult {
+  xValues: number[];
+  yValues: number[] | null;
+  cells: SweepCell[][]; // cells[行 = y][列 = x]
+}
+
+// 掃引の 1 点で使う状態
+interface SweepPoint {
+  scenario: Scenario;
+  params: ModelParams;
+  thetaDeg: number;
+}
+
+// 重みは画面と同じく整数だけ（from から to まで 1 刻み、steps は無視）
+export function sweepValues(axis: SweepAxis): number[] {
+  if (isWeightParam(axis.param)) {
+    const from = Math.round(axis.from);
+    const to = Math.round(axis.to);
+    const dir = to >= from ? 1 : -1;
+    return Array.from({ length: Math.abs(to - from) + 1 }, (_, k) => from + dir * k);
+  }
+  const n = Math.max(1, Math.round(axis.steps));
+  if (n === 1) return [axis.from];
+  return Array.from({ length: n }, (_, k) => axis.from + ((axis.to - axis.from) * k) / (n - 1));
+}
+
+export function applySweepParam(point: SweepPoint, param: SweepParam, value: number): SweepPoint {
+  switch (param.kind) {
+    case "beta":
+      return { ...point, params: { ...point.params, beta: value } };
+    case "tau1":
+      return { ...point, params: { ...point.params, tau1: value } };
+    case "theta":
+      return { ...point, thetaDeg: value };
+    case "wSelf":
+    case "wOther": {
+      const w = [...point.scenario[param.kind]];
+      w[param.index] = value;
+      return { ...point, scenario: { ...point.scenario, [param.kind]: w } };
+    }
+  }
+}
+
+function metricAt(point: SweepPoint, metric: SweepMetric): EmotionProbs {
+  const { scenario, params, thetaDeg } = point;
+  if (metric === "offer") {
+    return emotionProbsAt(satisfactionModel(scenario, params)(deg2rad(thetaDeg)), scenario.x, params);
+  }
+  const counts = Object.fromEntries(EMOTIONS.map((e) => [e, 0])) as Record<Emotion, number>;
+  const candidates = evaluateCandidates(thetaDeg, scenario, params);
+  for (const c of candidates) counts[c.emotion] += 1;
+  return Object.fromEntries(EMOTIONS.map((e) => [e, counts[e] / candidates.length])) as EmotionProbs;
+}
+
+// y = yValue の 1 行ぶん（ワーカーは行単位で進捗を返す）
+export function sweepRow(spec: SweepSpec, yValue: number | null): SweepCell[] {
+  const base: SweepPoint = { scenario: spec.scenario, params: spec.params, thetaDeg: spec.thetaDeg };
+  const row = spec.y && yValue !== null ? applySweepParam(base, spec.y.param, yValue) : base;
+  return sweepValues(spec.x).map((xValue) => ({
+    xValue,
+    yValue,
+    dist: metricAt(applySweepParam(row, spec.x.param, xValue), spec.metric),
+  }));
+}
+
+export function runSweep(spec: SweepSpec): SweepResult {
+  const yValues = spec.y ? sweepValues(spec.y) : null;
+  return {
+    xValues: sweepValues(spec.x),
+    yValues,
+    cells: (yValues ?? [null]).map((y) => sweepRow(spec, y)),
+  };
+}
@@ -0,0 +1,79 @@
+// 感情ラベル（表示順）
+export const EMOTIONS = ["Joy", "Neutral", "Sad", "Anger"] as const;
+
+export type Emotion = (typeof EMOTIONS)[number];
+
+export type EmotionScores = Record<Emotion, number>;
+export type EmotionProbs = Record<Emotion, number>;
+
+// 交渉の状況: 個数 q、提案 x（self の取り分）、両者の重み（クリップ済み）
+export interface Scenario {
+  q: number[];
+  x: number[];
+  wSelf: number[];
+  wOther: number[];
+}
+
+// x を除いた交渉設定（候補全体や逆推論で使う）
+export type ScenarioSetup = Omit<Scenario, "x">;
+
+// S 上の感情領域を決めるしきい値
+//   S ≤ τ1: Anger / τ1 < S ≤ τ1 + sadBand: Sad / その上 τ2 まで Neutral→Joy / S ≥ τ2: Joy
+export interface EmotionThresholds {
+  tau1: number; // Anger しきい値 S_min
+  tau2: number; // Joy 飽和しきい値
+  sadBand: number; // τ1 直上の Sad 帯の幅
+}
+
+// モデル固有パラメータの定義（Controls のスライダーを自動生成する）
+export interface ModelParamSpec {
+  key: string;
+  label: string;
+  min: number;
+  max: number;
+  step: number;
+  default: number;
+}
+
+export type EmotionMappingId = "piecewise" | "softmax" | "sigmoid";
+
+// S → 感情スコアの写像モデルとその固有パラメータ
+export interface EmotionMappingConfig {
+  id: EmotionMappingId;
+  params: Record<string, number>;
+}
+
+export type SatisfactionModelId = "exponential" | "inequity" | "reference" | "rank";
+
+// 効用・満足度の定式化。reference は参照点モデルの基準提案（[] なら均等割り）
+export interface SatisfactionConfig {
+  id: SatisfactionModelId;
+  params: Record<string, number>;
+  reference: number[];
+}
+
+// 感情モデルのパラメータ
+export interface ModelParams extends EmotionThresholds {
+  beta: number; // 満足度の鋭さ β
+  mapping: EmotionMappingConfig;
+  satisfaction: SatisfactionConfig;
+}
+
+// θ スキャンの 1 行
+export interface ThetaScanRow extends EmotionProbs {
+  theta: number; // deg
+  u: number; // 提案 x の効用 U(θ)
+  umax: number; // U_max(θ)
+  S: number; // 満足度 S(θ)
+}
+
+// 候補 x 1 つ分の評価結果
+export interface CandidateEval {
+  x: number[];
+  selfValue: number;
+  otherValue: number;
+  u: number;
+  S: number;
+  probs: EmotionProbs;
+  emotion: Emotion;
+}
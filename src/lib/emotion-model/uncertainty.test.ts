@@ -0,0 +1,48 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_SCENARIO, scenarioModelInputs } from "@/lib/scenario-state";
+import { evaluateCandidates } from "./scan";
+import { EMOTIONS } from "./types";
+import { MAX_ENTROPY, emotionEntropy, emotionMargin, sampleCandidates, sampleCandidatesSteps } from "./uncertainty";
+
+const { scenario, params } = scenarioModelInputs(DEFAULT_SCENARIO);
+const candidates = evaluateCandidates(20, scenario, params).slice(0, 200);
+
+describe("emotionEntropy / emotionMargin", () => {
+  it("一様なら最大エントロピーでマージン 0、確定なら 0 とマージン 1", () => {
+    const uniform = { Joy: 0.25, Neutral: 0.25, Sad: 0.25, Anger: 0.25 };
+    const sure = { Joy: 0, Neutral: 0, Sad: 0, Anger: 1 };
+    expect(emotionEntropy(uniform)).toBeCloseTo(MAX_ENTROPY, 12);
+    expect(emotionMargin(uniform)).toBe(0);
+    expect(emotionEntropy(sure)).toBe(0);
+    expect(emotionMargin(sure)).toBe(1);
+  });
+});
+
+describe("sampleCandidates", () => {
+  const result = sampleCandidates(candidates, 500, 42);
+
+  it("seed と候補が同じなら同じ結果、seed を変えると違う", () => {
+    expect(sampleCandidates(candidates, 500, 42)).toEqual(result);
+    expect(sampleCandidates(candidates, 500, 43).samples.map((s) => s.counts)).not.toEqual(result.samples.map((s) => s.counts));
+  });
+
+  it("候補ごとの回数は M、経験頻度は和 1", () => {
+    for (const s of result.samples) {
+      expect(EMOTIONS.reduce((sum, e) => sum + s.counts[e], 0)).toBe(500);
+      expect(EMOTIONS.reduce((sum, e) => sum + s.freq[e], 0)).toBeCloseTo(1, 12);
+    }
+  });
+
+  it("較正ビンは全 (候補, 感情) の組を 1 回ずつ数える", () => {
+    expect(result.calibration.reduce((sum, b) => sum + b.n, 0)).toBe(candidates.length * EMOTIONS.length);
+  });
+
+  it("steps 版は同じ結果になる", () => {
+    const steps = sampleCandidatesSteps(candidates, 2000, 42);
+    let r = steps.next();
+    let yields = 0;
+    for (; !r.done; r = steps.next()) yields++;
+    expect(yields).toBeGreaterThan(0);
+    expect(r.value).toEqual(sampleCandidates(candidates, 2000, 42));
+  });
+});
@@ -0,0 +1,106 @@
+/*
+  分類の不確かさと確率的な相手
+  - エントロピー（bit、最大 log2 4 = 2）と、1 位と 2 位の確率の差（マージン）
+  - 候補ごとに感情を M 回引いた経験頻度（シード付き）とモデル確率を比べる
+*/
+
+import { argmaxEmotion } from "./model";
+import { mulberry32 } from "./random";
+import { sampleEmotion } from "./simulation";
+import { runSteps, type Steps } from "./steps";
+import { EMOTIONS, type CandidateEval, type Emotion, type EmotionProbs } from "./types";
+
+export const MAX_ENTROPY = Math.log2(EMOTIONS.length);
+
+export function emotionEntropy(probs: EmotionProbs): number {
+  let h = 0;
+  for (const e of EMOTIONS) if (probs[e] > 0) h -= probs[e] * Math.log2(probs[e]);
+  return h;
+}
+
+export function emotionMargin(probs: EmotionProbs): number {
+  const sorted = EMOTIONS.map((e) => probs[e]).sort((a, b) => b - a);
+  return sorted[0] - sorted[1];
+}
+
+export interface SampledCandidate {
+  candidate: CandidateEval;
+  counts: Record<Emotion, number>;
+  freq: EmotionProbs;
+  sampledMode: Emotion; // 最も多く引かれた感情
+  maxAbsError: number; // max_E |freq − P|
+}
+
+export interface CalibrationBin {
+  from: number;
+  to: number;
+  predicted: number; // ビン内の P の平均
+  observed: number; // 同じ組の経験頻度の平均
+  n: number; // (候補, 感情) の組の数
+}
+
+export interface SamplingResult {
+  draws: number;
+  seed: number;
+  samples: SampledCandidate[];
+  flipped: number; // 最頻の感情が argmax と違う候補の数
+  meanAbsError: number; // 全 (候補, 感情) での |freq − P| の平均
+  calibration: CalibrationBin[];
+}
+
+// 進捗を返す間隔（引いた回数）
+const DRAWS_PER_STEP = 200_000;
+
+// 候補の並び順に同じ乱数列から引くので、seed と候補が同じなら結果も同じ
+export function sampleCandidates(candidates: CandidateEval[], draws: number, seed: number, bins = 10): SamplingResult {
+  return runSteps(sampleCandidatesSteps(candidates, draws, seed, bins));
+}
+
+// 約 DRAWS_PER_STEP 回引くごとに進捗を返す版（ワーカー用）
+export function* sampleCandidatesSteps(candidates: CandidateEval[], draws: number, seed: number, bins = 10): Steps<SamplingResult> {
+  const rng = mulberry32(seed);
+  const binSums = Array.from({ length: bins }, () => ({ predicted: 0, observed: 0, n: 0 }));
+  let absErrorSum = 0;
+  let flipped = 0;
+
+  const samples: SampledCandidate[] = [];
+  let sinceStep = 0;
+  for (const c of candidates) {
+    const counts = Object.fromEntries(EMOTIONS.map((e) => [e, 0])) as Record<Emotion, number>;
+    for (let k = 0; k < draws; k++) counts[sampleEmotion(rng, c.probs)]++;
+    const freq = Object.fromEntries(EMOTIONS.map((e) => [e, draws > 0 ? counts[e] / draws : 0])) as EmotionProbs;
+    const sampledMode = argmaxEmotion(freq);
+    if (sampledMode !== c.emotion) flipped++;
+    let maxAbsError = 0;
+    for (const e of EMOTIONS) {
+      const err = Math.abs(freq[e] - c.probs[e]);
+      absErrorSum += err;
+      maxAbsError = Math.max(maxAbsError, err);
+      const b = binSums[Math.min(bins - 1, Math.floor(c.probs[e] * bins))];
+      b.predicted += c.probs[e];
+      b.observed += freq[e];
+      b.n++;
+    }
+    samples.push({ candidate: c, counts, freq, sampledMode, maxAbsError });
+    sinceStep += draws;
+    if (sinceStep >= DRAWS_PER_STEP) {
+      sinceStep = 0;
+      yield { done: samples.length, total: candidates.length };
+    }
+  }
+
+  return {
+    draws,
+    seed,
+    samples,
+    flipped,
+    meanAbsError: candidates.length > 0 ? absErrorSum / (candidates.length * EMOTIONS.length) : 0,
+    calibration: binSums.map((b, i) => ({
+      from: i / bins,
+      to: (i + 1) / bins,
+      predicted: b.n > 0 ? b.predicted / b.n : NaN,
+      observed: b.n > 0 ? b.observed / b.n : NaN,
+      n: b.n,
+    })),
+  };
+}
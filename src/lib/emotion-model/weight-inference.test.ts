@@ -0,0 +1,56 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_SCENARIO, scenarioModelInputs } from "@/lib/scenario-state";
+import { deg2rad, enumerateCandX } from "./math";
+import { argmaxEmotion } from "./model";
+import { satisfactionModel } from "./satisfaction";
+import { emotionProbsAt } from "./scan";
+import { weightLatticeSize, weightPosterior, type WeightInferenceOptions } from "./weight-inference";
+
+// 2 品目で真の w_other = [2, −1]、θ = 0 の相手が全候補に最も確からしい感情を返した観測
+const params = { ...scenarioModelInputs(DEFAULT_SCENARIO).params, beta: 0.1 };
+const q = [3, 3];
+const wSelf = [1, 1];
+const truth = [2, -1];
+const at = satisfactionModel({ q, wSelf, wOther: truth }, params)(deg2rad(0));
+const observations = enumerateCandX(q).map((x) => ({ x, emotion: argmaxEmotion(emotionProbsAt(at, x, params)) }));
+const opts: WeightInferenceOptions = {
+  wMax: 2,
+  thetaDeg: 0,
+  thetaPrior: { kind: "uniform" },
+  thetaStep: 5,
+  maxHypotheses: 1000,
+  seed: 1,
+  topK: weightLatticeSize(2, 2),
+};
+const sum = (v: number[]) => v.reduce((s, a) => s + a, 0);
+
+describe("weightPosterior", () => {
+  const post = weightPosterior(q, wSelf, params, observations, opts);
+
+  it("格子が小さければ全仮説を評価し、事後確率と周辺分布はそれぞれ和 1", () => {
+    expect(post).toMatchObject({ latticeSize: 25, evaluated: 25, sampled: false, thetaMarginal: null });
+    expect(sum(post.top.map((h) => h.prob))).toBeCloseTo(1, 12);
+    for (const row of post.marginals) expect(sum(row)).toBeCloseTo(1, 12);
+  });
+
+  it("真の重みで最大になり、上位は確率の降順", () => {
+    expect(post.top[0].wOther).toEqual(truth);
+    expect(post.top[0].prob).toBeGreaterThan(0.99);
+    post.top.slice(1).forEach((h, k) => expect(h.prob).toBeLessThanOrEqual(post.top[k].prob));
+    post.marginals.forEach((row, i) => expect(row.indexOf(Math.max(...row)) - opts.wMax).toBe(truth[i]));
+  });
+
+  it("θ を未知にしても真の重みが最大で、θ の周辺事後は和 1", () => {
+    const unknown = weightPosterior(q, wSelf, params, observations, { ...opts, thetaDeg: null });
+    expect(unknown.top[0].wOther).toEqual(truth);
+    expect(sum(unknown.thetaMarginal?.mass ?? [])).toBeCloseTo(1, 12);
+  });
+
+  it("格子が maxHypotheses より大きければ seed 付きで間引く", () => {
+    const sampledOpts = { ...opts, maxHypotheses: 10, topK: 10 };
+    const a = weightPosterior(q, wSelf, params, observations, sampledOpts);
+    expect(a).toMatchObject({ sampled: true, evaluated: 10 });
+    expect(sum(a.top.map((h) => h.prob))).toBeCloseTo(1, 12);
+    expect(weightPosterior(q, wSelf, params, observations, sampledOpts)).toEqual(a);
+  });
+});
@@ -0,0 +1,156 @@
+import { deg2rad, enumerateCandX } from "./math";
+import { satisfactionModel } from "./satisfaction";
+import { emotionProbsAt, thetaGrid } from "./scan";
+import { priorWeights, type EmotionObservation, type ThetaPrior } from "./inference";
+import { mulberry32, randomInt } from "./random";
+import { runSteps, type Steps } from "./steps";
+import type { ModelParams } from "./types";
+
+export interface WeightInferenceOptions {
+  wMax: number;
+  // θ を既知とするなら deg、未知なら thetaPrior で周辺化
+  thetaDeg: number | null;
+  thetaPrior: ThetaPrior;
+  thetaStep: number;
+  // 格子がこれより大きければ一様サンプリング
+  maxHypotheses: number;
+  seed: number;
+  topK: number;
+}
+
+export interface WeightHypothesis {
+  wOther: number[];
+  prob: number;
+  logLik: number; // log p(D | w_other)（θ 未知なら θ で周辺化済み）
+  thetaMap: number | null; // p(θ | D, w_other) の最頻値
+}
+
+export interface WeightPosterior {
+  top: WeightHypothesis[];
+  // marginals[i][v + wMax] = p(w_other,i = v | D)
+  marginals: number[][];
+  // θ 未知のときの θ 周辺事後
+  thetaMarginal: { theta: number[]; mass: number[] } | null;
+  latticeSize: number;
+  evaluated: number;
+  sampled: boolean;
+}
+
+export const weightLatticeSize = (n: number, wMax: number) => (2 * wMax + 1) ** n;
+
+// [−wMax, wMax]^n の整数格子
+export function enumerateWeightLattice(n: number, wMax: number): number[][] {
+  return enumerateCandX(new Array<number>(n).fill(2 * wMax)).map((w) => w.map((v) => v - wMax));
+}
+
+function sampleWeightLattice(n: number, wMax: number, count: number, seed: number): number[][] {
+  const rng = mulberry32(seed);
+  const seen = new Set<string>();
+  const out: number[][] = [];
+  // 重複は捨てる（格子より十分少ない count を想定）
+  for (let tries = 0; out.length < count && tries < count * 4; tries++) {
+    const w = Array.from({ length: n }, () => randomInt(rng, -wMax, wMax));
+    const key = w.join(",");
+    if (!seen.has(key)) {
+      seen.add(key);
+      out.push(w);
+    }
+  }
+  return out;
+}
+
+const logSumExp = (xs: number[]) => {
+  const m = Math.max(...xs);
+  if (m === -Infinity) return m;
+  let s = 0;
+  for (const v of xs) s += Math.exp(v - m);
+  return m + Math.log(s);
+};
+
+// 進捗を返す間隔（仮説数）
+const HYPOTHESIS_CHUNK = 500;
+
+// w_other（と必要なら θ）を未知として観測列から事後分布を求める。w_other の事前は格子上一様
+export function weightPosterior(
+  q: number[],
+  wSelf: number[],
+  params: ModelParams,
+  observations: EmotionObservation[],
+  opts: WeightInferenceOptions,
+): WeightPosterior {
+  return runSteps(weightPosteriorSteps(q, wSelf, params, observations, opts));
+}
+
+// HYPOTHESIS_CHUNK 個ごとに進捗を返す版（ワーカー用）
+export function* weightPosteriorSteps(
+  q: number[],
+  wSelf: number[],
+  params: ModelParams,
+  observations: EmotionObservation[],
+  opts: WeightInferenceOptions,
+): Steps<WeightPosterior> {
+  const n = q.length;
+  const latticeSize = weightLatticeSize(n, opts.wMax);
+  const sampled = latticeSize > opts.maxHypotheses;
+  const hypotheses = sampled
+    ? sampleWeightLattice(n, opts.wMax, opts.maxHypotheses, opts.seed)
+    : enumerateWeightLattice(n, opts.wMax);
+
+  const theta = opts.thetaDeg === null ? thetaGrid(opts.thetaStep) : [opts.thetaDeg];
+  const logPriorTheta = opts.thetaDeg === null
+    ? priorWeights(opts.thetaPrior, theta).map(Math.log)
+    : [0];
+  const thetaRad = theta.map(deg2rad);
+
+  // joint[h][j] = log p(θ_j) + log p(D | w_h, θ_j)
+  const logLik: number[] = [];
+  const thetaMap: number[] = [];
+  const joint: number[][] = [];
+  for (const wOther of hypotheses) {
+    const satisfaction = satisfactionModel({ q, wSelf, wOther }, params);
+    const row = thetaRad.map((rad, j) => {
+      const at = satisfaction(rad);
+      let lp = logPriorTheta[j];
+      for (const obs of observations) {
+        lp += Math.log(emotionProbsAt(at, obs.x, params)[obs.emotion]);
+      }
+      return lp;
+    });
+    joint.push(row);
+    logLik.push(logSumExp(row));
+    let best = 0;
+    for (let j = 1; j < row.length; j++) if (row[j] > row[best]) best = j;
+    thetaMap.push(theta[best]);
+    if (joint.length % HYPOTHESIS_CHUNK === 0) yield { done: joint.length, total: hypotheses.length };
+  }
+
+  const logZ = logSumExp(logLik);
+  const probs = logLik.map((ll) => Math.exp(ll - logZ));
+
+  const marginals = Array.from({ length: n }, () => new Array<number>(2 * opts.wMax + 1).fill(0));
+  hypotheses.forEach((w, h) => {
+    for (let i = 0; i < n; i++) marginals[i][w[i] + opts.wMax] += probs[h];
+  });
+
+  let thetaMarginal: WeightPosterior["thetaMarginal"] = null;
+  if (opts.thetaDeg === null) {
+    const mass = theta.map(() => 0);
+    joint.forEach((row) => row.forEach((lp, j) => { mass[j] += Math.exp(lp - logZ); }));
+    thetaMarginal = { theta, mass };
+  }
+
+  const order = probs.map((_, h) => h).sort((a, b) => probs[b] - probs[a]).slice(0, opts.topK);
+  return {
+    top: order.map((h) => ({
+      wOther: hypotheses[h],
+      prob: probs[h],
+      logLik: logLik[h],
+      thetaMap: opts.thetaDeg === null ? thetaMap[h] : null,
+    })),
+    marginals,
+    thetaMarginal,
+    latticeSize,
+    evaluated: hypotheses.length,
+    sampled,
+  };
+}
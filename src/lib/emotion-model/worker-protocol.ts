@@ -0,0 +1,73 @@
+import type { FitKey, FitOptions, FitResult, FitValues } from "@/lib/model-fit";
+import type { Trial } from "@/lib/trial-data";
+import type { EmotionObservation, ThetaPosterior, ThetaPrior } from "./inference";
+import type { OfferConstraint, OfferRecommendation, ThetaBelief } from "./recommend";
+import type { SimulationOptions, SimulationResult } from "./simulation";
+import type { SweepResult, SweepSpec } from "./sweep";
+import type { SamplingResult } from "./uncertainty";
+import type { CandidateEval, ModelParams, Scenario, ScenarioSetup, ThetaScanRow } from "./types";
+import type { WeightInferenceOptions, WeightPosterior } from "./weight-inference";
+
+// ワーカーに投げる計算
+export type ModelJob =
+  | { kind: "thetaScan"; scenario: Scenario; params: ModelParams; thetaStep: number }
+  | { kind: "candidates"; thetaDeg: number; setup: ScenarioSetup; params: ModelParams }
+  | { kind: "sweep"; spec: SweepSpec }
+  | {
+    kind: "posterior";
+    setup: ScenarioSetup;
+    params: ModelParams;
+    observations: EmotionObservation[];
+    prior: ThetaPrior;
+    thetaStep: number;
+  }
+  | {
+    kind: "recommend";
+    setup: ScenarioSetup;
+    params: ModelParams;
+    belief: ThetaBelief;
+    constraints: OfferConstraint[];
+    limit: number;
+  }
+  | { kind: "simulate"; setup: ScenarioSetup; params: ModelParams; options: SimulationOptions }
+  | {
+    kind: "weightPosterior";
+    q: number[];
+    wSelf: number[];
+    params: ModelParams;
+    observations: EmotionObservation[];
+    options: WeightInferenceOptions;
+  }
+  // thetaDeg は書き出し用（候補は評価済み）
+  | { kind: "sample"; candidates: CandidateEval[]; draws: number; seed: number; thetaDeg: number }
+  | {
+    kind: "fit";
+    trials: Trial[];
+    wSelf: number[];
+    wOther: number[];
+    params: ModelParams;
+    start: FitValues;
+    free: FitKey[];
+    options: FitOptions;
+  };
+
+export type ModelJobResult =
+  | { kind: "thetaScan"; rows: ThetaScanRow[] }
+  | { kind: "candidates"; candidates: CandidateEval[] }
+  | { kind: "sweep"; result: SweepResult }
+  | { kind: "posterior"; posterior: ThetaPosterior }
+  | { kind: "recommend"; recommendation: OfferRecommendation }
+  | { kind: "simulate"; result: SimulationResult }
+  | { kind: "weightPosterior"; posterior: WeightPosterior }
+  | { kind: "sample"; sampling: SamplingResult }
+  | { kind: "fit"; result: FitResult };
+
+// 新しい run は古い run を暗黙に打ち切る。cancel は指定 id が実行中なら打ち切る
+export type WorkerRequest =
+  | { type: "run"; id: number; job: ModelJob }
+  | { type: "cancel"; id: number };
+
+export type WorkerResponse =
+  | { type: "progress"; id: number; done: number; total: number }
+  | { type: "result"; id: number; result: ModelJobResult }
+  | { type: "error"; id: number; message: string };
@@ -0,0 +1,139 @@
+/*
+  アニメーション GIF の書き出し（GIF89a）
+  - フレームごとにローカル色表（最大 256 色）を作る: RGB 各 5 bit に丸めた頻度の高い色から採り、残りは最も近い色へ
+  - 画素は LZW で圧縮（最小符号長 8）
+  - 使い方: new Blob([gifHeader(w, h), ...frames.map((f) => gifFrame(f, w, h, delay)), GIF_TRAILER])
+*/
+
+export const GIF_TRAILER = new Uint8Array([0x3b]);
+
+const u16 = (v: number) => [v & 0xff, (v >> 8) & 0xff];
+
+// ヘッダ + 論理画面 + 無限ループ指定（NETSCAPE2.0）
+export function gifHeader(width: number, height: number): Uint8Array {
+  return new Uint8Array([
+    ...Array.from("GIF89a", (c) => c.charCodeAt(0)),
+    ...u16(width), ...u16(height), 0x00, 0x00, 0x00, // 大域色表なし
+    0x21, 0xff, 0x0b, ...Array.from("NETSCAPE2.0", (c) => c.charCodeAt(0)), 0x03, 0x01, ...u16(0), 0x00,
+  ]);
+}
+
+const bin15 = (r: number, g: number, b: number) => ((r >> 3) << 10) | ((g >> 3) << 5) | (b >> 3);
+
+// RGBA → 色表（RGB × 256）と画素ごとの番号
+export function quantize(rgba: Uint8ClampedArray): { palette: Uint8Array; indices: Uint8Array } {
+  const n = rgba.length / 4;
+  const count = new Uint32Array(32768);
+  const sum = new Float64Array(32768 * 3);
+  for (let p = 0; p < n; p++) {
+    const r = rgba[4 * p], g = rgba[4 * p + 1], b = rgba[4 * p + 2];
+    const k = bin15(r, g, b);
+    count[k]++;
+    sum[3 * k] += r;
+    sum[3 * k + 1] += g;
+    sum[3 * k + 2] += b;
+  }
+  const used: number[] = [];
+  for (let k = 0; k < 32768; k++) if (count[k] > 0) used.push(k);
+  used.sort((a, b) => count[b] - count[a]);
+  const chosen = used.slice(0, 256);
+
+  // 色はビン内の平均（チャートの感情色がそのまま残るように）
+  const palette = new Uint8Array(256 * 3);
+  chosen.forEach((k, i) => {
+    for (let c = 0; c < 3; c++) palette[3 * i + c] = Math.round(sum[3 * k + c] / count[k]);
+  });
+
+  const lookup = new Int16Array(32768).fill(-1);
+  chosen.forEach((k, i) => { lookup[k] = i; });
+  const nearest = (k: number) => {
+    const r = (k >> 10) << 3, g = ((k >> 5) & 31) << 3, b = (k & 31) << 3;
+    let best = 0;
+    let bestD = Infinity;
+    for (let i = 0; i < chosen.length; i++) {
+      const d = (palette[3 * i] - r) ** 2 + (palette[3 * i + 1] - g) ** 2 + (palette[3 * i + 2] - b) ** 2;
+      if (d < bestD) {
+        bestD = d;
+        best = i;
+      }
+    }
+    return best;
+  };
+
+  const indices = new Uint8Array(n);
+  for (let p = 0; p < n; p++) {
+    const k = bin15(rgba[4 * p], rgba[4 * p + 1], rgba[4 * p + 2]);
+    if (lookup[k] < 0) lookup[k] = nearest(k);
+    indices[p] = lookup[k];
+  }
+  return { palette, indices };
+}
+
+// 可変長 LZW（符号長 9〜12 bit、辞書が埋まったらクリア符号で作り直す）
+export function lzwEncode(indices: Uint8Array, minCodeSize = 8): Uint8Array {
+  const clear = 1 << minCodeSize;
+  const eoi = clear + 1;
+  const out: number[] = [];
+  let codeSize = minCodeSize + 1;
+  let next = eoi + 1;
+  let dict = new Map<number, number>();
+  let acc = 0;
+  let bits = 0;
+  const emit = (code: number) => {
+    acc |= code << bits;
+    bits += codeSize;
+    while (bits >= 8) {
+      out.push(acc & 0xff);
+      acc >>>= 8;
+      bits -= 8;
+    }
+  };
+
+  emit(clear);
+  if (indices.length === 0) {
+    emit(eoi);
+  } else {
+    let prefix = indices[0];
+    for (let i = 1; i < indices.length; i++) {
+      const k = indices[i];
+      const key = (prefix << 8) | k;
+      const code = dict.get(key);
+      if (code !== undefined) {
+        prefix = code;
+        continue;
+      }
+      emit(prefix);
+      if (next === 4096) {
+        emit(clear);
+        dict = new Map();
+        next = eoi + 1;
+        codeSize = minCodeSize + 1;
+      } else {
+        if (next >= 1 << codeSize) codeSize++;
+        dict.set(key, next++);
+      }
+      prefix = k;
+    }
+    emit(prefix);
+    emit(eoi);
+  }
+  if (bits > 0) out.push(acc & 0xff);
+  return new Uint8Array(out);
+}
+
+// 1 フレーム分（表示時間は 1/100 秒単位）
+export function gifFrame(rgba: Uint8ClampedArray, width: number, height: number, delayCs: number): Uint8Array {
+  const { palette, indices } = quantize(rgba);
+  const data = lzwEncode(indices);
+  const blocks: number[] = [];
+  for (let i = 0; i < data.length; i += 255) {
+    const chunk = data.subarray(i, i + 255);
+    blocks.push(chunk.length, ...chunk);
+  }
+  return new Uint8Array([
+    0x21, 0xf9, 0x04, 0x04, ...u16(Math.max(0, Math.round(delayCs))), 0x00, 0x00, // 重ね描き、透過なし
+    0x2c, ...u16(0), ...u16(0), ...u16(width), ...u16(height), 0x87, // 局所色表 256 色
+    ...palette,
+    0x08, ...blocks, 0x00,
+  ]);
+}
@@ -0,0 +1,359 @@
+// 英語の文言（キーの一覧も兼ねる）
+export const EN = {
+  // ---- 共通 ----
+  "locale.label": "Language",
+  "emotion.Joy": "Joy",
+  "emotion.Neutral": "Neutral",
+  "emotion.Sad": "Sad",
+  "emotion.Anger": "Anger",
+  "common.none": "None",
+  "common.clear": "Clear",
+  "common.cancel": "Cancel",
+  "common.use": "Use",
+  "common.seed": "Seed",
+  "common.color": "Color",
+  "common.self": "self",
+  "common.other": "other",
+  "common.selfOther": "self {self} / other {other}",
+  "common.candidateOne": "{count} candidate",
+  "common.candidateMany": "{count} candidates",
+  "common.more": "… and {count} more",
+  "common.heatmapEmotion": "Heatmap emotion",
+  "common.blend": "Blended emotion mix",
+  "common.computing": "computing… {percent}%",
+  "axis.theta": "θ (deg)",
+  "col.parameter": "parameter",
+  "col.offerX": "offer x",
+  "col.emotion": "emotion",
+  "col.logLik": "log lik",
+  "col.margin": "margin",
+  "param.beta": "β",
+  "param.tau1": "τ1",
+  "param.sadBand": "Sad band",
+  "param.tau2": "τ2",
+  "param.temperature": "T (softmax)",
+  "param.width": "k (sigmoid)",
+  "param.alpha": "α (disadv.)",
+  "param.betaFs": "β_FS (adv.)",
+  "param.lossAversion": "λ (loss aversion)",
+
+  // ---- ページ・操作パネル ----
+  "app.title": "Emotion Belt Explorer (scatter region + θ-scan)",
+  "controls.title": "Controls",
+  "controls.pin": "Pin as A",
+  "controls.repin": "Re-pin as A",
+  "controls.copyLink": "Copy link",
+  "controls.exportJson": "Export JSON",
+  "controls.importJson": "Import JSON",
+  "controls.reset": "Reset",
+  "controls.loadError": "Could not load scenario from {source}:",
+  "controls.dismiss": "Dismiss",
+  "controls.tau1": "S_min (τ1)",
+  "controls.tau2": "S_joy (τ2)",
+  "controls.betaUnused": "β is not used by the selected satisfaction model.",
+  "controls.wMax": "w_max",
+  "weights.self": "w_self (proposer)",
+  "weights.other": "w_other (emotion expresser)",
+  "weights.heading": "{label} (step=1)",
+  "weights.current": "current: [{values}]",
+  "division.title": "Division (x is self share, q − x is other share)",
+  "division.addItem": "Add item",
+  "division.colItem": "Your Item",
+  "division.colQuantity": "Quantity q_i",
+  "division.colSelf": "Your Point = x_i × w_self,i",
+  "division.colShare": "Division (x_i / q_i)",
+  "division.colOther": "Opponent Point = (q_i - x_i) × w_other,i",
+  "division.remove": "Remove {item}",
+  "division.itemPlaceholder": "Item {n}",
+  "division.itemName": "Name of item {n}",
+  "division.quantityOf": "Quantity of {item}",
+  "division.shareOf": "Self share x of {item}",
+  "division.quantityError": "integer 0–{max}",
+  "division.total": "Total Point",
+  "division.totalSelf": "self: {value}",
+  "division.totalOther": "other: {value}",
+  "notes.title": "Notes:",
+  "notes.axes": "Horizontal axis = own value Σ x_i w_self,i; vertical axis = opponent value Σ (q_i − x_i) w_other,i.",
+  "notes.points": "Each point is a candidate x (integer lattice). Its color is the emotion the other side expresses (Joy/Neutral/Sad/Anger).",
+  "notes.mapping": "Anger for S ≤ τ1, Sad for τ1 < S ≤ τ1 + Sad band, then a linear Neutral→Joy transition up to τ2, and Joy for S ≥ τ2 (Piecewise). Softmax uses the distance from each emotion's representative S at temperature T; Sigmoid smooths the same thresholds with width k.",
+  "notes.satisfaction": "Satisfaction defaults to S = exp(β(U − U_max)). Fehr–Schmidt subtracts the inequity penalties α·max(self − other, 0) and β_FS·max(other − self, 0) from U, the reference-point model uses S = σ(β(U − U_ref)) (losses weighted by λ), and the rank model uses the percentile of U among all candidates as S.",
+  "notes.uncertainty": "The Entropy / Top-2 margin colors show the entropy of P(E) and the gap between the two most likely emotions (darker = closer call). The stochastic opponent draws each candidate's emotion M times and compares the empirical frequencies with the model probabilities.",
+  "notes.size": "The number of points grows exponentially with q (currently {dims} dimensions, {points} points).",
+
+  // ---- プリセット ----
+  "preset.label": "Scenario preset",
+  "preset.builtin": "Built-in",
+  "preset.saved": "Saved",
+  "preset.name": "Preset name",
+  "preset.saveAs": "Save as",
+  "preset.rename": "Rename",
+  "preset.delete": "Delete",
+  "preset.saveError": "Could not save presets in this browser ({message}). They are kept until the page is closed.",
+  "preset.builtin:default": "Default",
+  "preset.builtin:mild": "Mild preferences (β = 0.8)",
+  "preset.builtin:three-issues": "Three issues (books / hats / balls)",
+  "preset.builtin:competitive": "Competitive opponent (θ = −45°)",
+
+  // ---- 写像・満足度モデル ----
+  "mapping.label": "Emotion mapping",
+  "mapping.compare": "Compare with",
+  "mapping.piecewise": "Piecewise (hard thresholds)",
+  "mapping.softmax": "Softmax over logits of S",
+  "mapping.sigmoid": "Sigmoid thresholds (ordinal)",
+  "satisfaction.label": "Satisfaction",
+  "satisfaction.exponential": "Relative to best offer (exp)",
+  "satisfaction.inequity": "Inequity aversion (Fehr–Schmidt)",
+  "satisfaction.reference": "Reference point (expected offer)",
+  "satisfaction.rank": "Rank among candidates (percentile)",
+  "satisfaction.referenceX": "Reference x",
+  "satisfaction.equalSplitNote": "(equal split)",
+  "satisfaction.useCurrent": "Use current x",
+  "satisfaction.equalSplit": "Equal split",
+  "satisfaction.rankNote": "The rank model ignores β: S is the share of candidates with U at most U(x).",
+
+  // ---- θ-scan ----
+  "scan.yAxis": "P_other(E | θ, x, w_self, w_other)",
+  "scan.uAxis": "U",
+  "scan.bands": "argmax bands",
+  "scan.observed": "observed frequency (n = {n})",
+  "scan.observedLegend": "Observed frequency (n = {n})",
+  "scan.observedLine": "obs {emotion}",
+  "scan.dragHint": "Drag on the chart to set θ.",
+
+  // ---- 候補のスキャッター ----
+  "scatter.observedTrial": "Observed trial{participant}: {emotion}",
+  "scatter.currentOffer": "Current offer",
+  "scatter.currentOfferTooltip": "Current offer: {x}",
+  "scatter.uncertainty": "entropy = {entropy} bit, margin = {margin}",
+  "scatter.clickHint": "Click to load into the Division sliders.",
+  "scatter.series.argmax": "Candidates",
+  "scatter.series.blend": "Candidates (blended P(E))",
+  "scatter.series.entropy": "Entropy of P(E) (dark = uncertain)",
+  "scatter.series.margin": "Top-2 margin (dark = close call)",
+  "scatter.color.argmax": "Argmax emotion",
+  "scatter.color.heat": "P(E) heatmap",
+  "scatter.color.entropy": "Entropy (uncertainty)",
+  "scatter.color.margin": "Top-2 margin",
+  "scatter.pareto": "Pareto frontier",
+  "scatter.trials": "Observed trials",
+  "scatter.count": "{candidates} candidates at {points} distinct points",
+  "scatter.xAxis": "Self value Σ x_i w_self,i",
+  "scatter.yAxis": "Other value Σ (q_i − x_i) w_other,i",
+
+  // ---- θ の再生・書き出し ----
+  "anim.play": "Play θ",
+  "anim.pause": "Pause",
+  "anim.playLabel": "Play θ animation",
+  "anim.pauseLabel": "Pause θ animation",
+  "anim.speed": "Speed",
+  "anim.speedLabel": "Animation speed",
+  "anim.mode": "Animation mode",
+  "anim.loop": "Loop",
+  "anim.bounce": "Bounce",
+  "anim.format": "Export format",
+  "anim.gif": "Animated GIF",
+  "anim.webm": "WebM video",
+  "anim.zip": "PNG per θ (zip)",
+  "anim.frameStep": "θ step between frames",
+  "anim.every": "every {step}°",
+  "anim.fps": "Frames per second",
+  "anim.export": "Export sequence",
+  "anim.capturing": "Capturing frame {done} / {total}…",
+  "anim.encoding": "Encoding {total} frames…",
+
+  // ---- 確率的な相手 ----
+  "stochastic.title": "Stochastic opponent (sampled emotions and classification uncertainty)",
+  "stochastic.meanEntropy": "Mean entropy of P(E)",
+  "stochastic.entropyValue": "{value} bit (max 2)",
+  "stochastic.meanMargin": "Mean top-2 margin",
+  "stochastic.closeCalls": "Close calls (margin < {margin})",
+  "stochastic.closeCallsValue": "{count} of {total} candidates",
+  "stochastic.draws": "Draws per candidate (M)",
+  "stochastic.sample": "Sample emotions",
+  "stochastic.tooMany": "{candidates} candidates × {draws} draws exceeds {limit}; lower M.",
+  "stochastic.stale": "The scenario or θ changed since sampling; sample again to update.",
+  "stochastic.explain": "Each candidate's emotion is drawn M times from its model probabilities (same seed ⇒ same draws), at θ = {theta}°. Use the scatter's Entropy / Top-2 margin colors to see where the belt boundaries run.",
+  "stochastic.totalDraws": "Total draws",
+  "stochastic.flipped": "Sampled majority ≠ argmax",
+  "stochastic.flippedValue": "{count} candidate(s)",
+  "stochastic.meanAbsError": "Mean |frequency − P|",
+  "stochastic.calibration": "Sampled frequency vs model probability",
+  "stochastic.binned": "Binned",
+  "stochastic.binnedLegend": "Binned (model P, sampled frequency)",
+  "stochastic.perfect": "Perfect agreement",
+  "stochastic.xAxis": "Model P(E) (binned)",
+  "stochastic.yAxis": "Sampled frequency",
+  "stochastic.binsNote": "All (candidate, emotion) pairs grouped into 10 bins of model probability; point size = pairs in the bin.",
+  "stochastic.closest": "Closest calls (smallest top-2 margin)",
+  "stochastic.colArgmax": "argmax",
+  "stochastic.colPFreq": "{emotion} P / freq",
+  "stochastic.colSampled": "sampled",
+  "stochastic.rowHint": "Click a row to load that offer into the Division sliders.",
+
+  // ---- A/B 比較 ----
+  "compare.title": "Scenario comparison (A = pinned, B = current controls)",
+  "compare.loadA": "Load A into controls",
+  "compare.unpin": "Unpin",
+  "compare.scan": "θ-scan: A dashed, B solid",
+  "compare.scanNote": "Each curve is evaluated at its own scenario's offer x; the vertical lines mark θ of A and B (the candidates below use those θ).",
+  "compare.candidates": "Candidates",
+  "compare.mode.diff": "Emotion-class changes",
+  "compare.mode.side": "Side by side",
+  "compare.changedCount": "{changed} of {total} candidates change argmax emotion from A to B",
+  "compare.pinned": "A (pinned)",
+  "compare.current": "B (current)",
+  "compare.waiting": "Waiting for both candidate sets…",
+  "compare.qMismatch": "A and B have different quantities q, so their candidate offers cannot be matched; use the side-by-side view.",
+  "compare.scanYAxis": "P_other(E | θ)",
+  "compare.xAxis": "Self value in B",
+  "compare.yAxis": "Other value in B",
+  "compare.unchanged": "Unchanged",
+  "compare.unchangedTooltip": "Unchanged: {emotion}",
+  "compare.changed": "Changed (fill = B, ring = A)",
+  "compare.changedTo": "Changed to {emotion}",
+  "compare.transitions": "Argmax emotion transitions (rows A, columns B)",
+  "compare.transitionsNote": "Points sit at B's coordinates. Click a changed point to load that offer into the Division sliders.",
+  "compare.params": "Parameter differences",
+  "compare.differ": "{changed} of {total} settings differ.",
+  "diff.items": "Items",
+  "diff.q": "q",
+  "diff.x": "x",
+  "diff.wSelf": "w_self",
+  "diff.wOther": "w_other",
+  "diff.wMax": "w_max",
+  "diff.theta": "θ (deg)",
+  "diff.thetaStep": "θ step",
+  "diff.beta": "β",
+  "diff.tau1": "τ1",
+  "diff.sadBand": "Sad band",
+  "diff.tau2": "τ2",
+  "diff.mapping": "Emotion mapping",
+  "diff.mappingParams": "Mapping params",
+  "diff.satisfaction": "Satisfaction model",
+  "diff.satisfactionParams": "Satisfaction params",
+  "diff.reference": "Reference offer",
+  "diff.equalSplit": "equal split",
+
+  // ---- 試行データ・最尤推定 ----
+  "trials.title": "Trial data (observed emotions vs model)",
+  "trials.template": "Template",
+  "trials.import": "Import CSV",
+  "trials.columns": "Columns: {columns}, optionally wSelf_1…, wOther_1… per trial (otherwise the current weights are used). Item columns must match the current {n} item(s); emotions are {emotions} (case-insensitive).",
+  "trials.mismatch": "The loaded trials have {loaded} item(s) but the scenario now has {n}; re-import or restore the items.",
+  "trials.summary": "{n} trial(s){source}; {matched} with the current q are overlaid on the charts.",
+  "trials.source": " from {file}",
+  "trials.logLik": "log-likelihood =",
+  "trials.perTrial": "(mean {mean} per trial)",
+  "trials.baseline": "Uniform baseline {baseline}; Δ = {delta}. Evaluated at the current θ, weights and model parameters.",
+  "trials.colParticipant": "participant",
+  "trials.colTrials": "trials",
+  "trials.colMean": "mean",
+  "trials.blank": "(blank)",
+  "fit.title": "Maximum-likelihood fit",
+  "fit.fit": "Fit",
+  "fit.grid": "Grid evaluations",
+  "fit.run": "Fit to trials",
+  "fit.explain": "Grid search over the slider ranges, then Nelder–Mead. Unchecked parameters, the weights (unless given per trial) and the emotion-mapping / satisfaction models stay at their current values. {n} trial(s) loaded.",
+  "fit.colStart": "start",
+  "fit.colFitted": "fitted",
+  "fit.colSe": "SE",
+  "fit.colCi": "Wald 95% CI",
+  "fit.logLik": "log-likelihood",
+  "fit.evaluations": "{count} likelihood evaluations",
+  "fit.notConverged": "; Nelder–Mead hit the iteration limit",
+  "fit.atBound": " {params} ended at the edge of the range, so no standard error there (Wald intervals do not hold at a bound); use the profile.",
+  "fit.noSe": " The Hessian is not positive definite (flat or boundary optimum), so no standard errors; use the profiles.",
+  "fit.apply": "Apply fitted values to sliders",
+  "fit.profile": "Profile log-likelihood: {param}",
+  "fit.profileNote": "Dashed grey line: max − 1.92 (likelihood-ratio 95% interval).",
+
+  // ---- θ 事後分布 ----
+  "posterior.title": "θ posterior from observed emotions",
+  "posterior.yAxis": "p(θ | observations)",
+  "posterior.prior": "prior",
+  "posterior.posterior": "posterior",
+  "posterior.map": "MAP: {value}°",
+  "posterior.mean": "mean: {mean}° (sd {sd})",
+  "posterior.ci": "{level}% CI: [{lower}°, {upper}°]",
+  "posterior.logEvidence": "log evidence: {value}",
+  "posterior.observe": "Observe current offer",
+  "posterior.empty": "No observations: the posterior equals the prior.",
+  "posterior.remove": "Remove observation {n}",
+  "posterior.ignored": "{count} observation(s) do not fit the current q and are ignored.",
+  "posterior.priorLabel": "Prior",
+  "posterior.uniform": "Uniform",
+  "posterior.vonMises": "von Mises–like",
+  "posterior.custom": "Custom (knots)",
+  "posterior.mu": "μ (deg)",
+  "posterior.kappa": "κ",
+  "posterior.knotsHint": "Non-negative weights at evenly spaced θ from −90° to 90°, linearly interpolated.",
+  "posterior.level": "CI level",
+
+  // ---- w_other 事後分布 ----
+  "wp.title": "w_other posterior (opponent weights unknown)",
+  "wp.fixed": "Fixed at slider ({theta}°)",
+  "wp.unknown": "Unknown (θ prior, step {step}°)",
+  "wp.topK": "top-k",
+  "wp.seed": "Sampling seed",
+  "wp.run": "Infer w_other",
+  "wp.summary": "{count} observation(s), lattice of {size} weight vectors{detail}. Re-run after changing observations or parameters.",
+  "wp.sampled": " (uniformly sampling {max})",
+  "wp.enumerated": " (enumerated)",
+  "wp.top": "Top {count} hypotheses",
+  "wp.thetaMarginal": "θ marginal: MAP {map}°, mean {mean}°, 95% CI [{lower}°, {upper}°]",
+  "wp.normalized": "Probabilities are normalized over the {count} sampled vectors.",
+  "wp.marginals": "Marginals p(w_other,i = v)",
+
+  // ---- 提案の推薦 ----
+  "rec.title": "Suggest offer (maximize self value under constraints)",
+  "rec.argmax": "expected emotion =",
+  "rec.threshold": "Probability threshold",
+  "rec.remove": "Remove constraint",
+  "rec.belief": "θ belief",
+  "rec.point": "Point at slider ({theta}°)",
+  "rec.posterior": "θ posterior (expected probabilities)",
+  "rec.showTop": "Show top",
+  "rec.add": "Add constraint",
+  "rec.feasible": "{feasible} of {total} candidates satisfy all constraints. Click a row to load it into x.",
+
+  // ---- 交渉シミュレーション ----
+  "sim.title": "Negotiation simulator (multi-round, sampled emotions)",
+  "sim.strategy": "Proposer strategy",
+  "sim.fixed": "Fixed (repeat current x)",
+  "sim.concede": "Concede after Anger",
+  "sim.bayesian": "Bayesian θ update",
+  "sim.concedeStep": "Units per concession",
+  "sim.maxAnger": "Max expected P(Anger)",
+  "sim.rounds": "Rounds",
+  "sim.run": "Run simulation",
+  "sim.stopOnJoy": "Joy ends the negotiation (agreement)",
+  "sim.explain": "The responder's true θ is the slider value ({theta}°); fixed and concede start from the current x, the Bayesian proposer starts from the θ prior.",
+  "sim.outcome": "Outcome",
+  "sim.agreed": "Agreement in round {round}",
+  "sim.noAgreement": "No agreement after {count} round(s)",
+  "sim.payoffs": "Final payoffs (last offer)",
+  "sim.emotions": "Expressed emotions",
+  "sim.colRound": "round",
+  "sim.colProb": "P(emotion)",
+  "sim.colTheta": "θ mean",
+  "sim.rowHint": "Click a round to load its offer into x. Re-run after changing parameters.",
+
+  // ---- パラメータ掃引 ----
+  "sweep.title": "Parameter sweep",
+  "sweep.none": "None (1-D sweep)",
+  "sweep.from": "From",
+  "sweep.to": "to",
+  "sweep.toLabel": "To",
+  "sweep.steps": "steps",
+  "sweep.stepsLabel": "Steps",
+  "sweep.xAxis": "x axis",
+  "sweep.yAxis": "y axis",
+  "sweep.metric": "Metric",
+  "sweep.metric.offer": "P(E) for the current x",
+  "sweep.metric.share": "Share of candidates per argmax emotion",
+  "sweep.heat": "Single emotion",
+  "sweep.run": "Run sweep",
+  "sweep.explain": "Parameters not on an axis are taken from the current controls (θ = {theta}°). Re-run after changing them.",
+};
+
+export type MessageKey = keyof typeof EN;
@@ -0,0 +1,35 @@
+/*
+  画面の文言（英語 / 日本語）
+  - キーは en.ts の辞書から決まり、ja.ts が同じキーをすべて持つ（欠けると型エラー）
+  - 文言中の {name} を vars の値で置き換える
+  - CSV / JSON の列名や感情の識別子はデータなので訳さない
+*/
+
+import type { Emotion } from "@/lib/emotion-model";
+import { EN, type MessageKey } from "./en";
+import { JA } from "./ja";
+
+export type { MessageKey };
+
+export type Locale = "en" | "ja";
+
+export const LOCALES: readonly Locale[] = ["en", "ja"];
+
+export const LOCALE_NAMES: Record<Locale, string> = { en: "English", ja: "日本語" };
+
+export type MessageVars = Record<string, string | number>;
+
+const MESSAGES: Record<Locale, Record<MessageKey, string>> = { en: EN, ja: JA };
+
+export const isLocale = (v: unknown): v is Locale => LOCALES.includes(v as Locale);
+
+// モデルのパラメータ名など、実行時に組み立てたキー用
+export const isMessageKey = (key: string): key is MessageKey => key in EN;
+
+export const emotionKey = (e: Emotion) => `emotion.${e}` as const;
+
+export function translate(locale: Locale, key: MessageKey, vars?: MessageVars): string {
+  const text = MESSAGES[locale][key];
+  if (!vars) return text;
+  return text.replace(/\{(\w+)\}/g, (m, name: string) => (name in vars ? String(vars[name]) : m));
+}
@@ -0,0 +1,359 @@
+import type { MessageKey } from "./en";
+
+// 日本語の文言（EN と同じキーをすべて持つ）
+export const JA: Record<MessageKey, string> = {
+  // ---- 共通 ----
+  "locale.label": "言語",
+  "emotion.Joy": "喜び",
+  "emotion.Neutral": "中立",
+  "emotion.Sad": "悲しみ",
+  "emotion.Anger": "怒り",
+  "common.none": "なし",
+  "common.clear": "クリア",
+  "common.cancel": "中止",
+  "common.use": "適用",
+  "common.seed": "シード",
+  "common.color": "色",
+  "common.self": "自分",
+  "common.other": "相手",
+  "common.selfOther": "自分 {self} / 相手 {other}",
+  "common.candidateOne": "候補 {count} 件",
+  "common.candidateMany": "候補 {count} 件",
+  "common.more": "… ほか {count} 件",
+  "common.heatmapEmotion": "ヒートマップの感情",
+  "common.blend": "感情の混合色",
+  "common.computing": "計算中… {percent}%",
+  "axis.theta": "θ（度）",
+  "col.parameter": "パラメータ",
+  "col.offerX": "提案 x",
+  "col.emotion": "感情",
+  "col.logLik": "対数尤度",
+  "col.margin": "マージン",
+  "param.beta": "β",
+  "param.tau1": "τ1",
+  "param.sadBand": "Sad 帯",
+  "param.tau2": "τ2",
+  "param.temperature": "T（softmax）",
+  "param.width": "k（sigmoid）",
+  "param.alpha": "α（不利）",
+  "param.betaFs": "β_FS（有利）",
+  "param.lossAversion": "λ（損失回避）",
+
+  // ---- ページ・操作パネル ----
+  "app.title": "感情ベルト探索（散布図 + θ スキャン）",
+  "controls.title": "操作パネル",
+  "controls.pin": "A として固定",
+  "controls.repin": "A を固定し直す",
+  "controls.copyLink": "リンクをコピー",
+  "controls.exportJson": "JSON に書き出し",
+  "controls.importJson": "JSON を読み込み",
+  "controls.reset": "リセット",
+  "controls.loadError": "{source} からシナリオを読み込めませんでした:",
+  "controls.dismiss": "閉じる",
+  "controls.tau1": "S_min（τ1）",
+  "controls.tau2": "S_joy（τ2）",
+  "controls.betaUnused": "選択中の満足度モデルでは β を使いません。",
+  "controls.wMax": "w_max",
+  "weights.self": "w_self（提案者）",
+  "weights.other": "w_other（感情の表出者）",
+  "weights.heading": "{label}（1 刻み）",
+  "weights.current": "現在: [{values}]",
+  "division.title": "配分（x が自分の取り分、q − x が相手の取り分）",
+  "division.addItem": "品目を追加",
+  "division.colItem": "品目",
+  "division.colQuantity": "個数 q_i",
+  "division.colSelf": "自分のポイント = x_i × w_self,i",
+  "division.colShare": "配分（x_i / q_i）",
+  "division.colOther": "相手のポイント = (q_i - x_i) × w_other,i",
+  "division.remove": "{item} を削除",
+  "division.itemPlaceholder": "品目 {n}",
+  "division.itemName": "品目 {n} の名前",
+  "division.quantityOf": "{item} の個数",
+  "division.shareOf": "{item} の自分の取り分 x",
+  "division.quantityError": "0–{max} の整数",
+  "division.total": "合計ポイント",
+  "division.totalSelf": "自分: {value}",
+  "division.totalOther": "相手: {value}",
+  "notes.title": "メモ:",
+  "notes.axes": "横軸 = 自分の価値 Σ x_i w_self,i、縦軸 = 相手の価値 Σ (q_i − x_i) w_other,i。",
+  "notes.points": "各点は候補 x の組（整数格子）。色は other の表出感情（喜び/中立/悲しみ/怒り）。",
+  "notes.mapping": "S ≤ τ1 で怒り、τ1 < S ≤ τ1 + Sad 帯で悲しみ、そこから τ2 まで中立→喜びに線形に移行し、S ≥ τ2 で喜び（Piecewise の場合）。Softmax は各感情の代表 S からの距離を温度 T で、Sigmoid は同じしきい値を幅 k でなだらかにしたもの。",
+  "notes.satisfaction": "満足度は既定で S = exp(β(U − U_max))。Fehr–Schmidt は U から不平等の罰則 α·max(self − other, 0)、β_FS·max(other − self, 0) を引き、参照点モデルは S = σ(β(U − U_ref))（損失側は λ 倍）、順位モデルは全候補中の U の百分位を S とする。",
+  "notes.uncertainty": "エントロピー / 上位 2 つの差の色は P(E) のエントロピーと 1 位・2 位の確率差（暗いほど分類が際どい）。確率的な相手では各候補の感情を M 回引き、経験頻度をモデル確率と比べる。",
+  "notes.size": "q を大きくすると点の数が指数的に増えるので注意（現在 {dims} 次元、{points} 点）。",
+
+  // ---- プリセット ----
+  "preset.label": "シナリオのプリセット",
+  "preset.builtin": "組み込み",
+  "preset.saved": "保存済み",
+  "preset.name": "プリセット名",
+  "preset.saveAs": "名前を付けて保存",
+  "preset.rename": "名前を変更",
+  "preset.delete": "削除",
+  "preset.saveError": "このブラウザにプリセットを保存できませんでした（{message}）。ページを閉じるまでは残ります。",
+  "preset.builtin:default": "既定",
+  "preset.builtin:mild": "穏やかな選好（β = 0.8）",
+  "preset.builtin:three-issues": "3 品目（本 / 帽子 / ボール）",
+  "preset.builtin:competitive": "競争的な相手（θ = −45°）",
+
+  // ---- 写像・満足度モデル ----
+  "mapping.label": "感情への写像",
+  "mapping.compare": "比較対象",
+  "mapping.piecewise": "区分線形（固定しきい値）",
+  "mapping.softmax": "S のロジットの Softmax",
+  "mapping.sigmoid": "Sigmoid しきい値（順序）",
+  "satisfaction.label": "満足度",
+  "satisfaction.exponential": "最良の提案との比（exp）",
+  "satisfaction.inequity": "不平等回避（Fehr–Schmidt）",
+  "satisfaction.reference": "参照点（期待する提案）",
+  "satisfaction.rank": "候補中の順位（百分位）",
+  "satisfaction.referenceX": "参照点 x",
+  "satisfaction.equalSplitNote": "（均等割り）",
+  "satisfaction.useCurrent": "現在の x を使う",
+  "satisfaction.equalSplit": "均等割り",
+  "satisfaction.rankNote": "順位モデルは β を使わない。S は U が U(x) 以下の候補の割合。",
+
+  // ---- θ-scan ----
+  "scan.yAxis": "相手の感情の確率 P_other(E | θ, x, w_self, w_other)",
+  "scan.uAxis": "効用 U",
+  "scan.bands": "argmax の帯",
+  "scan.observed": "観測頻度（n = {n}）",
+  "scan.observedLegend": "観測頻度（n = {n}）",
+  "scan.observedLine": "観測 {emotion}",
+  "scan.dragHint": "グラフ上をドラッグして θ を設定。",
+
+  // ---- 候補のスキャッター ----
+  "scatter.observedTrial": "観測した試行{participant}: {emotion}",
+  "scatter.currentOffer": "現在の提案",
+  "scatter.currentOfferTooltip": "現在の提案: {x}",
+  "scatter.uncertainty": "エントロピー = {entropy} bit、マージン = {margin}",
+  "scatter.clickHint": "クリックで配分スライダーに読み込む。",
+  "scatter.series.argmax": "候補",
+  "scatter.series.blend": "候補（P(E) の混合色）",
+  "scatter.series.entropy": "P(E) のエントロピー（暗い = 不確か）",
+  "scatter.series.margin": "上位 2 つの差（暗い = 際どい）",
+  "scatter.color.argmax": "argmax の感情",
+  "scatter.color.heat": "P(E) のヒートマップ",
+  "scatter.color.entropy": "エントロピー（不確かさ）",
+  "scatter.color.margin": "上位 2 つの差",
+  "scatter.pareto": "パレートフロンティア",
+  "scatter.trials": "観測した試行",
+  "scatter.count": "候補 {candidates} 件（異なる点 {points} 個）",
+  "scatter.xAxis": "自分の価値 Σ x_i w_self,i",
+  "scatter.yAxis": "相手の価値 Σ (q_i − x_i) w_other,i",
+
+  // ---- θ の再生・書き出し ----
+  "anim.play": "θ を再生",
+  "anim.pause": "一時停止",
+  "anim.playLabel": "θ のアニメーションを再生",
+  "anim.pauseLabel": "θ のアニメーションを一時停止",
+  "anim.speed": "速さ",
+  "anim.speedLabel": "アニメーションの速さ",
+  "anim.mode": "アニメーションの繰り返し方",
+  "anim.loop": "ループ",
+  "anim.bounce": "往復",
+  "anim.format": "書き出し形式",
+  "anim.gif": "アニメーション GIF",
+  "anim.webm": "WebM 動画",
+  "anim.zip": "θ ごとの PNG（zip）",
+  "anim.frameStep": "フレーム間の θ 刻み",
+  "anim.every": "{step}° ごと",
+  "anim.fps": "フレームレート",
+  "anim.export": "連番を書き出し",
+  "anim.capturing": "フレームを撮影中 {done} / {total}…",
+  "anim.encoding": "{total} フレームをエンコード中…",
+
+  // ---- 確率的な相手 ----
+  "stochastic.title": "確率的な相手（感情のサンプリングと分類の不確かさ）",
+  "stochastic.meanEntropy": "P(E) のエントロピーの平均",
+  "stochastic.entropyValue": "{value} bit（最大 2）",
+  "stochastic.meanMargin": "上位 2 つの差の平均",
+  "stochastic.closeCalls": "際どい候補（マージン < {margin}）",
+  "stochastic.closeCallsValue": "{total} 件中 {count} 件",
+  "stochastic.draws": "候補あたりの試行回数（M）",
+  "stochastic.sample": "感情をサンプリング",
+  "stochastic.tooMany": "候補 {candidates} 件 × {draws} 回が上限 {limit} を超えます。M を下げてください。",
+  "stochastic.stale": "サンプリング後にシナリオか θ が変わりました。もう一度サンプリングすると更新されます。",
+  "stochastic.explain": "各候補の感情をモデル確率から M 回引く（同じシード ⇒ 同じ結果）。θ = {theta}°。散布図のエントロピー / 上位 2 つの差の色で、ベルトの境界の位置がわかる。",
+  "stochastic.totalDraws": "総試行回数",
+  "stochastic.flipped": "最頻の感情 ≠ argmax",
+  "stochastic.flippedValue": "{count} 件",
+  "stochastic.meanAbsError": "|頻度 − P| の平均",
+  "stochastic.calibration": "サンプルの頻度とモデル確率",
+  "stochastic.binned": "ビン",
+  "stochastic.binnedLegend": "ビンごと（モデルの P、サンプルの頻度）",
+  "stochastic.perfect": "完全一致",
+  "stochastic.xAxis": "モデルの P(E)（ビン）",
+  "stochastic.yAxis": "サンプルの頻度",
+  "stochastic.binsNote": "すべての（候補, 感情）の組をモデル確率で 10 個のビンに分ける。点の大きさ = ビン内の組の数。",
+  "stochastic.closest": "際どい候補（上位 2 つの差が小さい順）",
+  "stochastic.colArgmax": "argmax",
+  "stochastic.colPFreq": "{emotion} P / 頻度",
+  "stochastic.colSampled": "サンプル",
+  "stochastic.rowHint": "行をクリックするとその提案を配分スライダーに読み込む。",
+
+  // ---- A/B 比較 ----
+  "compare.title": "シナリオの比較（A = 固定、B = 現在の操作パネル）",
+  "compare.loadA": "A を操作パネルに読み込む",
+  "compare.unpin": "固定を解除",
+  "compare.scan": "θ スキャン: A は破線、B は実線",
+  "compare.scanNote": "各曲線はそれぞれのシナリオの提案 x で計算。縦線は A と B の θ（下の候補はその θ で計算）。",
+  "compare.candidates": "候補",
+  "compare.mode.diff": "感情クラスの変化",
+  "compare.mode.side": "並べて表示",
+  "compare.changedCount": "{total} 件中 {changed} 件の候補で A から B へ argmax の感情が変わる",
+  "compare.pinned": "A（固定）",
+  "compare.current": "B（現在）",
+  "compare.waiting": "両方の候補の計算を待っています…",
+  "compare.qMismatch": "A と B で個数 q が違うため候補を対応づけられません。並べて表示を使ってください。",
+  "compare.scanYAxis": "相手の感情の確率 P_other(E | θ)",
+  "compare.xAxis": "B での自分の価値",
+  "compare.yAxis": "B での相手の価値",
+  "compare.unchanged": "変化なし",
+  "compare.unchangedTooltip": "変化なし: {emotion}",
+  "compare.changed": "変化あり（塗り = B、枠 = A）",
+  "compare.changedTo": "{emotion} に変化",
+  "compare.transitions": "argmax の感情の遷移（行 A、列 B）",
+  "compare.transitionsNote": "点は B の座標に置く。変化した点をクリックするとその提案を配分スライダーに読み込む。",
+  "compare.params": "パラメータの差分",
+  "compare.differ": "{total} 項目中 {changed} 項目が異なる。",
+  "diff.items": "品目",
+  "diff.q": "q",
+  "diff.x": "x",
+  "diff.wSelf": "w_self",
+  "diff.wOther": "w_other",
+  "diff.wMax": "w_max",
+  "diff.theta": "θ（度）",
+  "diff.thetaStep": "θ 刻み",
+  "diff.beta": "β",
+  "diff.tau1": "τ1",
+  "diff.sadBand": "Sad 帯",
+  "diff.tau2": "τ2",
+  "diff.mapping": "感情への写像",
+  "diff.mappingParams": "写像のパラメータ",
+  "diff.satisfaction": "満足度モデル",
+  "diff.satisfactionParams": "満足度のパラメータ",
+  "diff.reference": "参照点の提案",
+  "diff.equalSplit": "均等割り",
+
+  // ---- 試行データ・最尤推定 ----
+  "trials.title": "試行データ（観測した感情とモデル）",
+  "trials.template": "テンプレート",
+  "trials.import": "CSV を読み込み",
+  "trials.columns": "列: {columns}。試行ごとに wSelf_1…、wOther_1… も指定できる（なければ現在の重みを使う）。品目の列は現在の {n} 品目と一致させる。感情は {emotions}（大文字小文字は区別しない）。",
+  "trials.mismatch": "読み込んだ試行は {loaded} 品目ですが、シナリオは現在 {n} 品目です。読み込み直すか品目を戻してください。",
+  "trials.summary": "{n} 件の試行{source}。現在の q と同じ {matched} 件をグラフに重ねる。",
+  "trials.source": "（{file}）",
+  "trials.logLik": "対数尤度 =",
+  "trials.perTrial": "（試行あたり平均 {mean}）",
+  "trials.baseline": "一様分布の基準 {baseline}、Δ = {delta}。現在の θ・重み・モデルパラメータで計算。",
+  "trials.colParticipant": "参加者",
+  "trials.colTrials": "試行数",
+  "trials.colMean": "平均",
+  "trials.blank": "（空欄）",
+  "fit.title": "最尤推定",
+  "fit.fit": "推定する",
+  "fit.grid": "グリッドの評価回数",
+  "fit.run": "試行に当てはめる",
+  "fit.explain": "スライダーの範囲でグリッド探索してから Nelder–Mead。チェックしていないパラメータ、重み（試行ごとの指定がなければ）、感情への写像・満足度モデルは現在の値のまま。試行 {n} 件を読み込み済み。",
+  "fit.colStart": "初期値",
+  "fit.colFitted": "推定値",
+  "fit.colSe": "標準誤差",
+  "fit.colCi": "Wald 95% 信頼区間",
+  "fit.logLik": "対数尤度",
+  "fit.evaluations": "尤度を {count} 回評価",
+  "fit.notConverged": "。Nelder–Mead は反復の上限に達した",
+  "fit.atBound": " {params} は範囲の端で推定されたため標準誤差は出せません（端では Wald 区間が成り立ちません）。プロファイルを見てください。",
+  "fit.noSe": " ヘッセ行列が正定値でない（平坦または境界での最適値）ため標準誤差は出せません。プロファイルを見てください。",
+  "fit.apply": "推定値をスライダーに反映",
+  "fit.profile": "プロファイル対数尤度: {param}",
+  "fit.profileNote": "灰色の破線: 最大値 − 1.92（尤度比による 95% 区間）。",
+
+  // ---- θ 事後分布 ----
+  "posterior.title": "観測した感情からの θ の事後分布",
+  "posterior.yAxis": "p(θ | 観測)",
+  "posterior.prior": "事前分布",
+  "posterior.posterior": "事後分布",
+  "posterior.map": "MAP: {value}°",
+  "posterior.mean": "平均: {mean}°（標準偏差 {sd}）",
+  "posterior.ci": "{level}% 信用区間: [{lower}°, {upper}°]",
+  "posterior.logEvidence": "対数エビデンス: {value}",
+  "posterior.observe": "現在の提案で観測",
+  "posterior.empty": "観測なし: 事後分布は事前分布と同じ。",
+  "posterior.remove": "観測 {n} を削除",
+  "posterior.ignored": "{count} 件の観測は現在の q に合わないため無視しています。",
+  "posterior.priorLabel": "事前分布",
+  "posterior.uniform": "一様",
+  "posterior.vonMises": "von Mises 型",
+  "posterior.custom": "任意（節点）",
+  "posterior.mu": "μ（度）",
+  "posterior.kappa": "κ",
+  "posterior.knotsHint": "−90° から 90° を等間隔に区切った θ での非負の重み（線形補間）。",
+  "posterior.level": "信用区間の水準",
+
+  // ---- w_other 事後分布 ----
+  "wp.title": "w_other の事後分布（相手の重みが未知）",
+  "wp.fixed": "スライダーの値に固定（{theta}°）",
+  "wp.unknown": "未知（θ の事前分布、{step}° 刻み）",
+  "wp.topK": "上位 k 件",
+  "wp.seed": "サンプリングのシード",
+  "wp.run": "w_other を推定",
+  "wp.summary": "観測 {count} 件、重みベクトルの格子 {size} 個{detail}。観測やパラメータを変えたら再実行してください。",
+  "wp.sampled": "（{max} 個を一様にサンプリング）",
+  "wp.enumerated": "（全列挙）",
+  "wp.top": "上位 {count} 件の仮説",
+  "wp.thetaMarginal": "θ の周辺分布: MAP {map}°、平均 {mean}°、95% 信用区間 [{lower}°, {upper}°]",
+  "wp.normalized": "確率はサンプリングした {count} 個のベクトルで正規化している。",
+  "wp.marginals": "周辺分布 p(w_other,i = v)",
+
+  // ---- 提案の推薦 ----
+  "rec.title": "提案の推薦（制約のもとで自分の価値を最大化）",
+  "rec.argmax": "予想される感情 =",
+  "rec.threshold": "確率のしきい値",
+  "rec.remove": "制約を削除",
+  "rec.belief": "θ の想定",
+  "rec.point": "スライダーの値（{theta}°）",
+  "rec.posterior": "θ の事後分布（確率の期待値）",
+  "rec.showTop": "表示件数",
+  "rec.add": "制約を追加",
+  "rec.feasible": "{total} 件中 {feasible} 件の候補がすべての制約を満たす。行をクリックすると x に読み込む。",
+
+  // ---- 交渉シミュレーション ----
+  "sim.title": "交渉シミュレーション（複数ラウンド、感情をサンプリング）",
+  "sim.strategy": "提案者の戦略",
+  "sim.fixed": "固定（現在の x を繰り返す）",
+  "sim.concede": "怒りのあと譲歩",
+  "sim.bayesian": "θ をベイズ更新",
+  "sim.concedeStep": "1 回の譲歩の個数",
+  "sim.maxAnger": "P(怒り) の期待値の上限",
+  "sim.rounds": "ラウンド数",
+  "sim.run": "シミュレーションを実行",
+  "sim.stopOnJoy": "喜びで交渉を終える（合意）",
+  "sim.explain": "応答者の真の θ はスライダーの値（{theta}°）。固定と譲歩は現在の x から、ベイズ更新の提案者は θ の事前分布から始める。",
+  "sim.outcome": "結果",
+  "sim.agreed": "ラウンド {round} で合意",
+  "sim.noAgreement": "{count} ラウンドで合意せず",
+  "sim.payoffs": "最終的な利得（最後の提案）",
+  "sim.emotions": "表出した感情",
+  "sim.colRound": "ラウンド",
+  "sim.colProb": "P(感情)",
+  "sim.colTheta": "θ の平均",
+  "sim.rowHint": "ラウンドをクリックするとその提案を x に読み込む。パラメータを変えたら再実行してください。",
+
+  // ---- パラメータ掃引 ----
+  "sweep.title": "パラメータ掃引",
+  "sweep.none": "なし（1 次元の掃引）",
+  "sweep.from": "開始",
+  "sweep.to": "〜",
+  "sweep.toLabel": "終了",
+  "sweep.steps": "点",
+  "sweep.stepsLabel": "点数",
+  "sweep.xAxis": "x 軸",
+  "sweep.yAxis": "y 軸",
+  "sweep.metric": "指標",
+  "sweep.metric.offer": "現在の x での P(E)",
+  "sweep.metric.share": "argmax の感情ごとの候補の割合",
+  "sweep.heat": "単一の感情",
+  "sweep.run": "掃引を実行",
+  "sweep.explain": "軸にしないパラメータは現在の操作パネルの値（θ = {theta}°）。変えたら再実行してください。",
+};
@@ -0,0 +1,32 @@
+import { describe, expect, it } from "vitest";
+import { enumerateCandX } from "@/lib/emotion-model";
+import { DEFAULT_SCENARIO, scenarioModelInputs } from "@/lib/scenario-state";
+import { FIT_BOUNDS, fitModel, fitModelSteps, type FitKey } from "./model-fit";
+import type { Trial } from "./trial-data";
+
+const { scenario, params } = scenarioModelInputs(DEFAULT_SCENARIO);
+const { q, wSelf, wOther } = scenario;
+// 自分の取り分が少ない提案に毎回 Neutral（θ は −90° の端に張り付く）
+const trials: Trial[] = enumerateCandX(q).slice(0, 6).map((x) => ({ participant: "p", q, x, emotion: "Neutral" }));
+const start = { beta: params.beta, tau1: params.tau1, sadBand: params.sadBand, tau2: params.tau2, thetaDeg: 0 };
+const free: FitKey[] = ["beta", "tau1", "thetaDeg"];
+const opts = { gridBudget: 200, profilePoints: 5 };
+
+describe("fitModel", () => {
+  it("範囲の端で推定された変数は atBound に入れ、SE は内側の変数だけ出す", () => {
+    const r = fitModel(trials, wSelf, wOther, params, start, free, opts);
+    expect(r.fitted.thetaDeg).toBe(FIT_BOUNDS.thetaDeg[0]);
+    expect(r.atBound).toEqual(["thetaDeg"]);
+    expect(Object.keys(r.se ?? {}).sort()).toEqual(["beta", "tau1"]);
+  });
+
+  it("進捗は本体の当てはめとプロファイルの 1 点ごと", () => {
+    const steps = fitModelSteps(trials, wSelf, wOther, params, start, free, opts);
+    const done: number[] = [];
+    for (let r = steps.next(); !r.done; r = steps.next()) {
+      expect(r.value.total).toBe(1 + free.length * opts.profilePoints);
+      done.push(r.value.done);
+    }
+    expect(done).toEqual(Array.from({ length: 1 + free.length * opts.profilePoints }, (_, k) => k + 1));
+  });
+});
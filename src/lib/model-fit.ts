@@ -0,0 +1,168 @@
+/*
+  試行データへの最尤推定（β, τ1, Sad band, τ2, θ のうち選んだもの）
+  - 格子探索で初期値を決め、Nelder–Mead で局所改善（[0, 1] に正規化した座標で、範囲外は端に寄せる）
+  - 標準誤差は負の対数尤度の数値ヘッセ行列から（範囲の端に張り付いた変数は出さない）、プロファイル尤度は 1 変数ずつ固定して再最適化
+*/
+
+import { runSteps, type ModelParams, type Steps } from "@/lib/emotion-model";
+import { invertMatrix, nelderMead, numericHessian } from "@/lib/optimize";
+import { trialLogLikelihood, type Trial } from "@/lib/trial-data";
+
+export const FIT_KEYS = ["beta", "tau1", "sadBand", "tau2", "thetaDeg"] as const;
+
+export type FitKey = (typeof FIT_KEYS)[number];
+
+export type FitValues = Record<FitKey, number>;
+
+// スライダーと同じ範囲
+export const FIT_BOUNDS: Record<FitKey, [number, number]> = {
+  beta: [0, 4],
+  tau1: [0.05, 0.9],
+  sadBand: [0, 0.3],
+  tau2: [0.05, 1],
+  thetaDeg: [-90, 90],
+};
+
+export interface FitProfile {
+  key: FitKey;
+  values: number[];
+  logLik: number[];
+}
+
+export interface FitResult {
+  free: FitKey[];
+  start: FitValues;
+  fitted: FitValues;
+  startLogLik: number;
+  logLik: number;
+  se: Partial<Record<FitKey, number>> | null; // ヘッセ行列が正定値でなければ null
+  atBound: FitKey[]; // 範囲の端にあり SE を出さない変数
+  profiles: FitProfile[];
+  evaluations: number;
+  converged: boolean;
+}
+
+export interface FitOptions {
+  gridBudget: number; // 格子探索の評価回数の上限
+  profilePoints: number;
+}
+
+const clamp01 = (v: number) => Math.max(0, Math.min(1, v));
+
+export function fitModel(
+  trials: Trial[],
+  wSelf: number[],
+  wOther: number[],
+  params: ModelParams,
+  start: FitValues,
+  free: FitKey[],
+  opts: FitOptions,
+): FitResult {
+  return runSteps(fitModelSteps(trials, wSelf, wOther, params, start, free, opts));
+}
+
+// 本体の当てはめとプロファイルの 1 点ごとに進捗を返す版（ワーカー用）
+export function* fitModelSteps(
+  trials: Trial[],
+  wSelf: number[],
+  wOther: number[],
+  params: ModelParams,
+  start: FitValues,
+  free: FitKey[],
+  opts: FitOptions,
+): Steps<FitResult> {
+  const total = 1 + free.length * opts.profilePoints;
+  let evaluations = 0;
+  const logLikAt = (v: FitValues) => {
+    evaluations++;
+    const { thetaDeg, ...p } = v;
+    return trialLogLikelihood(trials, wSelf, wOther, { ...params, ...p }, thetaDeg).total;
+  };
+  const toValues = (u: number[], base: FitValues, keys: FitKey[]) => {
+    const v = { ...base };
+    keys.forEach((k, i) => {
+      const [lo, hi] = FIT_BOUNDS[k];
+      v[k] = lo + clamp01(u[i]) * (hi - lo);
+    });
+    return v;
+  };
+  const toUnit = (v: FitValues, keys: FitKey[]) =>
+    keys.map((k) => {
+      const [lo, hi] = FIT_BOUNDS[k];
+      return clamp01((v[k] - lo) / (hi - lo));
+    });
+
+  // keys 以外を base に固定して最大化（格子探索 → Nelder–Mead）
+  const maximize = (base: FitValues, keys: FitKey[], budget: number, maxIter: number) => {
+    const negLL = (u: number[]) => -logLikAt(toValues(u, base, keys));
+    let bestU = toUnit(base, keys);
+    let bestF = negLL(bestU);
+    if (keys.length > 0 && budget > 0) {
+      const g = Math.max(2, Math.min(21, Math.floor(Math.pow(budget, 1 / keys.length))));
+      const idx = new Array<number>(keys.length).fill(0);
+      for (;;) {
+        const u = idx.map((k) => k / (g - 1));
+        const f = negLL(u);
+        if (f < bestF) {
+          bestF = f;
+          bestU = u;
+        }
+        let d = 0;
+        while (d < keys.length && ++idx[d] === g) idx[d++] = 0;
+        if (d === keys.length) break;
+      }
+    }
+    const nm = nelderMead(negLL, bestU, { step: 0.05, maxIter, tol: 1e-9 });
+    const better = nm.f <= bestF;
+    return { values: toValues(better ? nm.x : bestU, base, keys), logLik: -(better ? nm.f : bestF), converged: nm.converged };
+  };
+
+  const startLogLik = logLikAt(start);
+  const best = maximize(start, free, opts.gridBudget, 400);
+  yield { done: 1, total };
+
+  // 元の単位でのヘッセ行列 → 共分散
+  // 中心差分が範囲外を踏む（端から h 以内の）変数は固定し、SE を出さない（端では Wald 区間が成り立たない）
+  const step = (k: FitKey) => (FIT_BOUNDS[k][1] - FIT_BOUNDS[k][0]) * 1e-3;
+  const atBound = free.filter((k) => best.values[k] - FIT_BOUNDS[k][0] <= step(k) || FIT_BOUNDS[k][1] - best.values[k] <= step(k));
+  const interior = free.filter((k) => !atBound.includes(k));
+  let se: FitResult["se"] = null;
+  if (interior.length > 0) {
+    const negLL = (x: number[]) => {
+      const v = { ...best.values };
+      interior.forEach((k, i) => { v[k] = x[i]; });
+      return -logLikAt(v);
+    };
+    const cov = invertMatrix(numericHessian(negLL, interior.map((k) => best.values[k]), interior.map(step)));
+    if (cov && interior.every((_, i) => cov[i][i] > 0)) {
+      se = Object.fromEntries(interior.map((k, i) => [k, Math.sqrt(cov[i][i])]));
+    }
+  }
+
+  // プロファイル尤度: 1 変数を格子上に固定し、残りを最適から再最適化
+  const profiles: FitProfile[] = [];
+  for (const key of free) {
+    const [lo, hi] = FIT_BOUNDS[key];
+    const values = Array.from({ length: opts.profilePoints }, (_, k) => lo + ((hi - lo) * k) / (opts.profilePoints - 1));
+    const rest = free.filter((k) => k !== key);
+    const logLik: number[] = [];
+    for (const v of values) {
+      logLik.push(maximize({ ...best.values, [key]: v }, rest, 0, 150).logLik);
+      yield { done: 1 + profiles.length * opts.profilePoints + logLik.length, total };
+    }
+    profiles.push({ key, values, logLik });
+  }
+
+  return {
+    free,
+    start,
+    fitted: best.values,
+    startLogLik,
+    logLik: best.logLik,
+    se,
+    atBound,
+    profiles,
+    evaluations,
+    converged: best.converged,
+  };
+}
@@ -0,0 +1,103 @@
+// 最小化の汎用ルーチン（微分不要）
+
+export interface NelderMeadOptions {
+  step?: number; // 初期単体の各軸方向の幅
+  maxIter?: number;
+  tol?: number; // 単体内の f の幅がこれ未満で収束
+}
+
+export interface MinimizeResult {
+  x: number[];
+  f: number;
+  iterations: number;
+  evaluations: number;
+  converged: boolean;
+}
+
+// Nelder–Mead 単体法（標準係数: 反射 1, 拡大 2, 収縮 0.5, 縮小 0.5）
+export function nelderMead(f: (x: number[]) => number, x0: number[], opts: NelderMeadOptions = {}): MinimizeResult {
+  const { step = 0.1, maxIter = 500, tol = 1e-8 } = opts;
+  const n = x0.length;
+  let evaluations = 0;
+  const evalAt = (x: number[]) => {
+    evaluations++;
+    const v = f(x);
+    return Number.isFinite(v) ? v : Infinity;
+  };
+  if (n === 0) return { x: [], f: evalAt([]), iterations: 0, evaluations, converged: true };
+
+  let simplex = [x0, ...x0.map((_, i) => x0.map((v, j) => (i === j ? v + step : v)))].map((x) => ({ x, f: evalAt(x) }));
+  const lerp = (a: number[], b: number[], t: number) => a.map((ai, i) => ai + t * (b[i] - ai));
+
+  let iterations = 0;
+  let converged = false;
+  for (; iterations < maxIter; iterations++) {
+    simplex.sort((a, b) => a.f - b.f);
+    if (Math.abs(simplex[n].f - simplex[0].f) < tol) {
+      converged = true;
+      break;
+    }
+    const centroid = x0.map((_, i) => simplex.slice(0, n).reduce((s, p) => s + p.x[i], 0) / n);
+    const worst = simplex[n];
+
+    const xr = lerp(centroid, worst.x, -1);
+    const fr = evalAt(xr);
+    if (fr < simplex[0].f) {
+      const xe = lerp(centroid, worst.x, -2);
+      const fe = evalAt(xe);
+      simplex[n] = fe < fr ? { x: xe, f: fe } : { x: xr, f: fr };
+    } else if (fr < simplex[n - 1].f) {
+      simplex[n] = { x: xr, f: fr };
+    } else {
+      // 外側 / 内側の収縮
+      const xc = fr < worst.f ? lerp(centroid, xr, 0.5) : lerp(centroid, worst.x, 0.5);
+      const fc = evalAt(xc);
+      if (fc < Math.min(fr, worst.f)) {
+        simplex[n] = { x: xc, f: fc };
+      } else {
+        const best = simplex[0].x;
+        simplex = simplex.map((p, k) => (k === 0 ? p : { x: lerp(best, p.x, 0.5), f: evalAt(lerp(best, p.x, 0.5)) }));
+      }
+    }
+  }
+  simplex.sort((a, b) => a.f - b.f);
+  return { x: simplex[0].x, f: simplex[0].f, iterations, evaluations, converged };
+}
+
+// 中心差分のヘッセ行列（h は軸ごとの刻み）
+export function numericHessian(f: (x: number[]) => number, x: number[], h: number[]): number[][] {
+  const n = x.length;
+  const at = (d: Record<number, number>) => f(x.map((v, i) => v + (d[i] ?? 0)));
+  const f0 = f(x);
+  const H = Array.from({ length: n }, () => new Array<number>(n).fill(0));
+  for (let i = 0; i < n; i++) {
+    H[i][i] = (at({ [i]: h[i] }) - 2 * f0 + at({ [i]: -h[i] })) / (h[i] * h[i]);
+    for (let j = i + 1; j < n; j++) {
+      const v = (at({ [i]: h[i], [j]: h[j] }) - at({ [i]: h[i], [j]: -h[j] })
+        - at({ [i]: -h[i], [j]: h[j] }) + at({ [i]: -h[i], [j]: -h[j] })) / (4 * h[i] * h[j]);
+      H[i][j] = v;
+      H[j][i] = v;
+    }
+  }
+  return H;
+}
+
+// ガウス・ジョルダン法の逆行列（特異なら null）
+export function invertMatrix(m: number[][]): number[][] | null {
+  const n = m.length;
+  const a = m.map((row, i) => [...row, ...row.map((_, j) => (i === j ? 1 : 0))]);
+  for (let c = 0; c < n; c++) {
+    let pivot = c;
+    for (let r = c + 1; r < n; r++) if (Math.abs(a[r][c]) > Math.abs(a[pivot][c])) pivot = r;
+    if (Math.abs(a[pivot][c]) < 1e-12) return null;
+    [a[c], a[pivot]] = [a[pivot], a[c]];
+    const p = a[c][c];
+    for (let j = 0; j < 2 * n; j++) a[c][j] /= p;
+    for (let r = 0; r < n; r++) {
+      if (r === c) continue;
+      const k = a[r][c];
+      for (let j = 0; j < 2 * n; j++) a[r][j] -= k * a[c][j];
+    }
+  }
+  return a.map((row) => row.slice(n));
+}
@@ -0,0 +1,107 @@
+/*
+  2 つのシナリオ（固定した A と編集中の B）の比較
+  - パラメータの差分表
+  - θ-scan の重ね描き用に θ でまとめた行
+  - 同じ q のときは候補 x ごとに感情クラスの変化（A → B）を数える
+*/
+
+import {
+  EMOTIONS,
+  type CandidateEval,
+  type Emotion,
+  type EmotionProbs,
+  type ThetaScanRow,
+} from "@/lib/emotion-model";
+import type { ScenarioState } from "@/lib/scenario-state";
+
+// 行の種類（表示名は画面側で訳す）
+export type ParamDiffKey =
+  | "items" | "q" | "x" | "wSelf" | "wOther" | "wMax" | "theta" | "thetaStep" | "beta" | "tau1" | "sadBand" | "tau2"
+  | "mapping" | "mappingParams" | "satisfaction" | "satisfactionParams" | "reference";
+
+// 値 null は参照点なし（均等割り）。表示は画面側で訳す
+export interface ParamDiffRow {
+  key: ParamDiffKey;
+  a: string | null;
+  b: string | null;
+  changed: boolean;
+}
+
+const fmtList = (v: (number | string)[]) => `[${v.join(", ")}]`;
+const fmtParams = (p: Record<string, number>) =>
+  Object.keys(p).length === 0 ? "—" : Object.entries(p).map(([k, v]) => `${k}: ${v}`).join(", ");
+
+export function scenarioDiff(a: ScenarioState, b: ScenarioState): ParamDiffRow[] {
+  const rows: [ParamDiffKey, string | null, string | null][] = [
+    ["items", fmtList(a.names), fmtList(b.names)],
+    ["q", fmtList(a.q), fmtList(b.q)],
+    ["x", fmtList(a.x), fmtList(b.x)],
+    ["wSelf", fmtList(a.wSelf), fmtList(b.wSelf)],
+    ["wOther", fmtList(a.wOther), fmtList(b.wOther)],
+    ["wMax", String(a.wMax), String(b.wMax)],
+    ["theta", String(a.thetaDeg), String(b.thetaDeg)],
+    ["thetaStep", String(a.thetaStep), String(b.thetaStep)],
+    ["beta", String(a.beta), String(b.beta)],
+    ["tau1", String(a.tau1), String(b.tau1)],
+    ["sadBand", String(a.sadBand), String(b.sadBand)],
+    ["tau2", String(a.tau2), String(b.tau2)],
+    ["mapping", a.mapping.id, b.mapping.id],
+    ["mappingParams", fmtParams(a.mapping.params), fmtParams(b.mapping.params)],
+    ["satisfaction", a.satisfaction.id, b.satisfaction.id],
+    ["satisfactionParams", fmtParams(a.satisfaction.params), fmtParams(b.satisfaction.params)],
+    [
+      "reference",
+      a.satisfaction.reference.length > 0 ? fmtList(a.satisfaction.reference) : null,
+      b.satisfaction.reference.length > 0 ? fmtList(b.satisfaction.reference) : null,
+    ],
+  ];
+  return rows.map(([key, av, bv]) => ({ key, a: av, b: bv, changed: av !== bv }));
+}
+
+// θ ごとに A_E, B_E の列を持つ行（θ 刻みが違えば片方は欠ける）
+export type OverlayRow = { theta: number } & Partial<Record<`A_${Emotion}` | `B_${Emotion}`, number>>;
+
+export function overlayScans(a: ThetaScanRow[], b: ThetaScanRow[]): OverlayRow[] {
+  const byTheta = new Map<number, OverlayRow>();
+  const put = (rows: ThetaScanRow[], side: "A" | "B") => {
+    for (const r of rows) {
+      const row = byTheta.get(r.theta) ?? { theta: r.theta };
+      for (const e of EMOTIONS) row[`${side}_${e}`] = r[e];
+      byTheta.set(r.theta, row);
+    }
+  };
+  put(a, "A");
+  put(b, "B");
+  return [...byTheta.values()].sort((p, q) => p.theta - q.theta);
+}
+
+export interface CandidateChange {
+  x: number[];
+  a: { emotion: Emotion; probs: EmotionProbs };
+  b: CandidateEval;
+}
+
+export interface CandidateDiff {
+  changes: CandidateChange[]; // B の全候補（座標は B のもの）
+  transitions: Record<Emotion, Record<Emotion, number>>; // [A の感情][B の感情] = 件数
+  changed: number;
+}
+
+// q が違うと候補の集合が一致しないので null
+export function diffCandidates(a: CandidateEval[], b: CandidateEval[]): CandidateDiff | null {
+  if (a.length !== b.length) return null;
+  const byX = new Map(a.map((c) => [c.x.join(","), c]));
+  const transitions = Object.fromEntries(
+    EMOTIONS.map((e) => [e, Object.fromEntries(EMOTIONS.map((f) => [f, 0]))]),
+  ) as CandidateDiff["transitions"];
+  const changes: CandidateChange[] = [];
+  let changed = 0;
+  for (const c of b) {
+    const prev = byX.get(c.x.join(","));
+    if (!prev) return null;
+    transitions[prev.emotion][c.emotion]++;
+    if (prev.emotion !== c.emotion) changed++;
+    changes.push({ x: c.x, a: { emotion: prev.emotion, probs: prev.probs }, b: c });
+  }
+  return { changes, transitions, changed };
+}
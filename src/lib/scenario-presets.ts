@@ -0,0 +1,71 @@
+import { DEFAULT_SCENARIO, validateScenarioState, type ScenarioState } from "./scenario-state";
+
+export interface ScenarioPreset {
+  id: string;
+  name: string;
+  builtin: boolean;
+  scenario: ScenarioState;
+}
+
+export const BUILTIN_PRESETS: ScenarioPreset[] = [
+  { id: "builtin:default", name: "Default", builtin: true, scenario: DEFAULT_SCENARIO },
+  {
+    id: "builtin:mild",
+    name: "Mild preferences (β = 0.8)",
+    builtin: true,
+    scenario: { ...DEFAULT_SCENARIO, wSelf: [2, 1, 0, -1], wOther: [2, 0, -1, 1], beta: 0.8 },
+  },
+  {
+    id: "builtin:three-issues",
+    name: "Three issues (books / hats / balls)",
+    builtin: true,
+    scenario: {
+      ...DEFAULT_SCENARIO,
+      names: ["books", "hats", "balls"],
+      q: [3, 2, 1],
+      x: [2, 1, 0],
+      wSelf: [1, 3, 1],
+      wOther: [2, 1, 3],
+      beta: 0.5,
+    },
+  },
+  {
+    id: "builtin:competitive",
+    name: "Competitive opponent (θ = −45°)",
+    builtin: true,
+    scenario: { ...DEFAULT_SCENARIO, thetaDeg: -45, beta: 0.3 },
+  },
+];
+
+const STORAGE_KEY = "emotion-likelihood:presets:v1";
+
+// localStorage の保存済みプリセット（壊れたものは捨てる）
+export function loadUserPresets(): ScenarioPreset[] {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(window.localStorage.getItem(STORAGE_KEY) ?? "[]");
+  } catch {
+    return [];
+  }
+  if (!Array.isArray(raw)) return [];
+  const out: ScenarioPreset[] = [];
+  for (const p of raw) {
+    if (typeof p?.id !== "string" || typeof p?.name !== "string") continue;
+    const parsed = validateScenarioState(p.scenario);
+    if (parsed.ok) out.push({ id: p.id, name: p.name, builtin: false, scenario: parsed.value });
+  }
+  return out;
+}
+
+// 保存できなければ（容量超過・プライベートモードなど）エラーメッセージを返す
+export function saveUserPresets(presets: ScenarioPreset[]): string | null {
+  const data = presets.map(({ id, name, scenario }) => ({ id, name, scenario }));
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(data));
+    return null;
+  } catch (err) {
+    return (err as Error).message;
+  }
+}
+
+export const newPresetId = () => `user:${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`;
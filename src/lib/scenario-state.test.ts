@@ -0,0 +1,103 @@
+import { describe, expect, it } from "vitest";
+import {
+  DEFAULT_SCENARIO,
+  parseScenarioFile,
+  scenarioFromQuery,
+  scenarioToQuery,
+  serializeScenarioFile,
+  validateScenarioState,
+  type ScenarioState,
+} from "./scenario-state";
+
+const custom: ScenarioState = {
+  ...DEFAULT_SCENARIO,
+  names: ["りんご, 赤", "50% off", "a:b"],
+  q: [3, 0, 10],
+  x: [1, 0, 10],
+  wSelf: [2, -1, 0],
+  wOther: [-2, 2, 1],
+  wMax: 2,
+  beta: 0.35,
+  thetaDeg: -12.5,
+  thetaStep: 2.5,
+  mapping: { id: "softmax", params: { temperature: 0.1 } },
+  satisfaction: { id: "reference", params: { lossAversion: 2.5 }, reference: [2, 0, 5] },
+};
+
+const errorsOf = (raw: unknown) => {
+  const r = validateScenarioState(raw);
+  return r.ok ? [] : r.errors;
+};
+
+describe("scenarioToQuery / scenarioFromQuery", () => {
+  it("URL を経由しても同じシナリオに戻る", () => {
+    for (const state of [DEFAULT_SCENARIO, custom]) {
+      expect(scenarioFromQuery(scenarioToQuery(state), DEFAULT_SCENARIO)).toEqual({ ok: true, value: state });
+    }
+  });
+
+  it("シナリオのキーが無いクエリは null", () => {
+    expect(scenarioFromQuery("?utm_source=x", DEFAULT_SCENARIO)).toBeNull();
+  });
+
+  it("クエリに無いキーは fallback の値", () => {
+    const r = scenarioFromQuery("?beta=2", DEFAULT_SCENARIO);
+    expect(r).toEqual({ ok: true, value: { ...DEFAULT_SCENARIO, beta: 2 } });
+  });
+
+  it("品目数が変わるのに x などが無ければ fallback で埋めずにエラー", () => {
+    const r = scenarioFromQuery("?q=1,2&wSelf=0,0", DEFAULT_SCENARIO);
+    expect(r).toEqual({
+      ok: false,
+      errors: [
+        "x is required when q has 2 items (the current scenario has 4)",
+        "wOther is required when q has 2 items (the current scenario has 4)",
+      ],
+    });
+  });
+
+  it("数でない値や壊れた names は断る", () => {
+    expect(scenarioFromQuery("?beta=abc", DEFAULT_SCENARIO)).toEqual({ ok: false, errors: ["beta must be a number between 0 and 100 (got NaN)"] });
+    expect(scenarioFromQuery("?names=%E0%A4%A,b,c,d", DEFAULT_SCENARIO)).toEqual({ ok: false, errors: ["names is not correctly URL-encoded"] });
+  });
+});
+
+describe("serializeScenarioFile / parseScenarioFile", () => {
+  it("JSON ファイルを経由しても同じシナリオに戻る", () => {
+    expect(parseScenarioFile(serializeScenarioFile(custom))).toEqual({ ok: true, value: custom });
+  });
+
+  it("JSON でないもの・version 違いは断る", () => {
+    const bad = parseScenarioFile("{");
+    expect(bad.ok === false && bad.errors[0]).toMatch(/^not valid JSON/);
+    expect(parseScenarioFile(JSON.stringify({ version: 2, scenario: custom }))).toEqual({ ok: false, errors: ["unsupported version 2 (expected 1)"] });
+  });
+});
+
+describe("validateScenarioState", () => {
+  it("q が空でない整数配列でなければそこで止める", () => {
+    expect(errorsOf({ ...DEFAULT_SCENARIO, q: [] })).toEqual(["q must be a non-empty array of integers (got [])"]);
+    expect(errorsOf("x")).toEqual(["scenario must be an object"]);
+  });
+
+  it("x は 0..q、重みは ±w_max の整数", () => {
+    expect(errorsOf({ ...DEFAULT_SCENARIO, x: [8, 0, 0, 0.5], wSelf: [5, 0, 0, 0] })).toEqual([
+      "x[0] must be an integer between 0 and 7 (got 8)",
+      "x[3] must be an integer between 0 and 5 (got 0.5)",
+      "wSelf[0] must be an integer between -4 and 4 (got 5)",
+    ]);
+  });
+
+  it("配列の長さは q と同じ", () => {
+    expect(errorsOf({ ...DEFAULT_SCENARIO, wOther: [0, 0], names: ["a"] })).toEqual([
+      "wOther must be an array of 4 integers (got [0,0])",
+      "names must be an array of 4 strings (got [\"a\"])",
+    ]);
+  });
+
+  it("モデルの id とパラメータの範囲を確かめる", () => {
+    expect(errorsOf({ ...DEFAULT_SCENARIO, mapping: { id: "nope", params: {} } })[0]).toMatch(/^mapping\.id must be one of piecewise, softmax, sigmoid/);
+    expect(errorsOf({ ...custom, satisfaction: { ...custom.satisfaction, reference: [4, 0, 0] } }))
+      .toEqual(["satisfaction.reference[0] must be an integer between 0 and 3 (got 4)"]);
+  });
+});
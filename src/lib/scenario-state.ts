@@ -0,0 +1,302 @@
+/*
+  画面上の全パラメータ（シナリオ）の直列化
+  - URL クエリ（共有リンク）
+  - バージョン付き JSON ファイル（ダウンロード / アップロード）
+*/
+
+import {
+  DEFAULT_MAPPING,
+  DEFAULT_SATISFACTION,
+  EMOTION_MAPPINGS,
+  SATISFACTION_MODELS,
+  clampWeights,
+  type EmotionMappingConfig,
+  type ModelParamSpec,
+  type ModelParams,
+  type SatisfactionConfig,
+  type Scenario,
+} from "@/lib/emotion-model";
+
+export const SCENARIO_VERSION = 1;
+
+export const Q_MAX = 20;
+
+export interface ScenarioState {
+  names: string[];
+  q: number[];
+  x: number[];
+  wSelf: number[];
+  wOther: number[];
+  wMax: number;
+  beta: number;
+  tau1: number;
+  tau2: number;
+  sadBand: number;
+  thetaDeg: number;
+  thetaStep: number;
+  mapping: EmotionMappingConfig;
+  satisfaction: SatisfactionConfig;
+}
+
+export interface ScenarioFile {
+  version: typeof SCENARIO_VERSION;
+  scenario: ScenarioState;
+}
+
+// 品目の表示名（空なら Item i）
+export const itemLabel = (names: string[], i: number) => names[i]?.trim() || `Item ${i + 1}`;
+
+export const formatAllocation = (xs: number[], names: string[]) =>
+  xs.map((xi, i) => `${itemLabel(names, i)}: ${xi}`).join(", ");
+
+export type ParseResult<T> = { ok: true; value: T } | { ok: false; errors: string[] };
+
+export const DEFAULT_SCENARIO: ScenarioState = {
+  names: ["Item 1", "Item 2", "Item 3", "Item 4"],
+  q: [7, 5, 5, 5],
+  x: [3, 2, 2, 1],
+  wSelf: [4, 0, 2, -2],
+  wOther: [4, 1, -2, 0],
+  wMax: 4,
+  beta: 0.1,
+  tau1: 0.4,
+  tau2: 0.7,
+  sadBand: 0.02,
+  thetaDeg: 45,
+  thetaStep: 1,
+  mapping: DEFAULT_MAPPING,
+  satisfaction: DEFAULT_SATISFACTION,
+};
+
+// 状態 → モデルへの入力（重みは ±w_max に切り詰め）
+export function scenarioModelInputs(state: ScenarioState): { scenario: Scenario; params: ModelParams } {
+  return {
+    scenario: {
+      q: state.q,
+      x: state.x,
+      wSelf: clampWeights(state.wSelf, state.wMax),
+      wOther: clampWeights(state.wOther, state.wMax),
+    },
+    params: {
+      beta: state.beta,
+      tau1: state.tau1,
+      tau2: state.tau2,
+      sadBand: state.sadBand,
+      mapping: state.mapping,
+      satisfaction: state.satisfaction,
+    },
+  };
+}
+
+// エラーメッセージ用の値（NaN・±Infinity は JSON.stringify だと null になるので数のまま出す）
+export function describeValue(v: unknown): string {
+  if (typeof v === "number" || v === undefined) return String(v);
+  return JSON.stringify(v, (_, x) => (typeof x === "number" && !Number.isFinite(x) ? String(x) : x));
+}
+
+const isInt = (v: unknown): v is number => typeof v === "number" && Number.isInteger(v);
+const isNum = (v: unknown): v is number => typeof v === "number" && Number.isFinite(v);
+
+function checkNumber(errors: string[], key: string, v: unknown, lo: number, hi: number, integer = false) {
+  if (!(integer ? isInt(v) : isNum(v)) || (v as number) < lo || (v as number) > hi) {
+    errors.push(`${key} must be ${integer ? "an integer" : "a number"} between ${lo} and ${hi} (got ${describeValue(v)})`);
+  }
+}
+
+function checkIntArray(errors: string[], key: string, v: unknown, n: number, bound: (i: number) => [number, number]) {
+  if (!Array.isArray(v) || v.length !== n) {
+    errors.push(`${key} must be an array of ${n} integers (got ${describeValue(v)})`);
+    return;
+  }
+  v.forEach((vi, i) => checkNumber(errors, `${key}[${i}]`, vi, ...bound(i), true));
+}
+
+// 選択式のモデル（写像・満足度）。省略時は既定、パラメータは各モデルの定義域で検証
+function checkModelChoice<Id extends string>(
+  errors: string[],
+  key: string,
+  v: unknown,
+  models: { id: Id; params: ModelParamSpec[] }[],
+): { id: Id; params: Record<string, number> } | null {
+  if (v === undefined) return null;
+  const r = (typeof v === "object" && v !== null ? v : {}) as Record<string, unknown>;
+  const model = models.find((m) => m.id === r.id);
+  if (!model) {
+    errors.push(`${key}.id must be one of ${models.map((m) => m.id).join(", ")} (got ${describeValue(r.id)})`);
+    return null;
+  }
+  const raw = (typeof r.params === "object" && r.params !== null ? r.params : {}) as Record<string, unknown>;
+  const params: Record<string, number> = {};
+  for (const spec of model.params) {
+    const value = raw[spec.key] ?? spec.default;
+    checkNumber(errors, `${key}.params.${spec.key}`, value, spec.min, spec.max);
+    params[spec.key] = value as number;
+  }
+  return { id: model.id, params };
+}
+
+// 任意の値を ScenarioState として検証（エラーはまとめて返す）
+export function validateScenarioState(raw: unknown): ParseResult<ScenarioState> {
+  if (typeof raw !== "object" || raw === null || Array.isArray(raw)) {
+    return { ok: false, errors: ["scenario must be an object"] };
+  }
+  const r = raw as Record<string, unknown>;
+  const errors: string[] = [];
+
+  if (!Array.isArray(r.q) || r.q.length === 0) {
+    return { ok: false, errors: [`q must be a non-empty array of integers (got ${describeValue(r.q)})`] };
+  }
+  const n = r.q.length;
+  checkIntArray(errors, "q", r.q, n, () => [0, Q_MAX]);
+  checkNumber(errors, "wMax", r.wMax, 0, Q_MAX, true);
+  if (errors.length > 0) return { ok: false, errors };
+
+  const q = r.q as number[];
+  const wMax = r.wMax as number;
+  checkIntArray(errors, "x", r.x, n, (i) => [0, q[i]]);
+  checkIntArray(errors, "wSelf", r.wSelf, n, () => [-wMax, wMax]);
+  checkIntArray(errors, "wOther", r.wOther, n, () => [-wMax, wMax]);
+  if (r.names !== undefined && (!Array.isArray(r.names) || r.names.length !== n || !r.names.every((s) => typeof s === "string"))) {
+    errors.push(`names must be an array of ${n} strings (got ${describeValue(r.names)})`);
+  }
+  checkNumber(errors, "beta", r.beta, 0, 100);
+  checkNumber(errors, "tau1", r.tau1, 0, 1);
+  checkNumber(errors, "tau2", r.tau2, 0, 1);
+  checkNumber(errors, "sadBand", r.sadBand, 0, 1);
+  checkNumber(errors, "thetaDeg", r.thetaDeg, -90, 90);
+  checkNumber(errors, "thetaStep", r.thetaStep, 0.1, 90);
+  const mapping = checkModelChoice(errors, "mapping", r.mapping, EMOTION_MAPPINGS) ?? DEFAULT_MAPPING;
+  const satisfactionChoice = checkModelChoice(errors, "satisfaction", r.satisfaction, SATISFACTION_MODELS);
+  // 参照点は [] （均等割り）か品目数ぶんの提案
+  const reference = (r.satisfaction as Record<string, unknown> | undefined)?.reference ?? [];
+  if (!(Array.isArray(reference) && reference.length === 0)) checkIntArray(errors, "satisfaction.reference", reference, n, (i) => [0, q[i]]);
+  const satisfaction = satisfactionChoice ? { ...satisfactionChoice, reference: reference as number[] } : DEFAULT_SATISFACTION;
+  if (errors.length > 0) return { ok: false, errors };
+
+  return {
+    ok: true,
+    value: {
+      names: (r.names as string[] | undefined) ?? q.map((_, i) => `Item ${i + 1}`),
+      q,
+      x: r.x as number[],
+      wSelf: r.wSelf as number[],
+      wOther: r.wOther as number[],
+      wMax,
+      beta: r.beta as number,
+      tau1: r.tau1 as number,
+      tau2: r.tau2 as number,
+      sadBand: r.sadBand as number,
+      thetaDeg: r.thetaDeg as number,
+      thetaStep: r.thetaStep as number,
+      mapping,
+      satisfaction,
+    },
+  };
+}
+
+// ---- JSON ファイル ----
+
+export function serializeScenarioFile(state: ScenarioState): string {
+  const file: ScenarioFile = { version: SCENARIO_VERSION, scenario: state };
+  return JSON.stringify(file, null, 2);
+}
+
+export function parseScenarioFile(text: string): ParseResult<ScenarioState> {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch (e) {
+    return { ok: false, errors: [`not valid JSON: ${(e as Error).message}`] };
+  }
+  if (typeof raw !== "object" || raw === null) {
+    return { ok: false, errors: ["file must contain a JSON object"] };
+  }
+  const { version, scenario } = raw as Record<string, unknown>;
+  if (version !== SCENARIO_VERSION) {
+    return { ok: false, errors: [`unsupported version ${describeValue(version)} (expected ${SCENARIO_VERSION})`] };
+  }
+  const result = validateScenarioState(scenario);
+  return result.ok ? result : { ok: false, errors: result.errors.map((e) => `scenario.${e}`) };
+}
+
+// ---- URL クエリ ----
+//   配列はカンマ区切り、names は encodeURIComponent 済みの値をカンマ区切り
+//   写像モデルは mapping=<id>、mappingParams=<key>:<value> のカンマ区切り（満足度モデルも同様、参照点は reference）
+
+const ARRAY_KEYS = ["q", "x", "wSelf", "wOther"] as const;
+const NUMBER_KEYS = ["wMax", "beta", "tau1", "tau2", "sadBand", "thetaDeg", "thetaStep"] as const;
+
+export function scenarioToQuery(state: ScenarioState): string {
+  const params = new URLSearchParams();
+  params.set("names", state.names.map(encodeURIComponent).join(","));
+  for (const k of ARRAY_KEYS) params.set(k, state[k].join(","));
+  for (const k of NUMBER_KEYS) params.set(k, String(state[k]));
+  params.set("mapping", state.mapping.id);
+  if (Object.keys(state.mapping.params).length > 0) params.set("mappingParams", keyValuesToQuery(state.mapping.params));
+  params.set("satisfaction", state.satisfaction.id);
+  if (Object.keys(state.satisfaction.params).length > 0) params.set("satisfactionParams", keyValuesToQuery(state.satisfaction.params));
+  if (state.satisfaction.reference.length > 0) params.set("reference", state.satisfaction.reference.join(","));
+  return params.toString();
+}
+
+const keyValuesToQuery = (kv: Record<string, number>) => Object.entries(kv).map(([k, v]) => `${k}:${v}`).join(",");
+
+const toNum = (s: string) => (s.trim() === "" ? NaN : Number(s));
+
+const keyValuesFromQuery = (s: string | null): Record<string, number> =>
+  s === null || s === ""
+    ? {}
+    : Object.fromEntries(s.split(",").map((kv) => {
+      const [k, v = ""] = kv.split(":");
+      return [k, toNum(v)];
+    }));
+
+// クエリに無いキーは fallback の値を使う。該当キーが 1 つも無ければ null
+export function scenarioFromQuery(search: string, fallback: ScenarioState): ParseResult<ScenarioState> | null {
+  const params = new URLSearchParams(search);
+  const keys = ["names", ...ARRAY_KEYS, ...NUMBER_KEYS, "mapping", "mappingParams", "satisfaction", "satisfactionParams", "reference"];
+  if (!keys.some((k) => params.has(k))) return null;
+
+  const raw: Record<string, unknown> = { ...fallback };
+  for (const k of ARRAY_KEYS) {
+    const v = params.get(k);
+    if (v !== null) raw[k] = v === "" ? [] : v.split(",").map(toNum);
+  }
+  for (const k of NUMBER_KEYS) {
+    const v = params.get(k);
+    if (v !== null) raw[k] = toNum(v);
+  }
+  const mappingId = params.get("mapping");
+  const mappingParams = params.get("mappingParams");
+  if (mappingId !== null || mappingParams !== null) {
+    raw.mapping = { id: mappingId ?? fallback.mapping.id, params: keyValuesFromQuery(mappingParams) };
+  }
+  const satisfactionId = params.get("satisfaction");
+  const satisfactionParams = params.get("satisfactionParams");
+  const reference = params.get("reference");
+  const qChanged = Array.isArray(raw.q) && raw.q.length !== fallback.q.length;
+  // 品目数が変わるなら品目ごとの配列も必要（fallback の値は長さが合わない）
+  if (qChanged) {
+    const missing = ARRAY_KEYS.filter((k) => k !== "q" && !params.has(k));
+    if (missing.length > 0) {
+      return { ok: false, errors: missing.map((k) => `${k} is required when q has ${(raw.q as unknown[]).length} items (the current scenario has ${fallback.q.length})`) };
+    }
+  }
+  raw.satisfaction = {
+    id: satisfactionId ?? fallback.satisfaction.id,
+    params: satisfactionId !== null || satisfactionParams !== null ? keyValuesFromQuery(satisfactionParams) : fallback.satisfaction.params,
+    // 品目数が変わるのに reference が無い場合は均等割り
+    reference: reference !== null ? (reference === "" ? [] : reference.split(",").map(toNum)) : qChanged ? [] : fallback.satisfaction.reference,
+  };
+  const names = params.get("names");
+  if (names !== null) {
+    try {
+      raw.names = names.split(",").map(decodeURIComponent);
+    } catch {
+      return { ok: false, errors: ["names is not correctly URL-encoded"] };
+    }
+  }
+  // 品目数が変わるのに names が無い場合は既定名
+  else if (qChanged) raw.names = undefined;
+  return validateScenarioState(raw);
+}
@@ -0,0 +1,80 @@
+import { describe, expect, it } from "vitest";
+import { EMOTIONS, deg2rad, emotionProbsAt, satisfactionModel } from "@/lib/emotion-model";
+import { DEFAULT_SCENARIO, scenarioModelInputs } from "@/lib/scenario-state";
+import { parseTrialCsv, trialLogLikelihood, type Trial } from "./trial-data";
+
+const errorsOf = (text: string, n: number) => {
+  const r = parseTrialCsv(text, n);
+  return r.ok ? [] : r.errors;
+};
+
+describe("parseTrialCsv", () => {
+  it("列の順序は自由、感情は大文字小文字を区別しない", () => {
+    const r = parseTrialCsv("emotion,x_1,x_2,participant,q_1,q_2\njoy,1,0, p1 ,2,3\nANGER,0,3,p2,2,3\n", 2);
+    expect(r).toEqual({
+      ok: true,
+      value: [
+        { participant: "p1", q: [2, 3], x: [1, 0], emotion: "Joy", wSelf: undefined, wOther: undefined },
+        { participant: "p2", q: [2, 3], x: [0, 3], emotion: "Anger", wSelf: undefined, wOther: undefined },
+      ],
+    });
+  });
+
+  it("重み列があれば試行ごとの重みとして読む", () => {
+    const r = parseTrialCsv("participant,q_1,x_1,emotion,wSelf_1,wOther_1\np,2,1,Sad,-1,3\n", 1);
+    expect(r.ok && r.value[0]).toMatchObject({ wSelf: [-1], wOther: [3] });
+  });
+
+  it("列の過不足は品目数と合わせて報告する", () => {
+    expect(errorsOf("participant,q_1,x_1,emotion\n", 2)).toEqual(["missing column(s): q_2, x_2"]);
+    expect(errorsOf("participant,q_1,x_1,q_2,x_2,emotion\n", 1)).toEqual(["column(s) q_2, x_2 do not match the current 1 item(s)"]);
+    expect(errorsOf("participant,q_1,x_1,q_2,x_2,emotion,wSelf_1\n", 2)).toEqual(["missing column(s): wSelf_2"]);
+  });
+
+  it("不正な行は行番号付きでまとめて報告する", () => {
+    expect(errorsOf("participant,q_1,x_1,emotion\np,2,3,Joy\np,x,0,Happy\np,2,1,Joy\n", 1)).toEqual([
+      "row 1: x_1 must be an integer between 0 and q_1",
+      `row 2: q_1 must be a non-negative integer; x_1 must be an integer between 0 and q_1; emotion must be one of ${EMOTIONS.join(", ")} (got "Happy")`,
+    ]);
+  });
+
+  it("エラーが多すぎれば先頭 20 件と残りの件数", () => {
+    const rows = Array.from({ length: 25 }, () => "p,1,2,Joy").join("\n");
+    const errors = errorsOf(`participant,q_1,x_1,emotion\n${rows}\n`, 1);
+    expect(errors).toHaveLength(21);
+    expect(errors[20]).toBe("… and 5 more");
+  });
+
+  it("空のファイル・ヘッダだけのファイルは断る", () => {
+    expect(errorsOf("", 1)).toEqual(["file is empty"]);
+    expect(errorsOf("participant,q_1,x_1,emotion\n", 1)).toEqual(["no trials in file"]);
+  });
+});
+
+describe("trialLogLikelihood", () => {
+  const { scenario, params } = scenarioModelInputs(DEFAULT_SCENARIO);
+  const { q, wSelf, wOther } = scenario;
+  const trials: Trial[] = [
+    { participant: "a", q, x: [3, 2, 2, 1], emotion: "Joy" },
+    { participant: "b", q, x: [7, 5, 5, 5], emotion: "Anger" },
+    { participant: "a", q: [2, 2, 2, 2], x: [0, 0, 0, 0], emotion: "Neutral", wSelf: [1, 1, 1, 1], wOther: [0, 0, 0, 0] },
+  ];
+  const thetaDeg = 30;
+  const fit = trialLogLikelihood(trials, wSelf, wOther, params, thetaDeg);
+
+  it("試行ごとに log P(E | x)（試行に重みがあればそちら）", () => {
+    trials.forEach((t, k) => {
+      const at = satisfactionModel({ q: t.q, wSelf: t.wSelf ?? wSelf, wOther: t.wOther ?? wOther }, params)(deg2rad(thetaDeg));
+      expect(fit.perTrial[k]).toBeCloseTo(Math.log(emotionProbsAt(at, t.x, params)[t.emotion]), 12);
+    });
+  });
+
+  it("合計と参加者ごとの小計、一様に当てた場合の基準", () => {
+    expect(fit.total).toBeCloseTo(fit.perTrial[0] + fit.perTrial[1] + fit.perTrial[2], 12);
+    expect(fit.byParticipant).toEqual([
+      { participant: "a", n: 2, logLik: fit.perTrial[0] + fit.perTrial[2] },
+      { participant: "b", n: 1, logLik: fit.perTrial[1] },
+    ]);
+    expect(fit.baseline).toBeCloseTo(3 * Math.log(1 / EMOTIONS.length), 12);
+  });
+});
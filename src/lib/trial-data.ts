@@ -0,0 +1,156 @@
+/*
+  実験の試行データ（CSV）の読み込みとモデル下の対数尤度
+  - 列: participant, q_1..q_N, x_1..x_N, emotion（N は現在の品目数）
+  - 任意列: wSelf_1..wSelf_N, wOther_1..wOther_N（無ければ現在の重みを使う）
+  - 試行ごとの q は現在の q と違ってもよい（尤度はその q で計算）
+*/
+
+import {
+  EMOTIONS,
+  deg2rad,
+  emotionProbsAt,
+  satisfactionModel,
+  type Emotion,
+  type ModelParams,
+  type SatisfactionAt,
+} from "@/lib/emotion-model";
+import { parseCsv } from "@/lib/csv";
+import type { ParseResult } from "@/lib/scenario-state";
+
+export interface Trial {
+  participant: string;
+  q: number[];
+  x: number[];
+  emotion: Emotion;
+  wSelf?: number[];
+  wOther?: number[];
+}
+
+export const trialColumns = (n: number) => [
+  "participant",
+  ...Array.from({ length: n }, (_, i) => `q_${i + 1}`),
+  ...Array.from({ length: n }, (_, i) => `x_${i + 1}`),
+  "emotion",
+];
+
+const MAX_REPORTED_ERRORS = 20;
+
+// n = 現在の品目数。エラーはまとめて返す（多すぎる場合は先頭のみ）
+export function parseTrialCsv(text: string, n: number): ParseResult<Trial[]> {
+  const rows = parseCsv(text);
+  if (rows.length === 0) return { ok: false, errors: ["file is empty"] };
+
+  const header = rows[0].map((h) => h.trim());
+  const expected = trialColumns(n);
+  const missing = expected.filter((c) => !header.includes(c));
+  const weightCols = (prefix: string) => Array.from({ length: n }, (_, i) => `${prefix}_${i + 1}`);
+  const optional = [...weightCols("wSelf"), ...weightCols("wOther")];
+  const extraItems = header.filter((h) => /^(q|x|wSelf|wOther)_\d+$/.test(h) && !expected.includes(h) && !optional.includes(h));
+  // 重み列は片方だけ・一部だけは不可
+  for (const prefix of ["wSelf", "wOther"]) {
+    const present = weightCols(prefix).filter((c) => header.includes(c));
+    if (present.length > 0 && present.length < n) missing.push(...weightCols(prefix).filter((c) => !header.includes(c)));
+  }
+  if (missing.length > 0 || extraItems.length > 0) {
+    return {
+      ok: false,
+      errors: [
+        ...(missing.length > 0 ? [`missing column(s): ${missing.join(", ")}`] : []),
+        ...(extraItems.length > 0 ? [`column(s) ${extraItems.join(", ")} do not match the current ${n} item(s)`] : []),
+      ],
+    };
+  }
+  const col = (name: string) => header.indexOf(name);
+  const qCols = expected.filter((c) => c.startsWith("q_")).map(col);
+  const xCols = expected.filter((c) => c.startsWith("x_")).map(col);
+  const wSelfCols = header.includes("wSelf_1") ? weightCols("wSelf").map(col) : null;
+  const wOtherCols = header.includes("wOther_1") ? weightCols("wOther").map(col) : null;
+
+  const errors: string[] = [];
+  const trials: Trial[] = [];
+  rows.slice(1).forEach((r, k) => {
+    const at = `row ${k + 1}`;
+    const int = (j: number) => {
+      const s = (r[j] ?? "").trim();
+      return s !== "" && /^-?\d+$/.test(s) ? Number(s) : NaN;
+    };
+    const q = qCols.map(int);
+    const x = xCols.map(int);
+    const wSelf = wSelfCols?.map(int);
+    const wOther = wOtherCols?.map(int);
+    const rawEmotion = (r[col("emotion")] ?? "").trim().toLowerCase();
+    const emotion = EMOTIONS.find((e) => e.toLowerCase() === rawEmotion);
+    const rowErrors: string[] = [];
+    q.forEach((qi, i) => { if (!(qi >= 0)) rowErrors.push(`q_${i + 1} must be a non-negative integer`); });
+    x.forEach((xi, i) => {
+      if (!(xi >= 0 && xi <= q[i])) rowErrors.push(`x_${i + 1} must be an integer between 0 and q_${i + 1}`);
+    });
+    for (const [prefix, w] of [["wSelf", wSelf], ["wOther", wOther]] as const) {
+      w?.forEach((wi, i) => { if (Number.isNaN(wi)) rowErrors.push(`${prefix}_${i + 1} must be an integer`); });
+    }
+    if (!emotion) rowErrors.push(`emotion must be one of ${EMOTIONS.join(", ")} (got ${JSON.stringify(r[col("emotion")] ?? "")})`);
+    if (rowErrors.length > 0) errors.push(`${at}: ${rowErrors.join("; ")}`);
+    else trials.push({ participant: (r[col("participant")] ?? "").trim(), q, x, emotion: emotion as Emotion, wSelf, wOther });
+  });
+
+  if (errors.length > 0) {
+    const more = errors.length - MAX_REPORTED_ERRORS;
+    return { ok: false, errors: [...errors.slice(0, MAX_REPORTED_ERRORS), ...(more > 0 ? [`… and ${more} more`] : [])] };
+  }
+  if (trials.length === 0) return { ok: false, errors: ["no trials in file"] };
+  return { ok: true, value: trials };
+}
+
+export interface TrialFit {
+  total: number;
+  perTrial: number[];
+  baseline: number; // 感情を一様（1/4）に当てた場合
+  byParticipant: { participant: string; n: number; logLik: number }[];
+}
+
+// 試行自身の q・重みの組（フィッティングで繰り返し呼ばれるので試行ごとに覚えておく）
+const setupKeys = new WeakMap<Trial, string>();
+function setupKey(t: Trial) {
+  let key = setupKeys.get(t);
+  if (key === undefined) {
+    key = `${t.q}|${t.wSelf ?? "-"}|${t.wOther ?? "-"}`;
+    setupKeys.set(t, key);
+  }
+  return key;
+}
+
+// 現在の重み（試行に重みがあればそちら）・θ・パラメータでの対数尤度（q と重みが同じ試行は満足度の前計算を使い回す）
+export function trialLogLikelihood(
+  trials: Trial[],
+  wSelf: number[],
+  wOther: number[],
+  params: ModelParams,
+  thetaDeg: number,
+): TrialFit {
+  const rad = deg2rad(thetaDeg);
+  const cache = new Map<string, SatisfactionAt>();
+  const atFor = (t: Trial) => {
+    const key = setupKey(t);
+    let at = cache.get(key);
+    if (!at) {
+      at = satisfactionModel({ q: t.q, wSelf: t.wSelf ?? wSelf, wOther: t.wOther ?? wOther }, params)(rad);
+      cache.set(key, at);
+    }
+    return at;
+  };
+
+  const perTrial = trials.map((t) => Math.log(emotionProbsAt(atFor(t), t.x, params)[t.emotion]));
+  const groups = new Map<string, { n: number; logLik: number }>();
+  trials.forEach((t, k) => {
+    const g = groups.get(t.participant) ?? { n: 0, logLik: 0 };
+    g.n += 1;
+    g.logLik += perTrial[k];
+    groups.set(t.participant, g);
+  });
+  return {
+    total: perTrial.reduce((s, v) => s + v, 0),
+    perTrial,
+    baseline: trials.length * Math.log(1 / EMOTIONS.length),
+    byParticipant: [...groups].map(([participant, g]) => ({ participant, ...g })),
+  };
+}